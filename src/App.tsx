@@ -1,7 +1,18 @@
-import { ChatScreen } from '@components/ChatScreen';
+import { ChatLayout } from '@components/ChatLayout';
+import { IdentityGate } from '@components/IdentityGate';
+import { IdentityProvider } from '@components/IdentityProvider';
+import { SessionGate } from '@components/SessionGate';
 
 function App() {
-  return <ChatScreen />;
+  return (
+    <SessionGate>
+      <IdentityProvider>
+        <IdentityGate>
+          <ChatLayout />
+        </IdentityGate>
+      </IdentityProvider>
+    </SessionGate>
+  );
 }
 
 export default App;
@@ -8,11 +8,63 @@
  */
 
 import { apiConfig } from '@config/env';
-import { ApiError, createApiErrorFromResponse, isApiError } from './api-error';
+import { getFakeChatBackend } from '@mocks/fake-chat-backend';
+import { resolveToken, session } from '@session/session';
+import {
+  ApiError,
+  ApiErrorKind,
+  createApiErrorFromResponse,
+  isApiError,
+} from './api-error';
+import {
+  DEFAULT_RETRY_POLICY,
+  getRetryDelay,
+  isRetryableError,
+  waitForRetry,
+  type RetryPolicy,
+} from './retry-policy';
+import {
+  createCorrelationIdInterceptor,
+  createRequestId,
+  createSessionInterceptor,
+  createTimingInterceptor,
+  sortRegistrations,
+  type ApiInterceptor,
+  type ApiRequest,
+  type InterceptorOptions,
+  type InterceptorRegistration,
+  type SendRequest,
+} from './interceptors';
+import {
+  CONVERSATIONS_PATH,
+  DEFAULT_CONVERSATION_ID,
+  getMessagePath,
+  getMessagesPath,
+  getReactionPath,
+} from './endpoints';
+import {
+  conversationSchema,
+  conversationsSchema,
+  messageSchema,
+  messagesSchema,
+} from './schemas';
+import {
+  formatIssues,
+  partitionArray,
+  type ValidationIssue,
+  type ValidationMode,
+  type ValidationReport,
+  type Validator,
+} from './validation';
+import type { ApiRequestOptions, CreateMessageOptions } from '@models/api';
+import type { Conversation } from '@models/conversation';
+import type { TokenSource } from '@models/session';
 import type {
   CreateMessageRequest,
   GetMessagesParams,
   Message,
+  ReactionRequest,
+  UpdateMessageRequest,
 } from '@models/message';
 
 /**
@@ -22,6 +74,9 @@ import type {
 const HttpMethod = {
   GET: 'GET',
   POST: 'POST',
+  PUT: 'PUT',
+  PATCH: 'PATCH',
+  DELETE: 'DELETE',
 } as const;
 
 /**
@@ -32,11 +87,83 @@ type HttpMethod = (typeof HttpMethod)[keyof typeof HttpMethod];
 /**
  * Request options for the internal request method.
  */
-interface RequestOptions {
+interface RequestOptions extends ApiRequestOptions {
   readonly method: HttpMethod;
   readonly path: string;
   readonly body?: Readonly<Record<string, unknown>>;
   readonly queryParams?: Readonly<Record<string, string | number | undefined>>;
+  readonly headers?: Readonly<Record<string, string>>;
+  /**
+   * Whether repeating the request is safe (GET, PUT, PATCH, DELETE, or POST
+   * with an idempotency key)
+   */
+  readonly idempotent: boolean;
+}
+
+/**
+ * Public endpoints, used to configure validation per endpoint.
+ */
+export type ApiEndpoint =
+  | 'getConversations'
+  | 'getMessages'
+  | 'createMessage'
+  | 'updateMessage'
+  | 'deleteMessage'
+  | 'addReaction'
+  | 'removeReaction';
+
+/**
+ * Default validation mode per endpoint.
+ * - Lists are lenient: one malformed message shouldn't hide the conversation
+ * - Single resources are strict: there is nothing to show without them
+ */
+const DEFAULT_VALIDATION: Readonly<Record<ApiEndpoint, ValidationMode>> = {
+  getConversations: 'lenient',
+  getMessages: 'lenient',
+  createMessage: 'strict',
+  updateMessage: 'strict',
+  deleteMessage: 'strict',
+  addReaction: 'strict',
+  removeReaction: 'strict',
+};
+
+/**
+ * Options for creating an API client instance.
+ */
+export interface ApiClientOptions {
+  /**
+   * Default timeout for every request in milliseconds (0 disables it).
+   * Defaults to apiConfig.timeoutMs.
+   */
+  readonly timeoutMs?: number;
+
+  /**
+   * Retry policy overrides (false disables retries).
+   * Defaults to DEFAULT_RETRY_POLICY.
+   */
+  readonly retry?: Partial<RetryPolicy> | false;
+
+  /**
+   * Validation mode overrides per endpoint.
+   * Defaults to DEFAULT_VALIDATION.
+   */
+  readonly validation?: Partial<Record<ApiEndpoint, ValidationMode>>;
+
+  /**
+   * Receives the items dropped (or rejected) by lenient validation.
+   */
+  readonly onValidationIssues?: (report: ValidationReport) => void;
+
+  /**
+   * Interceptors registered at creation, in this order (see use()).
+   */
+  readonly interceptors?: ReadonlyArray<ApiInterceptor>;
+
+  /**
+   * fetch-compatible function that performs the HTTP exchange.
+   * Defaults to the global fetch; the fake backend plugs in here.
+   */
+  readonly transport?: typeof fetch;
 }
 
 /**
@@ -47,27 +174,108 @@ interface RequestOptions {
  *
  * Class Structure:
  * - Private methods: Internal implementation details (request, buildUrl, etc.)
- * - Public methods: API endpoints (getMessages, createMessage)
+ * - Public methods: API endpoints (getMessages, createMessage, updateMessage,
+ *   deleteMessage, addReaction, removeReaction)
+ * - Extension: Interceptors registered with use()
  * - Configuration: Uses apiConfig from env.ts
  *
  */
 export class ApiClient {
   private readonly baseUrl: string;
-  private readonly token: string;
+  private readonly token: TokenSource;
+  private readonly timeoutMs: number;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly validation: Readonly<Record<ApiEndpoint, ValidationMode>>;
+  private readonly onValidationIssues?: (report: ValidationReport) => void;
+  private readonly transport: typeof fetch;
+
+  /**
+   * Replaced (never mutated) on registration, so an in-flight request keeps
+   * the chain it started with.
+   */
+  private interceptors: ReadonlyArray<InterceptorRegistration> = [];
+  private interceptorSequence = 0;
 
   /**
    * Creates a new API client instance.
    *
    * @param baseUrl - Base URL for API requests (defaults to apiConfig.baseUrl)
-   * @param token - Authentication token (defaults to apiConfig.token)
+   * @param token - Authentication token, or a function returning the current
+   *   one (defaults to apiConfig.token)
+   * @param options - Client options (default timeout, retry policy, validation, transport)
    *
    */
   constructor(
     baseUrl: string = apiConfig.baseUrl,
-    token: string = apiConfig.token
+    token: TokenSource = apiConfig.token,
+    options: Readonly<ApiClientOptions> = {}
   ) {
     this.baseUrl = baseUrl;
     this.token = token;
+    this.timeoutMs = options.timeoutMs ?? apiConfig.timeoutMs;
+    this.retryPolicy = ApiClient.resolveRetryPolicy(
+      DEFAULT_RETRY_POLICY,
+      options.retry
+    );
+    this.validation = { ...DEFAULT_VALIDATION, ...options.validation };
+    this.onValidationIssues = options.onValidationIssues;
+    /**
+     * Resolve the global lazily so fetch can be replaced after construction.
+     */
+    this.transport =
+      options.transport ?? ((input, init) => globalThis.fetch(input, init));
+
+    options.interceptors?.forEach(interceptor => this.use(interceptor));
+  }
+
+  /**
+   * Registers an interceptor.
+   *
+   * @param interceptor - Request/response middleware
+   * @param options - Position in the chain (lower `order` runs earlier on the way out)
+   * @returns Function that unregisters the interceptor
+   *
+   * @example
+   * ```TypeScript
+   * const removeTiming = apiClient.use(
+   *   createTimingInterceptor(timing => console.debug(timing))
+   * );
+   * // later
+   * removeTiming();
+   * ```
+   */
+  use(
+    interceptor: ApiInterceptor,
+    options: Readonly<InterceptorOptions> = {}
+  ): () => void {
+    const registration: InterceptorRegistration = {
+      interceptor,
+      order: options.order ?? 0,
+      sequence: this.interceptorSequence++,
+    };
+
+    this.interceptors = sortRegistrations([...this.interceptors, registration]);
+
+    return () => {
+      this.interceptors = this.interceptors.filter(
+        existing => existing !== registration
+      );
+    };
+  }
+
+  /**
+   * Applies retry overrides to a base policy.
+   * `false` keeps the policy but limits it to a single attempt.
+   */
+  private static resolveRetryPolicy(
+    basePolicy: Readonly<RetryPolicy>,
+    overrides: Partial<RetryPolicy> | false | undefined
+  ): RetryPolicy {
+    if (overrides === false) {
+      return { ...basePolicy, maxAttempts: 1 };
+    }
+
+    return { ...basePolicy, ...overrides };
   }
 
   /**
@@ -140,12 +348,13 @@ export class ApiClient {
    * required headers (Authorization, Content-Type).
    *
    * Header Construction:
-   * 1. Always includes an Authorization header with the Bearer token
+   * 1. Includes an Authorization header with the Bearer token (omitted
+   *    while there is no token, e.g. signed out)
    * 2. Conditionally adds Content-Type for requests with body
-   * 3. Returns HeadersInit compatible with fetch API
+   * 3. Returns a plain object, so interceptors can copy and extend it
    *
    * @param hasBody - Whether the request includes a body (true for POST, false for GET)
-   * @returns Headers object compatible with fetch API HeadersInit
+   * @returns Plain header record (also valid fetch HeadersInit)
    *
    * Examples:
    *
@@ -164,10 +373,13 @@ export class ApiClient {
    * // }
    * ```
    */
-  private buildHeaders(hasBody: boolean): HeadersInit {
-    const headers: Record<string, string> = {
-      Authorization: `Bearer ${this.token}`,
-    };
+  private buildHeaders(hasBody: boolean): Record<string, string> {
+    const headers: Record<string, string> = {};
+    const token = resolveToken(this.token);
+
+    if (token) {
+      headers.Authorization = `Bearer ${token}`;
+    }
 
     if (hasBody) {
       headers['Content-Type'] = 'application/json';
@@ -177,10 +389,62 @@ export class ApiClient {
   }
 
   /**
-   * Core request method that handles all HTTP requests.
+   * Core request method: retries a single-attempt request according to
+   * the retry policy.
    *
-   * This is the heart of the API client. All public methods
-   * will call this method to make actual HTTP requests.
+   * All public methods call this method to make HTTP requests.
+   *
+   * Retry Rules:
+   * - Only idempotent requests are retried (GET, PATCH, DELETE, or POST with
+   *   an idempotency key)
+   * - Only transient failures are retried (network, timeout, retryable statuses)
+   * - Waits with exponential backoff and jitter, or for the server's Retry-After
+   * - Aborting the signal stops both the attempt and the wait
+   *
+   * @param options - Request configuration
+   * @returns Promise that resolves to the parsed (not yet validated) response body
+   * @throws ApiError from the last attempt, or an 'aborted' ApiError
+   */
+  private async request(options: RequestOptions): Promise<unknown> {
+    const policy = ApiClient.resolveRetryPolicy(
+      this.retryPolicy,
+      options.retry
+    );
+
+    const requestId = createRequestId();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.performRequest(options, requestId, attempt);
+      } catch (error) {
+        if (
+          !isApiError(error) ||
+          !options.idempotent ||
+          attempt >= policy.maxAttempts ||
+          !isRetryableError(error, policy)
+        ) {
+          throw error;
+        }
+
+        const delayMs = getRetryDelay(attempt, policy, error.retryAfterMs);
+        if (delayMs === undefined) {
+          throw error;
+        }
+
+        options.onRetry?.({
+          attempt: attempt + 1,
+          maxAttempts: policy.maxAttempts,
+          delayMs,
+          error,
+        });
+
+        await waitForRetry(delayMs, options.signal, error.endpoint);
+      }
+    }
+  }
+
+  /**
+   * Performs a single HTTP request attempt.
    *
    * Why private?
    * - Encapsulation: External code should use specific methods (getMessages, etc.)
@@ -191,40 +455,205 @@ export class ApiClient {
    * 1. Build URL with query parameters
    * 2. Build headers (Authorization, Content-Type)
    * 3. Serialize body to JSON (if present)
-   * 4. Make a fetch request
-   * 5. Check response status
-   * 6. Parse JSON response
-   * 7. Handle errors appropriately
+   * 4. Link the caller's AbortSignal and start the timeout
+   * 5. Run onRequest interceptors
+   * 6. Make a fetch request
+   * 7. Run onResponse interceptors
+   * 8. On failure, let onError interceptors recover
+   * 9. Check response status
+   * 10. Parse JSON response
    *
-   * @param options - Request configuration (method, path, body, query params)
-   * @returns Promise that resolves to typed response data
-   * @throws ApiError if request fails (network, HTTP error, or JSON parsing error)
+   * @param options - Request configuration (method, path, body, query params, signal, timeout)
+   * @param requestId - Id shared by all attempts, exposed to interceptors
+   * @param attempt - Attempt number (1-based), exposed to interceptors
+   * @returns Promise that resolves to the parsed response body (unknown until validated)
+   * @throws ApiError if request fails (network, timeout, abort, HTTP error, or JSON parsing error)
    *
    * Error Handling Strategy:
-   * - Network errors (no response): Status 0, wrapped in ApiError
-   * - HTTP errors (4xx, 5xx): Converted to ApiError via createApiErrorFromResponse
-   * - JSON parsing errors: Wrapped in ApiError with status 0
+   * - Network errors (no response): Status 0, kind 'network'
+   * - Timeout elapsed: Status 0, kind 'timeout'
+   * - Caller aborted: Status 0, kind 'aborted'
+   * - HTTP errors (4xx, 5xx): Converted to ApiError via createApiErrorFromResponse,
+   *   kind from the status (validation, auth, rate-limited, server, http)
+   * - JSON parsing errors: Status 0, kind 'parse'
+   * - Anything else (e.g. an interceptor throwing): Status 0, kind 'unknown'
    * - Already ApiError: Re-thrown as-is
    */
-  private async request<T>(options: RequestOptions): Promise<T> {
+  private async performRequest(
+    options: RequestOptions,
+    requestId: string,
+    attempt: number
+  ): Promise<unknown> {
     const url = this.buildUrl(options.path, options.queryParams);
 
-    const headers = this.buildHeaders(options.body !== undefined);
+    const headers = {
+      ...this.buildHeaders(options.body !== undefined),
+      ...options.headers,
+    };
+
+    const interceptors = this.interceptors;
 
-    const fetchOptions: RequestInit = {
-      method: options.method,
-      headers,
+    /**
+     * One controller per request: aborted either by the caller's signal
+     * or by the timeout. The flags record which one fired first.
+     */
+    const controller = new AbortController();
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+    let didTimeout = false;
+    let didAbort = false;
+
+    const handleCallerAbort = () => {
+      didAbort = true;
+      controller.abort(options.signal?.reason);
     };
 
-    if (options.body) {
-      fetchOptions.body = JSON.stringify(options.body);
+    if (options.signal?.aborted) {
+      throw new ApiError(
+        'Request was aborted',
+        0,
+        undefined,
+        url,
+        ApiErrorKind.ABORTED
+      );
     }
 
+    options.signal?.addEventListener('abort', handleCallerAbort, {
+      once: true,
+    });
+
+    const timeoutId =
+      timeoutMs > 0
+        ? setTimeout(() => {
+            didTimeout = true;
+            controller.abort();
+          }, timeoutMs)
+        : undefined;
+
+    /**
+     * Error handling: Categorize and handle different error types.
+     *
+     * Error types we handle:
+     * 1. ApiError (from createApiErrorFromResponse): Returned as-is
+     * 2. Aborted by caller / timed out: Status 0 with kind 'aborted' / 'timeout'
+     * 3. JSON parsing errors: Status 0, kind 'parse'
+     * 4. Anything else: Status 0 with `fallbackKind` ('network' for transport
+     *    failures, 'unknown' otherwise, e.g. an interceptor throwing)
+     */
+    const toApiError = (
+      error: unknown,
+      fallbackKind: ApiErrorKind = ApiErrorKind.UNKNOWN
+    ): ApiError => {
+      if (isApiError(error)) {
+        return error;
+      }
+
+      if (didAbort) {
+        return new ApiError(
+          'Request was aborted',
+          0,
+          undefined,
+          url,
+          ApiErrorKind.ABORTED
+        );
+      }
+
+      if (didTimeout) {
+        return new ApiError(
+          `Request timed out after ${timeoutMs}ms`,
+          0,
+          undefined,
+          url,
+          ApiErrorKind.TIMEOUT
+        );
+      }
+
+      if (error instanceof SyntaxError) {
+        return new ApiError(
+          `Invalid JSON in response: ${error.message}`,
+          0,
+          undefined,
+          url,
+          ApiErrorKind.PARSE
+        );
+      }
+
+      /**
+       * Network errors (no response received) reach this point from send().
+       * When:
+       * - Network is offline
+       * - Server is unreachable (DNS failure, connection refused)
+       * - CORS errors (browser blocks cross-origin request)
+       * - SSL/TLS errors
+       */
+      const errorMessage =
+        error instanceof Error
+          ? error.message
+          : fallbackKind === ApiErrorKind.NETWORK
+            ? 'Network error occurred'
+            : 'Unknown error occurred';
+
+      return new ApiError(errorMessage, 0, undefined, url, fallbackKind);
+    };
+
+    /**
+     * Sends a request through the transport with this attempt's signal.
+     * Also handed to onError interceptors to re-issue a request.
+     */
+    const send: SendRequest = async request => {
+      try {
+        return await this.transport(request.url, {
+          method: request.method,
+          headers: request.headers,
+          body: request.body,
+          signal: controller.signal,
+        });
+      } catch (error) {
+        throw toApiError(error, ApiErrorKind.NETWORK);
+      }
+    };
+
     try {
-      const response = await fetch(url, fetchOptions);
+      let request: ApiRequest = {
+        url,
+        method: options.method,
+        headers,
+        body: options.body ? JSON.stringify(options.body) : undefined,
+        requestId,
+        attempt,
+        context: new Map(),
+      };
 
-      if (!response.ok) {
-        throw await createApiErrorFromResponse(response, url);
+      for (const { interceptor } of interceptors) {
+        if (interceptor.onRequest) {
+          request = await interceptor.onRequest(request);
+        }
+      }
+
+      let response: Response;
+
+      try {
+        response = await send(request);
+
+        for (const { interceptor } of [...interceptors].reverse()) {
+          if (interceptor.onResponse) {
+            response = await interceptor.onResponse(response, request);
+          }
+        }
+
+        if (!response.ok) {
+          throw await createApiErrorFromResponse(response, request.url);
+        }
+      } catch (error) {
+        response = await ApiClient.recover(
+          toApiError(error),
+          request,
+          interceptors,
+          send
+        );
+
+        if (!response.ok) {
+          throw await createApiErrorFromResponse(response, request.url);
+        }
       }
 
       const contentType = response.headers.get('content-type');
@@ -232,10 +661,10 @@ export class ApiClient {
 
       if (response.status === 204 || !hasJsonContent) {
         /**
-         * For 204 No Content, return undefined as T.
-         * TypeScript will handle the type based on usage.
+         * For 204 No Content, return undefined.
+         * Endpoints expecting a body reject it during validation.
          */
-        return undefined as T;
+        return undefined;
       }
 
       /**
@@ -251,97 +680,267 @@ export class ApiClient {
       const text = await response.text();
 
       if (!text.trim()) {
-        return undefined as T;
+        return undefined;
       }
 
-      return JSON.parse(text) as T;
+      return JSON.parse(text) as unknown;
     } catch (error) {
-      /**
-       * Error handling: Categorize and handle different error types.
-       *
-       * Error types we handle:
-       * 1. ApiError (from createApiErrorFromResponse): Re-throw as-is
-       * 2. Network errors (fetch rejects): Wrap in ApiError with status 0
-       * 3. JSON parsing errors: Wrap in ApiError with status 0
-       * 4. Unknown errors: Wrap in ApiError with a generic message
-       */
-      if (isApiError(error)) {
-        throw error;
+      throw toApiError(error);
+    } finally {
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', handleCallerAbort);
+    }
+  }
+
+  /**
+   * Gives onError interceptors (in reverse order) the chance to recover.
+   *
+   * Aborted requests are never recovered: the caller gave up on them.
+   *
+   * @returns The first response returned by an interceptor
+   * @throws The original error if no interceptor recovers
+   */
+  private static async recover(
+    error: ApiError,
+    request: ApiRequest,
+    interceptors: ReadonlyArray<InterceptorRegistration>,
+    send: SendRequest
+  ): Promise<Response> {
+    if (error.isAborted()) {
+      throw error;
+    }
+
+    for (const { interceptor } of [...interceptors].reverse()) {
+      if (interceptor.onError) {
+        const recovered = await interceptor.onError(error, request, send);
+        if (recovered) {
+          return recovered;
+        }
       }
+    }
 
-      /**
-       * Handle network errors (no response received).
-       * When:
-       * - Network is offline
-       * - Server is unreachable (DNS failure, connection refused)
-       * - Request timeout (if configured)
-       * - CORS errors (browser blocks cross-origin request)
-       * - SSL/TLS errors
-       *
-       * Status 0 indicates a network error (not an HTTP status code).
-       * This helps distinguish network errors from HTTP errors.
-       */
-      const errorMessage =
-        error instanceof Error ? error.message : 'Network error occurred';
+    throw error;
+  }
 
-      throw new ApiError(
-        errorMessage,
-        /**
-         * Status 0 indicates a network error (not HTTP status)
-         */
-        0,
-        undefined,
-        url
-      );
+  /**
+   * Creates the error thrown when a payload fails validation.
+   */
+  private static createParseError(
+    issues: ReadonlyArray<ValidationIssue>,
+    endpoint: string
+  ): ApiError {
+    return new ApiError(
+      `Invalid response payload: ${formatIssues(issues)}`,
+      0,
+      undefined,
+      endpoint,
+      ApiErrorKind.PARSE
+    );
+  }
+
+  /**
+   * Validates a collection response.
+   *
+   * - strict: Any invalid item rejects with a parse ApiError
+   * - lenient: Invalid items are dropped and reported through onValidationIssues
+   *
+   * A payload that isn't an array is rejected in both modes.
+   */
+  private validateCollection<T>(
+    payload: unknown,
+    collectionSchema: Validator<ReadonlyArray<T>>,
+    itemSchema: Validator<T>,
+    mode: ValidationMode,
+    endpoint: string
+  ): ReadonlyArray<T> {
+    if (mode === 'strict') {
+      const result = collectionSchema(payload);
+      if (!result.ok) {
+        throw ApiClient.createParseError(result.issues, endpoint);
+      }
+
+      return result.value;
+    }
+
+    const result = partitionArray(payload, itemSchema);
+    if (!result.ok) {
+      throw ApiClient.createParseError(result.issues, endpoint);
+    }
+
+    const { items, droppedCount, issues } = result.value;
+    if (droppedCount > 0) {
+      this.onValidationIssues?.({ endpoint, droppedCount, issues });
     }
+
+    return items;
   }
 
   /**
-   * Get messages from the API.
+   * Validates a single-resource response.
+   *
+   * An invalid resource can't be dropped, so both modes reject with a parse
+   * ApiError; lenient mode also reports it through onValidationIssues.
+   */
+  private validateResource<T>(
+    payload: unknown,
+    schema: Validator<T>,
+    mode: ValidationMode,
+    endpoint: string
+  ): T {
+    const result = schema(payload);
+    if (result.ok) {
+      return result.value;
+    }
+
+    if (mode === 'lenient') {
+      this.onValidationIssues?.({
+        endpoint,
+        droppedCount: 1,
+        issues: result.issues,
+      });
+    }
+
+    throw ApiClient.createParseError(result.issues, endpoint);
+  }
+
+  /**
+   * Checks whether the server accepts a token, without using it for
+   * anything else. Used by the sign-in form before starting a session.
+   *
+   * @param token - Token to check
+   * @param options - Optional AbortSignal, timeout and retry overrides
+   * @throws ApiError if the token is rejected (`error.isUnauthorized()`) or
+   *   the request fails
+   *
+   * @example
+   * ```TypeScript
+   * await apiClient.verifyToken('my-token');
+   * // GET /api/v1/messages?limit=1 with Authorization: Bearer my-token
+   * ```
+   */
+  async verifyToken(
+    token: string,
+    options?: Readonly<ApiRequestOptions>
+  ): Promise<void> {
+    await this.request({
+      ...options,
+      method: HttpMethod.GET,
+      path: getMessagesPath(DEFAULT_CONVERSATION_ID),
+      queryParams: { limit: 1 },
+      headers: { Authorization: `Bearer ${token}` },
+      idempotent: true,
+    });
+  }
+
+  /**
+   * Get the conversations (rooms) visible to the user.
+   *
+   * @param options - Optional AbortSignal, timeout and retry overrides
+   * @returns Promise that resolves to a readonly array of validated conversations
+   * @throws ApiError if request fails, or the payload is invalid (kind 'parse').
+   *   Servers without conversation support answer 404 (`error.isNotFound()`).
+   *
+   * @example
+   * ```TypeScript
+   * const conversations = await apiClient.getConversations();
+   * // GET /api/v1/conversations
+   * ```
+   */
+  async getConversations(
+    options?: Readonly<ApiRequestOptions>
+  ): Promise<ReadonlyArray<Conversation>> {
+    const payload = await this.request({
+      ...options,
+      method: HttpMethod.GET,
+      path: CONVERSATIONS_PATH,
+      idempotent: true,
+    });
+
+    return this.validateCollection(
+      payload,
+      conversationsSchema,
+      conversationSchema,
+      options?.validation ?? this.validation.getConversations,
+      this.buildUrl(CONVERSATIONS_PATH)
+    );
+  }
+
+  /**
+   * Get messages of a conversation from the API.
    *
    * This is a public method that external code will call.
    * It provides a type-safe interface for fetching messages with optional
    * query parameters for pagination and filtering.
    *
+   * The default room (DEFAULT_CONVERSATION_ID) is served from `/messages`,
+   * every other room from `/conversations/:conversationId/messages`.
+   *
    * Query Parameters:
    * - `limit`: Maximum number of messages to return (e.g., 10, 20, 50)
    * - `after`: ISO timestamp - return messages created after this time
    * - `before`: ISO timestamp - return messages created before this time
-
+   * - `since`: ISO timestamp - return messages created or changed after
+   *   this time, ordered by `changedAt` (with `after`, messages matching
+   *   either one)
+   *
    * TypeScript Return Type:
    * - `Promise<ReadonlyArray<Message>>` ensures type safety
    *
+   * @param conversationId - Room to read
    * @param params - Optional query parameters for filtering and pagination
-   * @returns Promise that resolves to a readonly array of messages
-   * @throws ApiError if request fails (network error, 4xx, 5xx, etc.)
+   * @param options - Optional AbortSignal, timeout and retry overrides
+   *   (transient failures are retried by default)
+   * @returns Promise that resolves to a readonly array of validated messages
+   * @throws ApiError if request fails (network error, timeout, abort, 4xx, 5xx, etc.)
+   *   or the payload is invalid (kind 'parse'; in lenient mode only if it isn't an array)
    *
    * Examples:
    *
    * Basic usage (no parameters):
    * ```TypeScript
-   * const messages = await apiClient.getMessages();
+   * const messages = await apiClient.getMessages('general');
    * // Returns: Promise<ReadonlyArray<Message>>
    * ```
    *
    * With limit:
    * ```TypeScript
-   * const messages = await apiClient.getMessages({ limit: 10 });
-   * // GET /api/v1/messages?limit=10
+   * const messages = await apiClient.getMessages('design', { limit: 10 });
+   * // GET /api/v1/conversations/design/messages?limit=10
    * ```
    *
    * Pagination (get messages after a timestamp):
    * ```TypeScript
-   * const messages = await apiClient.getMessages({
+   * const messages = await apiClient.getMessages('general', {
    *   limit: 20,
    *   after: '2024-01-01T00:00:00Z',
    * });
    * // GET /api/v1/messages?limit=20&after=2024-01-01T00:00:00Z
    * ```
    *
+   * Polling for new and changed messages:
+   * ```TypeScript
+   * const messages = await apiClient.getMessages('general', {
+   *   after: '2024-01-01T00:00:00Z',
+   *   since: '2024-01-01T00:05:00Z',
+   * });
+   * // GET /api/v1/messages?after=2024-01-01T00:00:00Z&since=2024-01-01T00:05:00Z
+   * ```
+   *
+   * Cancellation and timeout:
+   * ```TypeScript
+   * const controller = new AbortController();
+   * const messages = apiClient.getMessages(
+   *   'general',
+   *   { limit: 10 },
+   *   { signal: controller.signal, timeoutMs: 5000 }
+   * );
+   * controller.abort(); // rejects with an ApiError of kind 'aborted'
+   * ```
+   *
    * Error Handling:
    * ```TypeScript
    * try {
-   *   const messages = await apiClient.getMessages({ limit: 10 });
+   *   const messages = await apiClient.getMessages('general', { limit: 10 });
    *   // Handle success
    * } catch (error) {
    *   if (isApiError(error)) {
@@ -357,17 +956,30 @@ export class ApiClient {
    * ```
    */
   async getMessages(
-    params?: Readonly<GetMessagesParams>
+    conversationId: string,
+    params?: Readonly<GetMessagesParams>,
+    options?: Readonly<ApiRequestOptions>
   ): Promise<ReadonlyArray<Message>> {
-    return this.request<ReadonlyArray<Message>>({
+    const path = getMessagesPath(conversationId);
+    const payload = await this.request({
+      ...options,
       method: HttpMethod.GET,
-      path: '/messages',
+      path,
       queryParams: params,
+      idempotent: true,
     });
+
+    return this.validateCollection(
+      payload,
+      messagesSchema,
+      messageSchema,
+      options?.validation ?? this.validation.getMessages,
+      this.buildUrl(path, params)
+    );
   }
 
   /**
-   * Create a new message via the API.
+   * Create a new message in a conversation via the API.
    *
    * This is a public method that external code will call.
    * It provides a type-safe interface for creating messages with proper
@@ -391,15 +1003,19 @@ export class ApiClient {
    * }
    * ```
    *
+   * @param conversationId - Room to post to
    * @param data - Message data containing message and author fields
-   * @returns Promise that resolves to a created message
-   * @throws ApiError if request fails (validation, network, server errors)
+   * @param options - Optional AbortSignal, timeout, retry overrides and idempotency key
+   *   (without an idempotency key the POST is never retried)
+   * @returns Promise that resolves to the validated created message
+   * @throws ApiError if request fails (validation, network, timeout, abort, server errors)
+   *   or the response isn't a valid message (kind 'parse')
    *
    * Usage Examples:
    *
    * Basic usage:
    * ```TypeScript
-   * const newMessage = await apiClient.createMessage({
+   * const newMessage = await apiClient.createMessage('general', {
    *   message: 'Hello, world!',
    *   author: 'John Doe',
    * });
@@ -432,7 +1048,7 @@ export class ApiClient {
    * ```TypeScript
    * const handleSubmit = async (formData: FormData) => {
    *   try {
-   *     const message = await apiClient.createMessage({
+   *     const message = await apiClient.createMessage(conversationId, {
    *       message: formData.get('message') as string,
    *       author: formData.get('author') as string,
    *     });
@@ -444,12 +1060,217 @@ export class ApiClient {
    * ```
    *
    */
-  async createMessage(data: Readonly<CreateMessageRequest>): Promise<Message> {
-    return this.request<Message>({
+  async createMessage(
+    conversationId: string,
+    data: Readonly<CreateMessageRequest>,
+    options?: Readonly<CreateMessageOptions>
+  ): Promise<Message> {
+    const idempotencyKey = options?.idempotencyKey;
+    const path = getMessagesPath(conversationId);
+
+    const payload = await this.request({
+      ...options,
       method: HttpMethod.POST,
-      path: '/messages',
+      path,
       body: data,
+      headers: idempotencyKey
+        ? { 'Idempotency-Key': idempotencyKey }
+        : undefined,
+      idempotent: idempotencyKey !== undefined,
+    });
+
+    return this.validateResource(
+      payload,
+      messageSchema,
+      options?.validation ?? this.validation.createMessage,
+      this.buildUrl(path)
+    );
+  }
+
+  /**
+   * Edit the text of a message.
+   *
+   * Setting the same text twice has the same effect, so the PATCH is
+   * retried on transient failures like a GET.
+   *
+   * @param conversationId - Room of the message
+   * @param messageId - Server id of the message
+   * @param data - New message text
+   * @param options - Optional AbortSignal, timeout and retry overrides
+   * @returns Promise that resolves to the updated message (with `updatedAt`)
+   * @throws ApiError if request fails (validation, not found, conflict for a
+   *   deleted message, network, timeout, abort, server errors) or the
+   *   response isn't a valid message (kind 'parse')
+   *
+   * @example
+   * ```TypeScript
+   * const edited = await apiClient.updateMessage('general', messageId, {
+   *   message: 'Fixed the typo',
+   * });
+   * // PATCH /api/v1/messages/:messageId
+   * // Body: { "message": "Fixed the typo" }
+   * ```
+   */
+  async updateMessage(
+    conversationId: string,
+    messageId: string,
+    data: Readonly<UpdateMessageRequest>,
+    options?: Readonly<ApiRequestOptions>
+  ): Promise<Message> {
+    const path = getMessagePath(conversationId, messageId);
+
+    const payload = await this.request({
+      ...options,
+      method: HttpMethod.PATCH,
+      path,
+      body: data,
+      idempotent: true,
+    });
+
+    return this.validateResource(
+      payload,
+      messageSchema,
+      options?.validation ?? this.validation.updateMessage,
+      this.buildUrl(path)
+    );
+  }
+
+  /**
+   * Delete a message.
+   *
+   * The server keeps a tombstone (empty `message`, `deletedAt` set) so the
+   * conversation shows where the message was. Deleting a deleted message
+   * returns the same tombstone, so the DELETE is retried like a GET.
+   *
+   * @param conversationId - Room of the message
+   * @param messageId - Server id of the message
+   * @param options - Optional AbortSignal, timeout and retry overrides
+   * @returns Promise that resolves to the tombstone
+   * @throws ApiError if request fails (not found, network, timeout, abort,
+   *   server errors) or the response isn't a valid message (kind 'parse')
+   *
+   * @example
+   * ```TypeScript
+   * const tombstone = await apiClient.deleteMessage('design', messageId);
+   * // DELETE /api/v1/conversations/design/messages/:messageId
+   * ```
+   */
+  async deleteMessage(
+    conversationId: string,
+    messageId: string,
+    options?: Readonly<ApiRequestOptions>
+  ): Promise<Message> {
+    const path = getMessagePath(conversationId, messageId);
+
+    const payload = await this.request({
+      ...options,
+      method: HttpMethod.DELETE,
+      path,
+      idempotent: true,
     });
+
+    return this.validateResource(
+      payload,
+      messageSchema,
+      options?.validation ?? this.validation.deleteMessage,
+      this.buildUrl(path)
+    );
+  }
+
+  /**
+   * Add the author's reaction to a message.
+   *
+   * Reacting twice with the same emoji counts once, so the PUT is retried
+   * on transient failures like a GET.
+   *
+   * @param conversationId - Room of the message
+   * @param messageId - Server id of the message
+   * @param data - Emoji and the reacting author
+   * @param options - Optional AbortSignal, timeout and retry overrides
+   * @returns Promise that resolves to the message with its updated reactions
+   * @throws ApiError if request fails (validation, not found, conflict for a
+   *   deleted message, network, timeout, abort, server errors) or the
+   *   response isn't a valid message (kind 'parse')
+   *
+   * @example
+   * ```TypeScript
+   * const reacted = await apiClient.addReaction('general', messageId, {
+   *   emoji: '👍',
+   *   author: 'Alice',
+   * });
+   * // PUT /api/v1/messages/:messageId/reactions/%F0%9F%91%8D
+   * // Body: { "author": "Alice" }
+   * ```
+   */
+  async addReaction(
+    conversationId: string,
+    messageId: string,
+    data: Readonly<ReactionRequest>,
+    options?: Readonly<ApiRequestOptions>
+  ): Promise<Message> {
+    const path = getReactionPath(conversationId, messageId, data.emoji);
+
+    const payload = await this.request({
+      ...options,
+      method: HttpMethod.PUT,
+      path,
+      body: { author: data.author },
+      idempotent: true,
+    });
+
+    return this.validateResource(
+      payload,
+      messageSchema,
+      options?.validation ?? this.validation.addReaction,
+      this.buildUrl(path)
+    );
+  }
+
+  /**
+   * Remove the author's reaction from a message.
+   *
+   * Removing a reaction that isn't there succeeds, so the DELETE is retried
+   * like a GET.
+   *
+   * @param conversationId - Room of the message
+   * @param messageId - Server id of the message
+   * @param data - Emoji and the author whose reaction is removed
+   * @param options - Optional AbortSignal, timeout and retry overrides
+   * @returns Promise that resolves to the message with its updated reactions
+   * @throws ApiError if request fails (not found, network, timeout, abort,
+   *   server errors) or the response isn't a valid message (kind 'parse')
+   *
+   * @example
+   * ```TypeScript
+   * await apiClient.removeReaction('general', messageId, {
+   *   emoji: '👍',
+   *   author: 'Alice',
+   * });
+   * // DELETE /api/v1/messages/:messageId/reactions/%F0%9F%91%8D?author=Alice
+   * ```
+   */
+  async removeReaction(
+    conversationId: string,
+    messageId: string,
+    data: Readonly<ReactionRequest>,
+    options?: Readonly<ApiRequestOptions>
+  ): Promise<Message> {
+    const path = getReactionPath(conversationId, messageId, data.emoji);
+
+    const payload = await this.request({
+      ...options,
+      method: HttpMethod.DELETE,
+      path,
+      queryParams: { author: data.author },
+      idempotent: true,
+    });
+
+    return this.validateResource(
+      payload,
+      messageSchema,
+      options?.validation ?? this.validation.removeReaction,
+      this.buildUrl(path)
+    );
   }
 }
 
@@ -457,7 +1278,37 @@ export class ApiClient {
  * Singleton instance of the API client.
  * Can still create new instances for testing if needed
  *
+ * Requests carry the session's current token and an X-Correlation-ID
+ * header; a 401 goes through the session interceptor (refresh and retry
+ * once, or expire the session).
+ * In development, messages dropped by lenient validation are logged so
+ * backend contract changes are noticed early. With VITE_API_LOG_TIMINGS=true,
+ * the timing of every request attempt is logged.
+ * With VITE_USE_FAKE_API=true, requests are served by the in-process fake
+ * backend instead of the network.
  */
-export const apiClient = new ApiClient();
+export const apiClient = new ApiClient(undefined, session.getToken, {
+  onValidationIssues: import.meta.env.DEV
+    ? report => {
+        console.warn(
+          `[api] Dropped ${report.droppedCount} invalid item(s) from ${report.endpoint}: ${formatIssues(report.issues)}`
+        );
+      }
+    : undefined,
+  transport: apiConfig.useFakeApi ? getFakeChatBackend().fetch : undefined,
+  interceptors: [
+    createCorrelationIdInterceptor(),
+    createSessionInterceptor(session),
+    ...(apiConfig.logTimings
+      ? [
+          createTimingInterceptor(timing => {
+            console.debug(
+              `[api] ${timing.method} ${timing.url} → ${timing.status} (${timing.durationMs}ms, attempt ${timing.attempt})`
+            );
+          }),
+        ]
+      : []),
+  ],
+});
 
 export default apiClient;
@@ -1,4 +1,75 @@
 import type { ApiErrorResponse } from '@models/api';
+import { apiErrorResponseSchema } from './schemas';
+
+/**
+ * Categories of API errors. `kind` is the discriminant callers branch on;
+ * `statusCode` is only meaningful when a response was received.
+ *
+ * No response (statusCode 0):
+ * - NETWORK: Request never got a response (offline, DNS, CORS, connection refused)
+ * - TIMEOUT: No response within the configured timeout (also HTTP 408)
+ * - ABORTED: Cancelled by the caller through an AbortSignal
+ * - PARSE: The response body isn't valid JSON or doesn't match the expected schema
+ * - UNKNOWN: Anything else (e.g. a bug in an interceptor or hook)
+ *
+ * Response received:
+ * - VALIDATION: The server rejected the request payload (400, 422)
+ * - AUTH: Missing, invalid or insufficient credentials (401, 403)
+ * - RATE_LIMITED: Too many requests (429), usually with Retry-After
+ * - SERVER: The server failed (5xx)
+ * - HTTP: Any other error status (e.g. 404, 409)
+ */
+export const ApiErrorKind = {
+  NETWORK: 'network',
+  TIMEOUT: 'timeout',
+  ABORTED: 'aborted',
+  PARSE: 'parse',
+  UNKNOWN: 'unknown',
+  VALIDATION: 'validation',
+  AUTH: 'auth',
+  RATE_LIMITED: 'rate-limited',
+  SERVER: 'server',
+  HTTP: 'http',
+} as const;
+
+/**
+ * Type for API error kind values.
+ */
+export type ApiErrorKind = (typeof ApiErrorKind)[keyof typeof ApiErrorKind];
+
+/**
+ * Maps an HTTP status to its error kind.
+ *
+ * @param statusCode - HTTP status (0 when no response was received)
+ * @returns The matching kind (UNKNOWN for 0; callers that know better pass the kind explicitly)
+ */
+export function getErrorKindForStatus(statusCode: number): ApiErrorKind {
+  if (statusCode === 0) {
+    return ApiErrorKind.UNKNOWN;
+  }
+
+  if (statusCode === 400 || statusCode === 422) {
+    return ApiErrorKind.VALIDATION;
+  }
+
+  if (statusCode === 401 || statusCode === 403) {
+    return ApiErrorKind.AUTH;
+  }
+
+  if (statusCode === 408) {
+    return ApiErrorKind.TIMEOUT;
+  }
+
+  if (statusCode === 429) {
+    return ApiErrorKind.RATE_LIMITED;
+  }
+
+  if (statusCode >= 500) {
+    return ApiErrorKind.SERVER;
+  }
+
+  return ApiErrorKind.HTTP;
+}
 
 /**
  * Custom error class for API-related errors
@@ -10,6 +81,13 @@ import type { ApiErrorResponse } from '@models/api';
 export class ApiError extends Error {
   readonly statusCode: number;
 
+  /**
+   * Error category (discriminant)
+   * - Errors without a response all have statusCode 0, so branch on the
+   *   kind rather than the status
+   */
+  readonly kind: ApiErrorKind;
+
   /**
    * Original error response from the API
    * - Some errors (network errors, timeouts) don't have API responses
@@ -25,17 +103,26 @@ export class ApiError extends Error {
    */
   readonly endpoint?: string;
 
+  /**
+   * Delay requested by the server through the Retry-After header (429, 503)
+   */
+  readonly retryAfterMs?: number;
+
   constructor(
     message: string,
     statusCode: number = 500,
     response?: Readonly<ApiErrorResponse>,
-    endpoint?: string
+    endpoint?: string,
+    kind: ApiErrorKind = getErrorKindForStatus(statusCode),
+    retryAfterMs?: number
   ) {
     super(message);
     this.name = 'ApiError';
     this.statusCode = statusCode;
     this.response = response;
     this.endpoint = endpoint;
+    this.kind = kind;
+    this.retryAfterMs = retryAfterMs;
 
     /**
      * Maintains proper stack trace for where our error was thrown (only available on V8).
@@ -64,8 +151,31 @@ export class ApiError extends Error {
     return this.statusCode === 404;
   }
 
+  isTimeout(): boolean {
+    return this.kind === ApiErrorKind.TIMEOUT;
+  }
+
+  isAborted(): boolean {
+    return this.kind === ApiErrorKind.ABORTED;
+  }
+
+  isParseError(): boolean {
+    return this.kind === ApiErrorKind.PARSE;
+  }
+
   /**
-   * Get validation errors if this is a validation error (400)
+   * Whether the request never got a response because of the connection
+   * (offline, unreachable server, client-side timeout).
+   */
+  isConnectivityError(): boolean {
+    return (
+      this.statusCode === 0 &&
+      (this.kind === ApiErrorKind.NETWORK || this.kind === ApiErrorKind.TIMEOUT)
+    );
+  }
+
+  /**
+   * Get validation errors if this is a validation error (400, 422)
    *
    * Validation errors contain field-level details:
    * - Which fields failed validation
@@ -76,7 +186,7 @@ export class ApiError extends Error {
   getValidationErrors():
     | ReadonlyArray<{ readonly field: string; readonly message: string }>
     | undefined {
-    if (this.statusCode !== 400 || !this.response) {
+    if (this.kind !== ApiErrorKind.VALIDATION || !this.response) {
       return undefined;
     }
 
@@ -104,6 +214,7 @@ export class ApiError extends Error {
     readonly name: string;
     readonly message: string;
     readonly statusCode: number;
+    readonly kind: ApiErrorKind;
     readonly endpoint?: string;
     readonly response?: Readonly<ApiErrorResponse>;
   } {
@@ -111,6 +222,7 @@ export class ApiError extends Error {
       name: this.name,
       message: this.message,
       statusCode: this.statusCode,
+      kind: this.kind,
       endpoint: this.endpoint,
       response: this.response,
     };
@@ -123,6 +235,7 @@ export class ApiError extends Error {
     const parts = [
       `${this.name}: ${this.message}`,
       `Status: ${this.statusCode}`,
+      `Kind: ${this.kind}`,
     ];
 
     if (this.endpoint) {
@@ -142,12 +255,83 @@ export function isApiError(error: unknown): error is ApiError {
   return error instanceof ApiError;
 }
 
+/**
+ * Wraps any thrown value in an ApiError.
+ *
+ * ApiErrors pass through unchanged; anything else becomes kind UNKNOWN, so
+ * unexpected failures are never mistaken for connectivity problems.
+ *
+ * @param error - Caught value
+ * @param fallbackMessage - Message used when the value isn't an Error
+ * @returns An ApiError
+ *
+ * @example
+ * ```TypeScript
+ * try {
+ *   await apiClient.getMessages();
+ * } catch (error) {
+ *   setLoadError(toApiError(error, 'Failed to load messages'));
+ * }
+ * ```
+ */
+export function toApiError(error: unknown, fallbackMessage: string): ApiError {
+  if (isApiError(error)) {
+    return error;
+  }
+
+  return new ApiError(
+    error instanceof Error ? error.message : fallbackMessage,
+    0,
+    undefined,
+    undefined,
+    ApiErrorKind.UNKNOWN
+  );
+}
+
+/**
+ * Parses a Retry-After header value.
+ *
+ * The header is either a number of seconds or an HTTP date.
+ *
+ * @param value - Raw header value (null when absent)
+ * @param now - Current time in milliseconds (for HTTP dates)
+ * @returns Delay in milliseconds, or undefined if absent/invalid
+ *
+ * @example
+ * ```TypeScript
+ * parseRetryAfter('120') // Returns: 120000
+ * parseRetryAfter('Wed, 21 Oct 2015 07:28:00 GMT') // Returns: ms until that date
+ * ```
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now: number = Date.now()
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const dateMs = Date.parse(trimmed);
+  if (Number.isNaN(dateMs)) {
+    return undefined;
+  }
+
+  return Math.max(0, dateMs - now);
+}
+
 /**
  * Helper function to create an ApiError from a fetch Response
  *
  * This is a factory function that:
  * - Extracts error details from a fetch Response object
- * - Parses JSON error response
+ * - Parses and validates the JSON error response
+ * - Reads the Retry-After header (if present)
  * - Creates a properly formatted ApiError
  *
  * @param response - Fetch Response object
@@ -163,11 +347,18 @@ export async function createApiErrorFromResponse(
   try {
     /**
      * Try to parse JSON error response.
-     * API might return structured error data.
+     * API might return structured error data; a body that doesn't match the
+     * error envelope is ignored in favor of the status text.
      */
     const contentType = response.headers.get('content-type');
     if (contentType?.includes('application/json')) {
-      errorData = (await response.json()) as ApiErrorResponse;
+      const result = apiErrorResponseSchema(await response.json());
+      errorData = result.ok
+        ? result.value
+        : {
+            message: response.statusText || 'Unknown error',
+            statusCode: response.status,
+          };
     }
   } catch {
     /**
@@ -201,5 +392,12 @@ export async function createApiErrorFromResponse(
       ? errorData.message
       : (response.statusText ?? 'Unknown error');
 
-  return new ApiError(message, response.status, errorData, endpoint);
+  return new ApiError(
+    message,
+    response.status,
+    errorData,
+    endpoint,
+    getErrorKindForStatus(response.status),
+    parseRetryAfter(response.headers.get('Retry-After'))
+  );
 }
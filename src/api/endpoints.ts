@@ -0,0 +1,69 @@
+/**
+ * API Endpoints
+ *
+ * Paths of the REST API, relative to the base URL. Shared by the API client
+ * and the fake backend so both agree on the routes.
+ *
+ */
+
+/**
+ * Id of the default room.
+ *
+ * Its messages live at the original `/messages` path, so servers without
+ * conversation support still work as a single-room chat.
+ */
+export const DEFAULT_CONVERSATION_ID = 'general';
+
+/**
+ * Display name of the default room when the server has no conversation list.
+ */
+export const DEFAULT_CONVERSATION_NAME = 'Doodle Team';
+
+/**
+ * GET /conversations
+ */
+export const CONVERSATIONS_PATH = '/conversations';
+
+/**
+ * Path of a room's messages (GET to list, POST to create).
+ *
+ * @param conversationId - Room id
+ * @returns `/messages` for the default room, otherwise
+ * `/conversations/:conversationId/messages`
+ */
+export function getMessagesPath(conversationId: string): string {
+  return conversationId === DEFAULT_CONVERSATION_ID
+    ? '/messages'
+    : `${CONVERSATIONS_PATH}/${encodeURIComponent(conversationId)}/messages`;
+}
+
+/**
+ * Path of a single message (PATCH to edit, DELETE to delete).
+ *
+ * @param conversationId - Room id
+ * @param messageId - Message id
+ * @returns The room's messages path followed by `/:messageId`
+ */
+export function getMessagePath(
+  conversationId: string,
+  messageId: string
+): string {
+  return `${getMessagesPath(conversationId)}/${encodeURIComponent(messageId)}`;
+}
+
+/**
+ * Path of one emoji's reactions on a message (PUT to add the author's
+ * reaction, DELETE to remove it).
+ *
+ * @param conversationId - Room id
+ * @param messageId - Message id
+ * @param emoji - The reaction emoji (percent-encoded in the path)
+ * @returns The message path followed by `/reactions/:emoji`
+ */
+export function getReactionPath(
+  conversationId: string,
+  messageId: string,
+  emoji: string
+): string {
+  return `${getMessagePath(conversationId, messageId)}/reactions/${encodeURIComponent(emoji)}`;
+}
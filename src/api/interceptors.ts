@@ -0,0 +1,243 @@
+/**
+ * Interceptors Module
+ *
+ * Extension points of the API client. An interceptor can rewrite the
+ * outgoing request, rewrite the response, or recover from an error, without
+ * subclassing ApiClient.
+ *
+ * Execution order (onion model):
+ * - onRequest: in registration order (lowest `order` first)
+ * - onResponse / onError: in reverse order, so the first interceptor sees
+ *   the request first and the response last
+ *
+ * Interceptors run once per attempt: a retried request goes through the
+ * whole chain again, with the same `requestId`.
+ *
+ */
+
+import type { ApiError } from './api-error';
+
+/**
+ * Outgoing request as seen by interceptors.
+ *
+ * - `headers`: Plain object; interceptors return a copy with their changes
+ * - `body`: Serialized JSON body, if any
+ * - `requestId`: Random id of the logical request, the same for all of
+ *   its attempts
+ * - `attempt`: 1 for the first attempt, incremented on every retry
+ * - `context`: Scratch space shared by the interceptors of one attempt
+ */
+export interface ApiRequest {
+  readonly url: string;
+  readonly method: string;
+  readonly headers: Readonly<Record<string, string>>;
+  readonly body?: string;
+  readonly requestId: string;
+  readonly attempt: number;
+  readonly context: Map<string, unknown>;
+}
+
+/**
+ * Sends a request directly through the transport, bypassing interceptors.
+ * Given to onError so an interceptor can re-issue a modified request.
+ */
+export type SendRequest = (request: ApiRequest) => Promise<Response>;
+
+/**
+ * Request/response middleware.
+ *
+ * - onRequest: Returns the request to send (possibly modified)
+ * - onResponse: Returns the response to use (possibly modified); runs for
+ *   error statuses too, before they become an ApiError
+ * - onError: Returns a Response to recover, or undefined to pass the error
+ *   to the next interceptor. Runs for transport errors and HTTP error
+ *   statuses; never for aborted requests.
+ */
+export interface ApiInterceptor {
+  readonly name?: string;
+  onRequest?(request: ApiRequest): ApiRequest | Promise<ApiRequest>;
+  onResponse?(
+    response: Response,
+    request: ApiRequest
+  ): Response | Promise<Response>;
+  onError?(
+    error: ApiError,
+    request: ApiRequest,
+    send: SendRequest
+  ): Response | undefined | Promise<Response | undefined>;
+}
+
+/**
+ * Registration options.
+ *
+ * - `order`: Position in the chain (default 0). Lower runs earlier on the
+ *   way out; registrations with equal order keep registration order.
+ */
+export interface InterceptorOptions {
+  readonly order?: number;
+}
+
+/**
+ * Registered interceptor with its position in the chain.
+ */
+export interface InterceptorRegistration {
+  readonly interceptor: ApiInterceptor;
+  readonly order: number;
+  readonly sequence: number;
+}
+
+/**
+ * Sorts registrations by order, then by registration sequence.
+ */
+export function sortRegistrations(
+  registrations: ReadonlyArray<InterceptorRegistration>
+): ReadonlyArray<InterceptorRegistration> {
+  return [...registrations].sort(
+    (first, second) =>
+      first.order - second.order || first.sequence - second.sequence
+  );
+}
+
+/**
+ * Generates a random request id, with a fallback for insecure contexts.
+ */
+export function createRequestId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Adds a correlation id header to every request so client and server logs
+ * of the same request can be matched. The id is the request's `requestId`,
+ * so all attempts of a request share it; a header set by the caller wins.
+ *
+ * Note: The backend must allow the header in its CORS configuration.
+ *
+ * @param headerName - Header to set (default 'X-Correlation-ID')
+ * @returns Interceptor
+ */
+export function createCorrelationIdInterceptor(
+  headerName: string = 'X-Correlation-ID'
+): ApiInterceptor {
+  return {
+    name: 'correlation-id',
+    onRequest: request =>
+      request.headers[headerName]
+        ? request
+        : {
+            ...request,
+            headers: { ...request.headers, [headerName]: request.requestId },
+          },
+  };
+}
+
+/**
+ * Timing of a completed attempt.
+ *
+ * - `status`: HTTP status, or 0 when no response was received
+ */
+export interface RequestTiming {
+  readonly method: string;
+  readonly url: string;
+  readonly status: number;
+  readonly attempt: number;
+  readonly durationMs: number;
+}
+
+const TIMING_START_KEY = 'timing:start';
+
+/**
+ * Measures how long each attempt takes, from sending the request to
+ * receiving the response (or the error).
+ *
+ * @param report - Receives the timing of every attempt
+ * @returns Interceptor
+ */
+export function createTimingInterceptor(
+  report: (timing: RequestTiming) => void
+): ApiInterceptor {
+  const finish = (request: ApiRequest, status: number) => {
+    const start = request.context.get(TIMING_START_KEY);
+    if (typeof start !== 'number') {
+      return;
+    }
+
+    report({
+      method: request.method,
+      url: request.url,
+      status,
+      attempt: request.attempt,
+      durationMs: Math.round(performance.now() - start),
+    });
+  };
+
+  return {
+    name: 'timing',
+    onRequest: request => {
+      request.context.set(TIMING_START_KEY, performance.now());
+      return request;
+    },
+    onResponse: (response, request) => {
+      finish(request, response.status);
+      return response;
+    },
+    onError: (error, request) => {
+      if (error.statusCode === 0) {
+        finish(request, 0);
+      }
+      return undefined;
+    },
+  };
+}
+
+/**
+ * Session operations used by the session interceptor (see SessionManager).
+ */
+export interface SessionAuth {
+  refresh(rejectedToken: string): Promise<string | null>;
+  expire(): void;
+}
+
+/**
+ * Reads the bearer token a request was sent with.
+ */
+function getBearerToken(request: ApiRequest): string {
+  return (request.headers.Authorization ?? '').replace(/^Bearer\s+/i, '');
+}
+
+/**
+ * Recovers from 401 responses: asks the session for a new token and
+ * re-issues the request once with it. If the session can't be renewed, or
+ * the retry is rejected too, the 401 is passed on (and the session has
+ * expired).
+ *
+ * @param session - Session to refresh and expire
+ * @returns Interceptor
+ */
+export function createSessionInterceptor(session: SessionAuth): ApiInterceptor {
+  return {
+    name: 'session',
+    onError: async (error, request, send) => {
+      if (!error.isUnauthorized()) {
+        return undefined;
+      }
+
+      const token = await session.refresh(getBearerToken(request));
+      if (!token) {
+        return undefined;
+      }
+
+      const response = await send({
+        ...request,
+        headers: { ...request.headers, Authorization: `Bearer ${token}` },
+      });
+
+      if (response.status === 401) {
+        session.expire();
+      }
+
+      return response;
+    },
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * Retry Policy Module
+ *
+ * Decides whether a failed request is retried and how long to wait first.
+ * Used by the API client; kept separate so the policy can be reasoned about
+ * (and configured) without reading the transport code.
+ *
+ */
+
+import { ApiError, ApiErrorKind } from './api-error';
+
+/**
+ * Retry configuration.
+ */
+export interface RetryPolicy {
+  /**
+   * Total number of attempts, including the first one (1 disables retries)
+   */
+  readonly maxAttempts: number;
+
+  /**
+   * Delay before the first retry; doubles on every further retry
+   */
+  readonly baseDelayMs: number;
+
+  /**
+   * Upper bound for a single delay. A Retry-After longer than this is not
+   * waited for: the error is surfaced instead.
+   */
+  readonly maxDelayMs: number;
+
+  /**
+   * Randomizes delays (between half and the full backoff) so clients that
+   * failed together don't retry together
+   */
+  readonly jitter: boolean;
+
+  /**
+   * HTTP statuses considered transient
+   */
+  readonly retryableStatuses: ReadonlyArray<number>;
+}
+
+/**
+ * Information passed to `onRetry` before waiting for the next attempt.
+ */
+export interface RetryAttempt {
+  /** Number of the upcoming attempt (2 for the first retry) */
+  readonly attempt: number;
+  readonly maxAttempts: number;
+  readonly delayMs: number;
+  readonly error: ApiError;
+}
+
+/**
+ * Default policy: 4 attempts, 500ms → 1s → 2s (with jitter), max 10s.
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  jitter: true,
+  retryableStatuses: [408, 429, 502, 503, 504],
+};
+
+/**
+ * Whether an error is worth retrying under the given policy.
+ *
+ * - Network errors and client-side timeouts: yes
+ * - Errors with a response (timeout 408, rate-limited, server, other HTTP):
+ *   only statuses listed in retryableStatuses
+ * - Aborted, parse, validation, auth and unknown errors: no
+ */
+export function isRetryableError(
+  error: ApiError,
+  policy: Readonly<RetryPolicy>
+): boolean {
+  switch (error.kind) {
+    case ApiErrorKind.NETWORK:
+      return true;
+    case ApiErrorKind.TIMEOUT:
+      return (
+        error.statusCode === 0 ||
+        policy.retryableStatuses.includes(error.statusCode)
+      );
+    case ApiErrorKind.RATE_LIMITED:
+    case ApiErrorKind.SERVER:
+    case ApiErrorKind.HTTP:
+      return policy.retryableStatuses.includes(error.statusCode);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Computes the delay before retrying after the given attempt.
+ *
+ * @param attempt - Number of the attempt that just failed (1-based)
+ * @param policy - Retry policy
+ * @param retryAfterMs - Server-provided delay (Retry-After), if any
+ * @returns Delay in milliseconds, or undefined if the server asks to wait
+ * longer than policy.maxDelayMs
+ */
+export function getRetryDelay(
+  attempt: number,
+  policy: Readonly<RetryPolicy>,
+  retryAfterMs?: number
+): number | undefined {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs <= policy.maxDelayMs ? retryAfterMs : undefined;
+  }
+
+  const backoff = Math.min(
+    policy.baseDelayMs * 2 ** (attempt - 1),
+    policy.maxDelayMs
+  );
+
+  if (!policy.jitter) {
+    return backoff;
+  }
+
+  return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+}
+
+/**
+ * Waits for a delay, rejecting early with an 'aborted' ApiError if the
+ * signal fires.
+ *
+ * @param delayMs - Delay in milliseconds
+ * @param signal - Optional AbortSignal
+ * @param endpoint - Endpoint for the abort error
+ */
+export function waitForRetry(
+  delayMs: number,
+  signal?: AbortSignal,
+  endpoint?: string
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abortError = () =>
+      new ApiError(
+        'Request was aborted',
+        0,
+        undefined,
+        endpoint,
+        ApiErrorKind.ABORTED
+      );
+
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const handleAbort = () => {
+      clearTimeout(timeoutId);
+      reject(abortError());
+    };
+
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve();
+    }, delayMs);
+
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+}
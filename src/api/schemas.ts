@@ -0,0 +1,100 @@
+/**
+ * API Schemas
+ *
+ * Runtime validators for the payloads exchanged with the API.
+ * Each schema is typed against the model it validates (see Shape<T>), so the
+ * validators and the TypeScript types can't drift apart silently.
+ *
+ */
+
+import type { ApiErrorResponse } from '@models/api';
+import type { Conversation } from '@models/conversation';
+import type { Message, MessageReaction } from '@models/message';
+import {
+  array,
+  isoDateString,
+  nonEmptyString,
+  number,
+  object,
+  optional,
+  string,
+  union,
+  type Validator,
+} from './validation';
+
+/**
+ * Longest message text the API accepts. Checked client-side (composer and
+ * edits) to give feedback before sending.
+ */
+export const MAX_MESSAGE_LENGTH = 500;
+
+/**
+ * One emoji and its authors on a message.
+ */
+export const reactionSchema: Validator<MessageReaction> =
+  object<MessageReaction>({
+    emoji: nonEmptyString,
+    authors: array(string),
+  });
+
+/**
+ * A message as returned by GET/POST /messages, PATCH/DELETE
+ * /messages/:id and the reaction endpoints.
+ * `createdAt` must be a parseable timestamp: it is used for sorting.
+ */
+export const messageSchema: Validator<Message> = object<Message>({
+  _id: nonEmptyString,
+  message: string,
+  author: string,
+  createdAt: isoDateString,
+  updatedAt: optional(isoDateString),
+  deletedAt: optional(isoDateString),
+  changedAt: optional(isoDateString),
+  replyTo: optional(nonEmptyString),
+  reactions: optional(array(reactionSchema)),
+});
+
+/**
+ * The GET /messages response.
+ */
+export const messagesSchema: Validator<ReadonlyArray<Message>> =
+  array(messageSchema);
+
+/**
+ * A conversation as returned by GET /conversations.
+ */
+export const conversationSchema: Validator<Conversation> = object<Conversation>(
+  {
+    _id: nonEmptyString,
+    name: string,
+    lastMessage: optional(messageSchema),
+    messageCount: number,
+  }
+);
+
+/**
+ * The GET /conversations response.
+ */
+export const conversationsSchema: Validator<ReadonlyArray<Conversation>> =
+  array(conversationSchema);
+
+/**
+ * A field-level validation error inside an error response.
+ */
+const fieldErrorSchema = object<{
+  readonly field: string;
+  readonly message: string;
+}>({
+  field: string,
+  message: string,
+});
+
+/**
+ * The error envelope returned for 4xx/5xx responses.
+ */
+export const apiErrorResponseSchema: Validator<ApiErrorResponse> =
+  object<ApiErrorResponse>({
+    message: union(string, array(fieldErrorSchema)),
+    statusCode: number,
+    error: optional(string),
+  });
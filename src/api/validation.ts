@@ -0,0 +1,246 @@
+/**
+ * Validation Module
+ *
+ * Small runtime validators for API payloads. A validator checks an unknown
+ * value and returns either the typed value or the list of problems found.
+ *
+ * `object()` takes one validator per property of the target type, so a schema
+ * stops compiling when a property is added to (or removed from) the type it
+ * validates.
+ *
+ */
+
+/**
+ * A single problem found while validating a value.
+ *
+ * - `path`: Location of the invalid value (e.g. '[3].createdAt')
+ * - `message`: What was expected
+ */
+export interface ValidationIssue {
+  readonly path: string;
+  readonly message: string;
+}
+
+/**
+ * Outcome of a validation: the typed value, or the issues found.
+ */
+export type ValidationResult<T> =
+  | { readonly ok: true; readonly value: T }
+  | { readonly ok: false; readonly issues: ReadonlyArray<ValidationIssue> };
+
+/**
+ * Validator function.
+ *
+ * @param value - Value to check
+ * @param path - Location of the value, used in issue paths
+ */
+export type Validator<T> = (
+  value: unknown,
+  path?: string
+) => ValidationResult<T>;
+
+/**
+ * How an endpoint handles invalid payloads.
+ *
+ * - 'strict': Any invalid item rejects the whole response with a parse ApiError
+ * - 'lenient': Invalid items in collections are dropped and reported
+ */
+export type ValidationMode = 'strict' | 'lenient';
+
+/**
+ * Invalid items dropped by a lenient validation.
+ */
+export interface ValidationReport {
+  readonly endpoint: string;
+  readonly droppedCount: number;
+  readonly issues: ReadonlyArray<ValidationIssue>;
+}
+
+function valid<T>(value: T): ValidationResult<T> {
+  return { ok: true, value };
+}
+
+function invalid<T>(path: string, message: string): ValidationResult<T> {
+  return { ok: false, issues: [{ path: path || '(root)', message }] };
+}
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+/**
+ * Accepts any string.
+ */
+export const string: Validator<string> = (value, path = '') =>
+  typeof value === 'string'
+    ? valid(value)
+    : invalid(path, `Expected string, received ${describe(value)}`);
+
+/**
+ * Accepts non-empty strings (ids).
+ */
+export const nonEmptyString: Validator<string> = (value, path = '') =>
+  typeof value === 'string' && value.length > 0
+    ? valid(value)
+    : invalid(path, `Expected non-empty string, received ${describe(value)}`);
+
+/**
+ * Accepts finite numbers.
+ */
+export const number: Validator<number> = (value, path = '') =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? valid(value)
+    : invalid(path, `Expected number, received ${describe(value)}`);
+
+/**
+ * Accepts strings that parse to a valid date (ISO 8601 timestamps).
+ */
+export const isoDateString: Validator<string> = (value, path = '') =>
+  typeof value === 'string' && !Number.isNaN(Date.parse(value))
+    ? valid(value)
+    : invalid(path, `Expected ISO 8601 timestamp, received ${describe(value)}`);
+
+/**
+ * Accepts undefined (missing property) or a valid value.
+ */
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path = '') =>
+    value === undefined ? valid(undefined) : validator(value, path);
+}
+
+/**
+ * Accepts a value matching either validator.
+ * Reports the issues of both when neither matches.
+ */
+export function union<A, B>(
+  first: Validator<A>,
+  second: Validator<B>
+): Validator<A | B> {
+  return (value, path = '') => {
+    const firstResult = first(value, path);
+    if (firstResult.ok) {
+      return firstResult;
+    }
+
+    const secondResult = second(value, path);
+    if (secondResult.ok) {
+      return secondResult;
+    }
+
+    return {
+      ok: false,
+      issues: [...firstResult.issues, ...secondResult.issues],
+    };
+  };
+}
+
+/**
+ * Accepts arrays whose items all pass the item validator.
+ */
+export function array<T>(item: Validator<T>): Validator<ReadonlyArray<T>> {
+  return (value, path = '') => {
+    if (!Array.isArray(value)) {
+      return invalid(path, `Expected array, received ${describe(value)}`);
+    }
+
+    const items: T[] = [];
+    const issues: ValidationIssue[] = [];
+
+    value.forEach((entry: unknown, index) => {
+      const result = item(entry, `${path}[${index}]`);
+      if (result.ok) {
+        items.push(result.value);
+      } else {
+        issues.push(...result.issues);
+      }
+    });
+
+    return issues.length === 0 ? valid(items) : { ok: false, issues };
+  };
+}
+
+/**
+ * Validator for every property of T, optional properties included.
+ */
+export type Shape<T> = { readonly [K in keyof T]-?: Validator<T[K]> };
+
+/**
+ * Accepts objects whose properties pass their validators.
+ * The result only contains the properties declared in the shape;
+ * missing optional properties are left out.
+ */
+export function object<T extends object>(shape: Shape<T>): Validator<T> {
+  return (value, path = '') => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return invalid(path, `Expected object, received ${describe(value)}`);
+    }
+
+    const record = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    const issues: ValidationIssue[] = [];
+
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      const propertyResult = shape[key](
+        record[key],
+        path ? `${path}.${key}` : key
+      );
+
+      if (!propertyResult.ok) {
+        issues.push(...propertyResult.issues);
+      } else if (propertyResult.value !== undefined) {
+        result[key] = propertyResult.value;
+      }
+    }
+
+    return issues.length === 0 ? valid(result as T) : { ok: false, issues };
+  };
+}
+
+/**
+ * Validates a collection item by item, keeping the valid ones.
+ * Used by lenient mode: a single bad item doesn't discard the whole response.
+ *
+ * @param value - Value expected to be an array
+ * @param item - Validator for each item
+ * @returns Valid items, the number of dropped items and their issues,
+ * or a failed result if the value isn't an array at all
+ */
+export function partitionArray<T>(
+  value: unknown,
+  item: Validator<T>
+): ValidationResult<{
+  readonly items: ReadonlyArray<T>;
+  readonly droppedCount: number;
+  readonly issues: ReadonlyArray<ValidationIssue>;
+}> {
+  if (!Array.isArray(value)) {
+    return invalid('', `Expected array, received ${describe(value)}`);
+  }
+
+  const items: T[] = [];
+  const issues: ValidationIssue[] = [];
+  let droppedCount = 0;
+
+  value.forEach((entry: unknown, index) => {
+    const result = item(entry, `[${index}]`);
+    if (result.ok) {
+      items.push(result.value);
+    } else {
+      droppedCount += 1;
+      issues.push(...result.issues);
+    }
+  });
+
+  return valid({ items, droppedCount, issues });
+}
+
+/**
+ * Formats issues into a single readable line.
+ */
+export function formatIssues(issues: ReadonlyArray<ValidationIssue>): string {
+  return issues.map(issue => `${issue.path}: ${issue.message}`).join('; ');
+}
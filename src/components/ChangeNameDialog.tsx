@@ -0,0 +1,60 @@
+/**
+ * ChangeNameDialog Component
+ * Modal dialog (native <dialog>) for changing the display name.
+ * Messages already sent keep the name they were sent with.
+ *
+ */
+
+import { useEffect, useRef } from 'react';
+import { useIdentity } from '@hooks/useIdentity';
+import { useTranslation } from '@hooks/useTranslation';
+import { DisplayNameForm } from '@components/DisplayNameForm';
+import styles from './ChangeNameDialog.module.css';
+
+export interface ChangeNameDialogProps {
+  onClose: () => void;
+}
+
+/**
+ * Rendered only while open: mounting opens it as a modal, which traps
+ * focus and closes on Escape.
+ */
+export function ChangeNameDialog({ onClose }: ChangeNameDialogProps) {
+  const { identity, setDisplayName } = useIdentity();
+  const { t } = useTranslation();
+  const dialogRef = useRef<HTMLDialogElement>(null);
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    dialog?.showModal();
+
+    return () => {
+      dialog?.close();
+    };
+  }, []);
+
+  const handleSubmit = (displayName: string) => {
+    setDisplayName(displayName);
+    onClose();
+  };
+
+  return (
+    <dialog
+      ref={dialogRef}
+      className={styles.root}
+      aria-labelledby="change-name-title"
+      onClose={onClose}
+    >
+      <h2 id="change-name-title" className={styles.title}>
+        {t('identity.changeTitle')}
+      </h2>
+      <p className={styles.message}>{t('identity.changeMessage')}</p>
+      <DisplayNameForm
+        initialName={identity?.displayName}
+        submitLabel={t('identity.save')}
+        onSubmit={handleSubmit}
+        onCancel={onClose}
+      />
+    </dialog>
+  );
+}
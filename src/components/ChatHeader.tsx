@@ -1,33 +1,37 @@
-import type { ChatMessage } from '@models/message';
+import { useState } from 'react';
+import { useParticipants } from '@hooks/useChatStore';
+import { useCurrentAuthor } from '@hooks/useIdentity';
+import { useTheme } from '@hooks/useTheme';
+import { useTranslation } from '@hooks/useTranslation';
+import { ChangeNameDialog } from '@components/ChangeNameDialog';
+import { PreferencesDialog } from '@components/PreferencesDialog';
+import { ThemeMode, preferences } from '@preferences/preferences';
+import { session } from '@session/session';
+import { decodeHtmlEntities } from '@utils/html-entities';
 import styles from './ChatHeader.module.css';
 
 export interface ChatHeaderProps {
-  messages: ReadonlyArray<ChatMessage>;
-  currentAuthor: string;
+  /** Empty while the conversation list is loading */
+  conversationName: string;
 }
 
 /**
  *
  * Returns participants sorted alphabetically, with the currentAuthor appended at the end.
+ * Author names are HTML-decoded so they compare equal to the display name.
  *
- * @param messages - Array of messages
- * @param currentAuthor - Current user's author name
+ * @param authors - Unique author names, sorted alphabetically
+ * @param currentAuthor - Current user's display name
  * @returns Array of unique participant names
  */
-function extractParticipants(
-  messages: ReadonlyArray<ChatMessage>,
+function orderParticipants(
+  authors: ReadonlyArray<string>,
   currentAuthor: string
 ): ReadonlyArray<string> {
-  const uniqueAuthors = new Set<string>();
-  for (const message of messages) {
-    if (message.author && message.author.trim()) {
-      uniqueAuthors.add(message.author.trim());
-    }
-  }
-
-  const otherParticipants = Array.from(uniqueAuthors)
-    .filter(author => author !== currentAuthor)
-    .sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }));
+  const decodedAuthors = new Set(authors.map(decodeHtmlEntities));
+  const otherParticipants = [...decodedAuthors].filter(
+    author => author !== currentAuthor
+  );
 
   return currentAuthor
     ? [...otherParticipants, currentAuthor]
@@ -39,21 +43,26 @@ function getInitial(text: string): string {
   return trimmed.length > 0 ? trimmed[0].toUpperCase() : '?';
 }
 
-export function ChatHeader({ messages, currentAuthor }: ChatHeaderProps) {
-  const participants = extractParticipants(messages, currentAuthor);
-  const groupInitial = getInitial('Doodle Team');
-  const groupName = 'Doodle Team';
+export function ChatHeader({ conversationName }: ChatHeaderProps) {
+  const currentAuthor = useCurrentAuthor();
+  const { t } = useTranslation();
+  const isDark = useTheme() === ThemeMode.DARK;
+  const [isChangingName, setIsChangingName] = useState(false);
+  const [isEditingPreferences, setIsEditingPreferences] = useState(false);
+  const participants = orderParticipants(useParticipants(), currentAuthor);
+  const groupInitial = getInitial(conversationName);
+  const groupName = conversationName;
   const participantCount = participants.length;
 
   return (
-    <header className={styles.root} aria-label="Chat header">
+    <header className={styles.root} aria-label={t('header.label')}>
       <div className={styles.avatar} aria-hidden="true">
         <span className={styles.avatarInitial}>{groupInitial}</span>
       </div>
 
       <div className={styles.info}>
         <h1 className={styles.groupName}>
-          <span aria-label="lady and computer emoji" role="img">
+          <span aria-label={t('header.emoji')} role="img">
             👩‍💻
           </span>{' '}
           <span>{groupName}</span>
@@ -61,7 +70,7 @@ export function ChatHeader({ messages, currentAuthor }: ChatHeaderProps) {
         {participantCount > 0 && (
           <div className={styles.participants}>
             <span className="sr-only">
-              Group participants ({participantCount}):{' '}
+              {t('header.participants', { count: participantCount })}{' '}
             </span>
             {participants.map((participant, index) => (
               <span key={participant} className={styles.participant}>
@@ -75,6 +84,52 @@ export function ChatHeader({ messages, currentAuthor }: ChatHeaderProps) {
           </div>
         )}
       </div>
+
+      <div className={styles.actions}>
+        <button
+          type="button"
+          className={styles.headerButton}
+          onClick={() => setIsChangingName(true)}
+          aria-haspopup="dialog"
+          aria-label={t('header.changeName', { name: currentAuthor })}
+        >
+          {currentAuthor}
+        </button>
+        <button
+          type="button"
+          className={styles.headerButton}
+          onClick={() =>
+            preferences.set({
+              theme: isDark ? ThemeMode.LIGHT : ThemeMode.DARK,
+            })
+          }
+          aria-pressed={isDark}
+        >
+          {t('header.darkMode')}
+        </button>
+        <button
+          type="button"
+          className={styles.headerButton}
+          onClick={() => setIsEditingPreferences(true)}
+          aria-haspopup="dialog"
+        >
+          {t('header.preferences')}
+        </button>
+        <button
+          type="button"
+          className={styles.headerButton}
+          onClick={() => session.signOut()}
+        >
+          {t('header.signOut')}
+        </button>
+      </div>
+
+      {isChangingName && (
+        <ChangeNameDialog onClose={() => setIsChangingName(false)} />
+      )}
+      {isEditingPreferences && (
+        <PreferencesDialog onClose={() => setIsEditingPreferences(false)} />
+      )}
     </header>
   );
 }
@@ -0,0 +1,90 @@
+/**
+ * Container component for the whole app: conversation sidebar plus the
+ * chat of the routed conversation.
+ *
+ * Responsibilities:
+ * - Resolves `/c/:conversationId` (redirects other paths to the default room)
+ * - Provides the room's chat controller to ChatScreen
+ * - Marks the open room as read
+ * - Shows a not-found state for unknown rooms
+ *
+ */
+import { useEffect } from 'react';
+import { DEFAULT_CONVERSATION_ID } from '@api/endpoints';
+import { ChatControllerContext } from '@hooks/chat-context';
+import {
+  useActiveConversation,
+  useConversations,
+} from '@hooks/useConversations';
+import { useConversationRoute } from '@hooks/useRoute';
+import { useTranslation } from '@hooks/useTranslation';
+import { getConversationPath, navigate } from '@router/router';
+import { getChatController } from '@store/chat-controller';
+import { ChatScreen } from '@components/ChatScreen';
+import { ConversationList } from '@components/ConversationList';
+import styles from './ChatLayout.module.css';
+
+export function ChatLayout() {
+  const routeConversationId = useConversationRoute();
+  const { t } = useTranslation();
+  const conversationId = routeConversationId ?? DEFAULT_CONVERSATION_ID;
+  const { conversations, loadStatus, loadError, reload } = useConversations();
+  const conversation = conversations.find(
+    candidate => candidate._id === conversationId
+  );
+  const isUnknownConversation = loadStatus === 'success' && !conversation;
+
+  useActiveConversation(conversationId);
+
+  useEffect(() => {
+    if (routeConversationId === null) {
+      navigate(getConversationPath(DEFAULT_CONVERSATION_ID), {
+        replace: true,
+      });
+    }
+  }, [routeConversationId]);
+
+  return (
+    <div className={styles.root}>
+      {/* Skip to content link for keyboard navigation */}
+      <a href="#main-content" className="skip-link">
+        {t('layout.skipLink')}
+      </a>
+
+      <ConversationList
+        conversations={conversations}
+        activeConversationId={conversationId}
+        loadStatus={loadStatus}
+        loadError={loadError}
+        onRetry={() => void reload()}
+      />
+
+      {isUnknownConversation ? (
+        <main id="main-content" className={styles.notFound}>
+          <h1 className={styles.notFoundTitle}>{t('layout.notFoundTitle')}</h1>
+          <p className={styles.notFoundMessage}>
+            {t('layout.notFoundMessage')}
+          </p>
+          <a
+            href={getConversationPath(DEFAULT_CONVERSATION_ID)}
+            className={styles.notFoundLink}
+            onClick={clickEvent => {
+              clickEvent.preventDefault();
+              navigate(getConversationPath(DEFAULT_CONVERSATION_ID));
+            }}
+          >
+            {t('layout.notFoundLink')}
+          </a>
+        </main>
+      ) : (
+        <ChatControllerContext value={getChatController(conversationId)}>
+          <ChatScreen
+            key={conversationId}
+            conversationId={conversationId}
+            conversationName={conversation?.name ?? ''}
+          />
+        </ChatControllerContext>
+      )}
+    </div>
+  );
+}
@@ -1,160 +1,157 @@
 /**
- * Container component for the chat interface (Iteration 1 MVP).
- * Integrates data layer (useChatMessages hook) with UI shell.
+ * Container component for the chat interface of one conversation.
+ * Integrates data layer (the room's chat store, provided by ChatLayout
+ * through ChatControllerContext) with UI shell.
  *
  * Responsibilities:
+ * - Retains the chat controller (starts loading and live updates)
  * - Renders main chat layout shell
- * - Handles loading, error, and empty states
+ * - Handles loading, error, and empty states (a failed send, edit or
+ *   delete shares one alert)
  * - Establishes accessibility landmarks and live regions
  *
  */
-import { useChatMessages } from '@hooks/useChatMessages';
+import { useChatController } from '@hooks/useChatController';
+import {
+  useActionError,
+  useLoadState,
+  useSendState,
+} from '@hooks/useChatStore';
+import { useTranslation } from '@hooks/useTranslation';
 import styles from './ChatScreen.module.css';
 import { MessageList } from '@components/MessageList';
 import { Composer } from '@components/Composer';
 import { ChatHeader } from '@components/ChatHeader';
+import { describeError, ErrorAction } from '@utils/describe-error';
 
-/**
- * Messages with author === 'You' are treated as outgoing.
- * This is a simplification that:
- * - Matches the mockup's two-sided layout
- * - Avoids introducing authentication/identity logic
- * - Is easy to replace with real user ID when requirements expand
- */
-const CURRENT_USER = 'You';
+export interface ChatScreenProps {
+  conversationId: string;
+  /** Empty while the conversation list is loading */
+  conversationName: string;
+}
 
 /**
  * ChatScreen Component
  * @returns The main chat interface shell
  */
-export function ChatScreen() {
-  const {
-    messages,
-    loadStatus,
-    loadError,
-    reload,
-    sendStatus,
-    sendError,
-    sendMessage,
-  } = useChatMessages();
+export function ChatScreen({
+  conversationId,
+  conversationName,
+}: ChatScreenProps) {
+  const { reload, sendMessage } = useChatController();
+  const { loadStatus, loadError, loadAttempt } = useLoadState();
+  const { sendStatus, sendError } = useSendState();
+  const actionError = useActionError();
+  const { t } = useTranslation();
+
+  /**
+   * The API client retries transient failures; tell the user it is still trying.
+   */
+  const loadingMessage =
+    loadAttempt > 1
+      ? t('chat.reconnecting', { attempt: loadAttempt })
+      : t('chat.loading');
+
+  const loadErrorDescription = loadError
+    ? describeError(loadError, 'load')
+    : null;
+  const sendErrorDescription =
+    sendStatus === 'error' && sendError
+      ? describeError(sendError, 'send')
+      : null;
+  const actionErrorDescription = actionError
+    ? describeError(actionError.error, actionError.operation)
+    : null;
+  const errorDescription = sendErrorDescription ?? actionErrorDescription;
 
   return (
-    <>
-      {/* Skip to content link for keyboard navigation */}
-      <a href="#main-content" className="skip-link">
-        Skip to main content
-      </a>
+    <main id="main-content" className={styles.root}>
+      <ChatHeader conversationName={conversationName} />
 
-      <main id="main-content" className={styles.root}>
-        <ChatHeader messages={messages} currentAuthor={CURRENT_USER} />
+      {loadStatus === 'loading' && (
+        <div
+          role="status"
+          aria-live="polite"
+          aria-atomic="true"
+          className="sr-only"
+        >
+          {loadingMessage}
+        </div>
+      )}
 
-        {loadStatus === 'loading' && (
-          <div
-            role="status"
-            aria-live="polite"
-            aria-atomic="true"
-            className="sr-only"
-          >
-            Loading messages...
-          </div>
-        )}
+      {/* Sending status live region  */}
+      {sendStatus === 'loading' && (
+        <div
+          role="status"
+          aria-live="polite"
+          aria-atomic="true"
+          className="sr-only"
+        >
+          {t('chat.sending')}
+        </div>
+      )}
 
-        {/* Sending status live region  */}
-        {sendStatus === 'loading' && (
+      {/* Messages container*/}
+      <div className={styles.messagesContainer}>
+        {loadStatus === 'error' && loadErrorDescription && (
           <div
-            role="status"
-            aria-live="polite"
+            className={styles.errorContainer}
+            role="alert"
+            aria-live="assertive"
             aria-atomic="true"
-            className="sr-only"
           >
-            Sending message...
+            <div className={styles.errorContent}>
+              <p className={styles.errorTitle}>{loadErrorDescription.title}</p>
+              <p className={styles.errorMessage}>
+                {loadErrorDescription.message}
+              </p>
+              {loadErrorDescription.action === ErrorAction.RELOAD ? (
+                <button
+                  className={styles.retryButton}
+                  onClick={() => window.location.reload()}
+                >
+                  {t('chat.reloadPage')}
+                </button>
+              ) : (
+                <button
+                  className={styles.retryButton}
+                  onClick={() => void reload()}
+                >
+                  {t('chat.retry')}
+                </button>
+              )}
+            </div>
           </div>
         )}
 
-        {/* Messages container*/}
-        <div className={styles.messagesContainer}>
-          {(loadStatus === 'error' ||
-            (loadStatus === 'loading' && loadError)) &&
-            loadError && (
-              <div
-                className={styles.errorContainer}
-                role="alert"
-                aria-live="assertive"
-                aria-atomic="true"
-              >
-                <div className={styles.errorContent}>
-                  <p className={styles.errorTitle}>Unable to load messages</p>
-                  <p className={styles.errorMessage}>
-                    {loadError.statusCode === 0
-                      ? 'Unable to connect to the server. Please check your connection and try again.'
-                      : loadError.message}
-                  </p>
-                  <button
-                    className={styles.retryButton}
-                    onClick={() => void reload()}
-                    disabled={loadStatus === 'loading'}
-                    aria-busy={loadStatus === 'loading'}
-                  >
-                    {loadStatus === 'loading' ? 'Retrying...' : 'Retry'}
-                  </button>
-                </div>
-              </div>
-            )}
+        {loadStatus !== 'error' && (
+          <MessageList
+            conversationId={conversationId}
+            isLoading={loadStatus === 'loading'}
+            loadingMessage={loadingMessage}
+          />
+        )}
+      </div>
 
-          {loadStatus !== 'error' && (
-            <MessageList
-              messages={messages}
-              currentAuthor={CURRENT_USER}
-              isLoading={loadStatus === 'loading'}
-            />
-          )}
+      {errorDescription && (
+        <div
+          className={styles.sendErrorContainer}
+          role="alert"
+          aria-live="assertive"
+          aria-atomic="true"
+        >
+          <div className={styles.sendErrorContent}>
+            <p className={styles.sendErrorTitle}>{errorDescription.title}</p>
+            <p className={styles.sendErrorMessage}>
+              {errorDescription.message}
+            </p>
+          </div>
         </div>
+      )}
 
-        {sendStatus === 'error' &&
-          sendError &&
-          (() => {
-            const validationErrors = sendError.getValidationErrors();
-            let errorMessage: string;
-
-            if (sendError.statusCode === 0) {
-              errorMessage =
-                'Unable to connect to the server. Please check your connection and try again.';
-            } else if (validationErrors && validationErrors.length > 0) {
-              const messageError = validationErrors.find(
-                validationError => validationError.field === 'message'
-              );
-              errorMessage = messageError
-                ? messageError.message
-                : validationErrors[0].message;
-            } else {
-              errorMessage = sendError.message;
-            }
-
-            return (
-              <div
-                className={styles.sendErrorContainer}
-                role="alert"
-                aria-live="assertive"
-                aria-atomic="true"
-              >
-                <div className={styles.sendErrorContent}>
-                  <p className={styles.sendErrorTitle}>
-                    Unable to send message
-                  </p>
-                  <p className={styles.sendErrorMessage}>{errorMessage}</p>
-                </div>
-              </div>
-            );
-          })()}
-
-        <div className={styles.composerContainer}>
-          <Composer
-            currentAuthor={CURRENT_USER}
-            onSend={sendMessage}
-            sendStatus={sendStatus}
-          />
-        </div>
-      </main>
-    </>
+      <div className={styles.composerContainer}>
+        <Composer conversationId={conversationId} onSend={sendMessage} />
+      </div>
+    </main>
   );
 }
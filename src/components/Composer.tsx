@@ -1,24 +1,26 @@
 /**
  * Composer Component
  * Owns input state and handles form submission.
+ * The text is kept as a per-conversation draft, so it survives switching
+ * rooms. So is the message being replied to, previewed above the input.
  *
  */
 
 import { useEffect, useRef, useState } from 'react';
+import { useDraft, useReplyTarget } from '@hooks/useConversationMemory';
+import { useMessage } from '@hooks/useChatStore';
+import { useCurrentAuthor } from '@hooks/useIdentity';
+import { useTranslation } from '@hooks/useTranslation';
+import { decodeHtmlEntities } from '@utils/html-entities';
+import { MAX_MESSAGE_LENGTH } from '@api/schemas';
 import type { CreateMessageRequest } from '@models/message';
 import styles from './Composer.module.css';
 
 export interface ComposerProps {
-  currentAuthor: string;
+  conversationId: string;
   onSend: (payload: Readonly<CreateMessageRequest>) => Promise<void>;
-  sendStatus: 'idle' | 'loading' | 'success' | 'error';
 }
 
-/**
- * API validation limit to provide client-side feedback.
- */
-const MAX_MESSAGE_LENGTH = 500;
-
 /**
  *
  * Renders a form with message input and send button.
@@ -27,8 +29,12 @@ const MAX_MESSAGE_LENGTH = 500;
  * @param props - Component props
  * @returns The composer form component
  */
-export function Composer({ currentAuthor, onSend, sendStatus }: ComposerProps) {
-  const [messageText, setMessageText] = useState('');
+export function Composer({ conversationId, onSend }: ComposerProps) {
+  const currentAuthor = useCurrentAuthor();
+  const { t, tRich } = useTranslation();
+  const [messageText, setMessageText] = useDraft(conversationId);
+  const [replyTarget, setReplyTarget] = useReplyTarget(conversationId);
+  const replyParent = useMessage(replyTarget ?? '');
 
   const [wasTruncated, setWasTruncated] = useState(false);
 
@@ -47,13 +53,41 @@ export function Composer({ currentAuthor, onSend, sendStatus }: ComposerProps) {
    * Invalid when:
    * - Message is empty/whitespace
    * - Message exceeds max length
-   * - Currently sending
+   *
+   * Sending doesn't block the form: messages are shown optimistically.
    */
-  const isValid =
-    trimmedLength > 0 && !isMessageTooLong && sendStatus !== 'loading';
+  const isValid = trimmedLength > 0 && !isMessageTooLong;
 
   const isInputInvalid = trimmedLength === 0 || isMessageTooLong;
 
+  /**
+   * Starting a reply moves focus to the input. Only a change counts: a
+   * reply restored when switching back to the room doesn't steal focus.
+   */
+  const previousReplyTargetRef = useRef(replyTarget);
+
+  useEffect(() => {
+    if (replyTarget && replyTarget !== previousReplyTargetRef.current) {
+      messageInputRef.current?.focus();
+    }
+
+    previousReplyTargetRef.current = replyTarget;
+  }, [replyTarget]);
+
+  const cancelReply = () => {
+    setReplyTarget(null);
+    messageInputRef.current?.focus();
+  };
+
+  const handleInputKeyDown = (
+    keyEvent: React.KeyboardEvent<HTMLInputElement>
+  ) => {
+    if (keyEvent.key === 'Escape' && replyTarget) {
+      keyEvent.preventDefault();
+      setReplyTarget(null);
+    }
+  };
+
   const clearPasteTracking = () => {
     pasteExceededLimitRef.current = false;
   };
@@ -115,28 +149,30 @@ export function Composer({ currentAuthor, onSend, sendStatus }: ComposerProps) {
     };
   }, [wasTruncated]);
 
-  const handleSubmit = async (formEvent: React.FormEvent<HTMLFormElement>) => {
+  /**
+   * Clears the input right away: the message is shown optimistically in the
+   * list, and a failed send stays there with Retry/Discard actions, so the
+   * text is never lost.
+   */
+  const handleSubmit = (formEvent: React.FormEvent<HTMLFormElement>) => {
     formEvent.preventDefault();
 
     if (!isValid) {
       return;
     }
 
-    try {
-      await onSend({
-        author: currentAuthor,
-        message: messageText.trim(),
-      });
+    const payload: CreateMessageRequest = {
+      author: currentAuthor,
+      message: messageText.trim(),
+      ...(replyTarget && { replyTo: replyTarget }),
+    };
 
-      setMessageText('');
-      setWasTruncated(false);
-      messageInputRef.current?.focus();
-    } catch {
-      /**
-       * Error handling is done by parent via sendStatus.
-       * Send errors are displayed globally in ChatScreen.
-       */
-    }
+    setMessageText('');
+    setReplyTarget(null);
+    setWasTruncated(false);
+    messageInputRef.current?.focus();
+
+    void onSend(payload);
   };
 
   const showClientValidationError = isMessageTooLong;
@@ -146,25 +182,54 @@ export function Composer({ currentAuthor, onSend, sendStatus }: ComposerProps) {
     showClientValidationError || showTruncationMessage
       ? 'composer-error'
       : undefined;
+  const describedBy =
+    [replyTarget ? 'composer-reply' : undefined, errorMessageId]
+      .filter(Boolean)
+      .join(' ') || undefined;
 
   return (
     <form className={styles.root} onSubmit={handleSubmit}>
+      {replyTarget && (
+        <div className={styles.replyPreview}>
+          <p id="composer-reply" className={styles.replyPreviewText}>
+            {replyParent
+              ? tRich('composer.replyingTo', {
+                  author: (
+                    <span className={styles.replyPreviewAuthor}>
+                      {decodeHtmlEntities(replyParent.author)}
+                    </span>
+                  ),
+                  text: replyParent.deletedAt
+                    ? t('message.deleted')
+                    : decodeHtmlEntities(replyParent.message),
+                })
+              : t('composer.replyingToUnknown')}
+          </p>
+          <button
+            type="button"
+            className={styles.replyCancel}
+            onClick={cancelReply}
+            aria-label={t('composer.cancelReply')}
+          >
+            <span aria-hidden="true">×</span>
+          </button>
+        </div>
+      )}
       <div className={styles.inputGroup}>
         <label htmlFor="chatMessage" className="sr-only">
-          Message
+          {t('composer.label')}
         </label>
         <input
           ref={messageInputRef}
           id="chatMessage"
           type="text"
           className={styles.input}
-          placeholder="Type a message..."
+          placeholder={t('composer.placeholder')}
           value={messageText}
           onChange={handleInputChange}
           onPaste={handlePaste}
-          disabled={sendStatus === 'loading'}
-          aria-describedby={errorMessageId}
-          aria-busy={sendStatus === 'loading'}
+          onKeyDown={handleInputKeyDown}
+          aria-describedby={describedBy}
           aria-invalid={isInputInvalid}
           maxLength={MAX_MESSAGE_LENGTH}
         />
@@ -172,20 +237,20 @@ export function Composer({ currentAuthor, onSend, sendStatus }: ComposerProps) {
           type="submit"
           className={styles.sendButton}
           disabled={!isValid}
-          aria-busy={sendStatus === 'loading'}
-          aria-label={
-            sendStatus === 'loading' ? 'Sending message' : 'Send message'
-          }
+          aria-label={t('composer.sendLabel')}
         >
-          Send
+          {t('composer.send')}
         </button>
       </div>
 
       {(showClientValidationError || showTruncationMessage) && (
         <div id={errorMessageId} role="alert" className={styles.errorMessage}>
           {showClientValidationError
-            ? `Message cannot exceed ${MAX_MESSAGE_LENGTH} characters (${messageLength}/${MAX_MESSAGE_LENGTH})`
-            : `Message was truncated to ${MAX_MESSAGE_LENGTH} characters. The first ${MAX_MESSAGE_LENGTH} characters will be sent.`}
+            ? t('composer.tooLong', {
+                max: MAX_MESSAGE_LENGTH,
+                length: messageLength,
+              })
+            : t('composer.truncated', { max: MAX_MESSAGE_LENGTH })}
         </div>
       )}
     </form>
@@ -0,0 +1,142 @@
+/**
+ * ConversationList Component
+ * Sidebar listing the rooms with last-message previews and unread counts.
+ * Presentational: ChatLayout provides the list and the active room.
+ *
+ */
+
+import type { ApiError } from '@api/api-error';
+import type { ConversationSummary } from '@models/conversation';
+import type { AsyncStatus } from '@models/hooks';
+import type { MessageKey, MessageParams } from '@models/i18n';
+import { useTranslation } from '@hooks/useTranslation';
+import { getConversationPath, navigate } from '@router/router';
+import { describeError } from '@utils/describe-error';
+import { decodeHtmlEntities } from '@utils/html-entities';
+import styles from './ConversationList.module.css';
+
+export interface ConversationListProps {
+  conversations: ReadonlyArray<ConversationSummary>;
+  activeConversationId: string;
+  loadStatus: AsyncStatus;
+  loadError: ApiError | null;
+  onRetry: () => void;
+}
+
+/**
+ * Largest unread count shown as a number.
+ */
+const MAX_DISPLAYED_UNREAD = 99;
+
+function getPreview(
+  conversation: ConversationSummary,
+  t: (key: MessageKey, params?: MessageParams) => string
+): string {
+  const { lastMessage } = conversation;
+
+  if (!lastMessage) {
+    return t('conversations.empty');
+  }
+
+  return t('conversations.preview', {
+    author: decodeHtmlEntities(lastMessage.author),
+    text: lastMessage.deletedAt
+      ? t('conversations.deleted')
+      : decodeHtmlEntities(lastMessage.message),
+  });
+}
+
+/**
+ * Client-side navigation for plain clicks; modified clicks (new tab,
+ * new window) keep the browser behaviour.
+ */
+function handleLinkClick(
+  clickEvent: React.MouseEvent<HTMLAnchorElement>,
+  path: string
+) {
+  if (
+    clickEvent.button !== 0 ||
+    clickEvent.metaKey ||
+    clickEvent.ctrlKey ||
+    clickEvent.shiftKey ||
+    clickEvent.altKey
+  ) {
+    return;
+  }
+
+  clickEvent.preventDefault();
+  navigate(path);
+}
+
+export function ConversationList({
+  conversations,
+  activeConversationId,
+  loadStatus,
+  loadError,
+  onRetry,
+}: ConversationListProps) {
+  const { t } = useTranslation();
+  const loadErrorDescription =
+    loadStatus === 'error' && loadError
+      ? describeError(loadError, 'load')
+      : null;
+
+  return (
+    <nav className={styles.root} aria-labelledby="conversation-list-title">
+      <h2 id="conversation-list-title" className={styles.title}>
+        {t('conversations.title')}
+      </h2>
+
+      {loadStatus === 'loading' && conversations.length === 0 && (
+        <p className={styles.status} role="status">
+          {t('conversations.loading')}
+        </p>
+      )}
+
+      {loadErrorDescription && (
+        <div className={styles.status} role="alert">
+          <span>{loadErrorDescription.message}</span>{' '}
+          <button type="button" className={styles.retry} onClick={onRetry}>
+            {t('conversations.retry')}
+          </button>
+        </div>
+      )}
+
+      <ul className={styles.list}>
+        {conversations.map(conversation => {
+          const path = getConversationPath(conversation._id);
+          const isActive = conversation._id === activeConversationId;
+          const { unreadCount } = conversation;
+
+          return (
+            <li key={conversation._id}>
+              <a
+                href={path}
+                className={styles.link}
+                aria-current={isActive ? 'page' : undefined}
+                onClick={clickEvent => handleLinkClick(clickEvent, path)}
+              >
+                <span className={styles.name}>{conversation.name}</span>
+                {unreadCount > 0 && (
+                  <>
+                    <span className={styles.badge} aria-hidden="true">
+                      {unreadCount > MAX_DISPLAYED_UNREAD
+                        ? `${MAX_DISPLAYED_UNREAD}+`
+                        : unreadCount}
+                    </span>
+                    <span className="sr-only">
+                      , {t('conversations.unread', { count: unreadCount })}
+                    </span>
+                  </>
+                )}
+                <span className={styles.preview}>
+                  {getPreview(conversation, t)}
+                </span>
+              </a>
+            </li>
+          );
+        })}
+      </ul>
+    </nav>
+  );
+}
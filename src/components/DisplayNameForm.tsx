@@ -0,0 +1,100 @@
+/**
+ * DisplayNameForm Component
+ * Display name input with validation, shared by onboarding and the
+ * change-name dialog.
+ *
+ */
+
+import { useId, useState } from 'react';
+import { useTranslation } from '@hooks/useTranslation';
+import {
+  MAX_DISPLAY_NAME_LENGTH,
+  normalizeDisplayName,
+  validateDisplayName,
+} from '@identity/identity';
+import styles from './DisplayNameForm.module.css';
+
+export interface DisplayNameFormProps {
+  initialName?: string;
+  submitLabel: string;
+  onSubmit: (displayName: string) => void;
+  /** Renders a Cancel button when provided */
+  onCancel?: () => void;
+}
+
+export function DisplayNameForm({
+  initialName = '',
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: DisplayNameFormProps) {
+  const { t } = useTranslation();
+  const [displayName, setDisplayName] = useState(initialName);
+  const [error, setError] = useState<string | null>(null);
+  const inputId = useId();
+  const errorId = useId();
+
+  /**
+   * Validation runs on submit, then live while an error is shown, so the
+   * message doesn't appear while the user is still typing a first name.
+   */
+  const handleChange = (changeEvent: React.ChangeEvent<HTMLInputElement>) => {
+    const nextName = changeEvent.target.value;
+    setDisplayName(nextName);
+
+    if (error) {
+      setError(validateDisplayName(nextName));
+    }
+  };
+
+  const handleSubmit = (formEvent: React.FormEvent<HTMLFormElement>) => {
+    formEvent.preventDefault();
+
+    const validationError = validateDisplayName(displayName);
+    setError(validationError);
+
+    if (!validationError) {
+      onSubmit(normalizeDisplayName(displayName));
+    }
+  };
+
+  return (
+    <form className={styles.root} onSubmit={handleSubmit} noValidate>
+      <label htmlFor={inputId} className={styles.label}>
+        {t('identity.label')}
+      </label>
+      <input
+        id={inputId}
+        type="text"
+        className={styles.input}
+        value={displayName}
+        onChange={handleChange}
+        maxLength={MAX_DISPLAY_NAME_LENGTH}
+        autoComplete="nickname"
+        aria-invalid={error !== null}
+        aria-describedby={error ? errorId : undefined}
+        autoFocus
+      />
+      {error && (
+        <p id={errorId} role="alert" className={styles.error}>
+          {error}
+        </p>
+      )}
+
+      <div className={styles.actions}>
+        {onCancel && (
+          <button
+            type="button"
+            className={styles.secondaryButton}
+            onClick={onCancel}
+          >
+            {t('identity.cancel')}
+          </button>
+        )}
+        <button type="submit" className={styles.primaryButton}>
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,39 @@
+/**
+ * IdentityGate Component
+ * First-run onboarding: renders a display name form until the user has an
+ * identity, then the app.
+ *
+ */
+
+import { useIdentity } from '@hooks/useIdentity';
+import { useTranslation } from '@hooks/useTranslation';
+import { DisplayNameForm } from '@components/DisplayNameForm';
+import styles from './IdentityGate.module.css';
+
+export interface IdentityGateProps {
+  children: React.ReactNode;
+}
+
+export function IdentityGate({ children }: IdentityGateProps) {
+  const { identity, setDisplayName } = useIdentity();
+  const { t } = useTranslation();
+
+  if (identity) {
+    return children;
+  }
+
+  return (
+    <main className={styles.root} aria-labelledby="onboarding-title">
+      <div className={styles.card}>
+        <h1 id="onboarding-title" className={styles.title}>
+          {t('identity.welcomeTitle')}
+        </h1>
+        <p className={styles.message}>{t('identity.welcomeMessage')}</p>
+        <DisplayNameForm
+          submitLabel={t('identity.start')}
+          onSubmit={setDisplayName}
+        />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,54 @@
+/**
+ * IdentityProvider Component
+ * Holds the local user's identity, loaded from and saved to localStorage.
+ * Other tabs pick up name changes through the storage event.
+ *
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { IdentityContext } from '@hooks/identity-context';
+import {
+  IDENTITY_STORAGE_KEY,
+  loadIdentity,
+  normalizeDisplayName,
+  parseIdentity,
+  saveIdentity,
+} from '@identity/identity';
+import type { Identity } from '@models/identity';
+
+export interface IdentityProviderProps {
+  children: React.ReactNode;
+}
+
+export function IdentityProvider({ children }: IdentityProviderProps) {
+  const [identity, setIdentity] = useState<Identity | null>(loadIdentity);
+
+  const setDisplayName = useCallback((displayName: string) => {
+    const nextIdentity: Identity = {
+      displayName: normalizeDisplayName(displayName),
+    };
+
+    saveIdentity(nextIdentity);
+    setIdentity(nextIdentity);
+  }, []);
+
+  useEffect(() => {
+    const handleStorage = (storageEvent: StorageEvent) => {
+      if (storageEvent.key === IDENTITY_STORAGE_KEY) {
+        setIdentity(parseIdentity(storageEvent.newValue));
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  const value = useMemo(
+    () => ({ identity, setDisplayName }),
+    [identity, setDisplayName]
+  );
+
+  return <IdentityContext value={value}>{children}</IdentityContext>;
+}
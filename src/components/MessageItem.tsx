@@ -1,5 +1,17 @@
+import { useEffect, useId, useLayoutEffect, useRef, useState } from 'react';
+import { MAX_MESSAGE_LENGTH } from '@api/schemas';
+import { MessageReactions } from '@components/MessageReactions';
+import { ReactionPicker } from '@components/ReactionPicker';
+import { RichText } from '@components/RichText';
+import { useCurrentAuthor } from '@hooks/useIdentity';
+import { useNow } from '@hooks/useNow';
+import { usePreferences } from '@hooks/usePreferences';
+import { useTranslation } from '@hooks/useTranslation';
 import type { ChatMessage } from '@models/message';
+import { hasReacted } from '@store/message-store';
+import { TimeDisplay } from '@preferences/preferences';
 import { decodeHtmlEntities } from '@utils/html-entities';
+import { formatFullDateTime, formatMessageTime } from '@utils/time-format';
 import styles from './MessageItem.module.css';
 
 export interface MessageItemProps {
@@ -7,23 +19,90 @@ export interface MessageItemProps {
   isOutgoing: boolean;
   isFirstMessage?: boolean;
   isLastMessage?: boolean;
+  /**
+   * Show the author (first message of a group) and the time (last message
+   * of a group). When hidden they are still read by screen readers.
+   */
+  showAuthor?: boolean;
+  showTimestamp?: boolean;
+  onRetry?: (messageId: string) => void;
+  onDiscard?: (messageId: string) => void;
+  /** Provided for the user's own messages that can still be changed */
+  onEdit?: (messageId: string, text: string) => void;
+  /** Provided for the user's own messages that can still be changed */
+  onDelete?: (messageId: string) => void;
+  /** Provided for messages that can be replied to */
+  onReply?: (messageId: string) => void;
+  /**
+   * The message this one replies to, if it is loaded (only read when
+   * `message.replyTo` is set)
+   */
+  replyParent?: ChatMessage;
+  /** Called with the parent id when the quote is activated */
+  onQuoteClick?: (messageId: string) => void;
+  /** Provided for messages that can be reacted to */
+  onToggleReaction?: (messageId: string, emoji: string) => void;
+  /** Briefly set after jumping to this message from a reply */
+  isHighlighted?: boolean;
+  /**
+   * Position in the whole conversation (1-based) and its size, for
+   * assistive technologies when only part of the list is rendered
+   */
+  posInSet?: number;
+  setSize?: number;
 }
 
 /**
- * Formats a timestamp for display using Intl.DateTimeFormat.
- * Uses browser's locale for proper localization.
- *
- * @param timestampMs - Timestamp in milliseconds (from createdAtMs)
- * @returns Formatted time string (e.g., "2:30 PM" or "14:30" depending on locale)
+ * What the message is showing: its text, the edit form, the delete
+ * confirmation, or the reaction picker.
  */
-function formatTimestamp(timestampMs: number): string {
-  const date = new Date(timestampMs);
-  const formatter = new Intl.DateTimeFormat(undefined, {
-    hour: 'numeric',
-    minute: '2-digit',
-    hour12: true,
-  });
-  return formatter.format(date);
+type MessageMode =
+  | 'view'
+  | 'editing'
+  | 'confirming-delete'
+  | 'picking-reaction';
+
+interface ReplyQuoteProps {
+  parent: ChatMessage | undefined;
+  onClick?: (messageId: string) => void;
+}
+
+/**
+ * Compact quote of the parent message above a reply. Activating it jumps to
+ * the parent; a parent that isn't loaded gets a placeholder instead.
+ */
+function ReplyQuote({ parent, onClick }: ReplyQuoteProps) {
+  const { t } = useTranslation();
+
+  if (!parent) {
+    return (
+      <div className={`${styles.quote} ${styles.quoteUnavailable}`}>
+        <span className="sr-only">{t('message.inReplyTo')}: </span>
+        {t('message.parentNotLoaded')}
+      </div>
+    );
+  }
+
+  const isDeleted = parent.deletedAt !== undefined;
+
+  return (
+    <button
+      type="button"
+      className={styles.quote}
+      onClick={() => onClick?.(parent._id)}
+    >
+      <span className="sr-only">{t('message.inReplyTo')} </span>
+      <span className={styles.quoteAuthor}>
+        {decodeHtmlEntities(parent.author)}
+      </span>
+      <span className="sr-only">: </span>
+      <span
+        className={`${styles.quoteText} ${isDeleted ? styles.quoteDeleted : ''}`}
+      >
+        {isDeleted ? t('message.deleted') : decodeHtmlEntities(parent.message)}
+      </span>
+    </button>
+  );
 }
 
 /**
@@ -37,29 +116,383 @@ export function MessageItem({
   isOutgoing,
   isFirstMessage = false,
   isLastMessage = false,
+  showAuthor = true,
+  showTimestamp = true,
+  onRetry,
+  onDiscard,
+  onEdit,
+  onDelete,
+  onReply,
+  replyParent,
+  onQuoteClick,
+  onToggleReaction,
+  isHighlighted = false,
+  posInSet,
+  setSize,
 }: MessageItemProps) {
+  const currentAuthor = useCurrentAuthor();
+  const preferences = usePreferences();
+  const { t } = useTranslation();
+  const now = useNow(preferences.timeDisplay === TimeDisplay.RELATIVE);
+  const [mode, setMode] = useState<MessageMode>('view');
+  const [draftText, setDraftText] = useState('');
+  const editButtonRef = useRef<HTMLButtonElement>(null);
+  const reactButtonRef = useRef<HTMLButtonElement>(null);
+  const returnFocusRef =
+    useRef<React.RefObject<HTMLButtonElement | null>>(null);
+  const editInputId = useId();
+  const editInputRef = useRef<HTMLTextAreaElement>(null);
+  const pickerId = useId();
+
+  const isPending = message.deliveryState === 'pending';
+  const isFailed = message.deliveryState === 'failed';
+  const isQueued = message.deliveryState === 'queued';
+  const isDeleted = message.deletedAt !== undefined;
+  const isEdited = message.updatedAt !== undefined && !isDeleted;
+  const canChange =
+    !isDeleted && (onEdit !== undefined || onDelete !== undefined);
+  const canReply = !isDeleted && onReply !== undefined;
+  const canReact = !isDeleted && onToggleReaction !== undefined;
+  const reactions = message.reactions ?? [];
+
+  /**
+   * Back to the text after editing, confirming or picking: focus returns to
+   * the button that opened the form instead of being lost with it.
+   */
+  useEffect(() => {
+    if (mode === 'view' && returnFocusRef.current) {
+      returnFocusRef.current.current?.focus();
+      returnFocusRef.current = null;
+    }
+  }, [mode]);
+
+  /**
+   * Grows the edit field with its text (up to the CSS max-height).
+   */
+  useLayoutEffect(() => {
+    const textarea = editInputRef.current;
+
+    if (!textarea) {
+      return;
+    }
+
+    const borderHeight = textarea.offsetHeight - textarea.clientHeight;
+    textarea.style.height = 'auto';
+    textarea.style.height = `${textarea.scrollHeight + borderHeight}px`;
+  }, [draftText, mode]);
+
   const rootClassName = `${styles.root} ${
     isOutgoing ? styles.rootOutgoing : styles.rootIncoming
   } ${isFirstMessage ? styles.firstMessage : ''} ${
     isLastMessage ? styles.lastMessage : ''
-  }`.trim();
+  } ${showAuthor ? '' : styles.groupContinuation} ${isPending || isQueued ? styles.pending : ''} ${
+    isFailed ? styles.failed : ''
+  } ${isHighlighted ? styles.highlighted : ''}`.trim();
 
   const decodedMessage = decodeHtmlEntities(message.message);
   const decodedAuthor = decodeHtmlEntities(message.author);
 
-  const formattedTime = formatTimestamp(message.createdAtMs);
+  const formattedTime = formatMessageTime(
+    message.createdAtMs,
+    now,
+    preferences
+  );
+
+  const closeForm = () => {
+    returnFocusRef.current = editButtonRef;
+    setMode('view');
+  };
+
+  const closePicker = (returnFocus: boolean) => {
+    returnFocusRef.current = returnFocus ? reactButtonRef : null;
+    setMode('view');
+  };
+
+  const handleReactionSelect = (emoji: string) => {
+    onToggleReaction?.(message._id, emoji);
+    closePicker(true);
+  };
+
+  const startEditing = () => {
+    setDraftText(decodedMessage);
+    setMode('editing');
+  };
+
+  const trimmedDraft = draftText.trim();
+  const canSaveEdit =
+    trimmedDraft.length > 0 && trimmedDraft.length <= MAX_MESSAGE_LENGTH;
+
+  const handleEditSubmit = (formEvent: React.FormEvent<HTMLFormElement>) => {
+    formEvent.preventDefault();
+
+    if (!canSaveEdit) {
+      return;
+    }
+
+    if (trimmedDraft !== decodedMessage) {
+      onEdit?.(message._id, trimmedDraft);
+    }
+
+    closeForm();
+  };
+
+  /**
+   * Like the composer, Enter saves and Escape cancels; Shift+Enter starts
+   * a new line, so multi-line messages (lists, code) keep their lines.
+   */
+  const handleEditKeyDown = (
+    keyEvent: React.KeyboardEvent<HTMLTextAreaElement>
+  ) => {
+    if (keyEvent.key === 'Escape') {
+      keyEvent.preventDefault();
+      closeForm();
+    } else if (
+      keyEvent.key === 'Enter' &&
+      !keyEvent.shiftKey &&
+      !keyEvent.nativeEvent.isComposing
+    ) {
+      keyEvent.preventDefault();
+      keyEvent.currentTarget.form?.requestSubmit();
+    }
+  };
+
+  const handleConfirmDelete = () => {
+    onDelete?.(message._id);
+    setMode('view');
+  };
 
   return (
-    <li className={rootClassName}>
-      <div className={styles.senderName}>{decodedAuthor}</div>
-      <p className={styles.messageText}>{decodedMessage}</p>
-      <time
-        dateTime={message.createdAt}
-        className={styles.timestamp}
-        title={new Date(message.createdAtMs).toLocaleString()}
-      >
-        {formattedTime}
-      </time>
+    <li
+      className={rootClassName}
+      data-message-id={message._id}
+      tabIndex={-1}
+      aria-posinset={posInSet}
+      aria-setsize={setSize}
+    >
+      <div className={showAuthor ? styles.senderName : 'sr-only'}>
+        {decodedAuthor}
+      </div>
+      {message.replyTo && !isDeleted && (
+        <ReplyQuote parent={replyParent} onClick={onQuoteClick} />
+      )}
+      {isDeleted ? (
+        <p className={styles.deletedText}>{t('message.deleted')}</p>
+      ) : mode === 'editing' ? (
+        <form className={styles.editForm} onSubmit={handleEditSubmit}>
+          <label htmlFor={editInputId} className="sr-only">
+            {t('message.editLabel')}
+          </label>
+          <textarea
+            ref={editInputRef}
+            id={editInputId}
+            className={styles.editInput}
+            rows={1}
+            value={draftText}
+            onChange={changeEvent => setDraftText(changeEvent.target.value)}
+            onKeyDown={handleEditKeyDown}
+            maxLength={MAX_MESSAGE_LENGTH}
+            autoFocus
+          />
+          <div className={styles.messageActions}>
+            <button
+              type="button"
+              className={styles.deliveryAction}
+              onClick={closeForm}
+            >
+              {t('message.cancel')}
+            </button>
+            <button
+              type="submit"
+              className={styles.deliveryAction}
+              disabled={!canSaveEdit}
+            >
+              {t('message.save')}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <RichText text={decodedMessage} className={styles.messageText} />
+      )}
+      {!isDeleted && (
+        <MessageReactions
+          messageId={message._id}
+          reactions={reactions}
+          onToggle={onToggleReaction}
+        />
+      )}
+      <div className={styles.meta}>
+        {isPending && (
+          <span className={styles.deliveryStatus}>
+            {t('message.sending')}
+            <span aria-hidden="true">…</span>
+          </span>
+        )}
+        {isQueued && (
+          <span className={styles.queuedBadge} title={t('message.queuedHint')}>
+            {t('message.queued')}
+            <span className="sr-only">, {t('message.queuedHint')}</span>
+          </span>
+        )}
+        {isEdited && (
+          <span
+            className={styles.editedMarker}
+            title={t('message.editedAt', {
+              date: formatFullDateTime(
+                Date.parse(message.updatedAt ?? ''),
+                preferences
+              ),
+            })}
+          >
+            {t('message.edited')}
+          </span>
+        )}
+        <time
+          dateTime={message.createdAt}
+          className={showTimestamp ? styles.timestamp : 'sr-only'}
+          title={formatFullDateTime(message.createdAtMs, preferences)}
+        >
+          {formattedTime}
+        </time>
+      </div>
+
+      {(canChange || canReply || canReact) &&
+        (mode === 'view' || mode === 'picking-reaction') && (
+          <div
+            className={`${styles.messageActions} ${
+              mode === 'view' ? styles.revealOnHover : ''
+            }`}
+          >
+            {canReact && (
+              <button
+                ref={reactButtonRef}
+                type="button"
+                className={styles.deliveryAction}
+                onClick={() =>
+                  setMode(
+                    mode === 'picking-reaction' ? 'view' : 'picking-reaction'
+                  )
+                }
+                aria-label={t('message.reactLabel')}
+                aria-expanded={mode === 'picking-reaction'}
+                aria-controls={
+                  mode === 'picking-reaction' ? pickerId : undefined
+                }
+              >
+                {t('message.react')}
+              </button>
+            )}
+            {canReply && (
+              <button
+                type="button"
+                className={styles.deliveryAction}
+                onClick={() => onReply(message._id)}
+                aria-label={t('message.replyLabel', { author: decodedAuthor })}
+              >
+                {t('message.reply')}
+              </button>
+            )}
+            {onEdit && (
+              <button
+                ref={editButtonRef}
+                type="button"
+                className={styles.deliveryAction}
+                onClick={startEditing}
+                aria-label={t('message.editLabel')}
+              >
+                {t('message.edit')}
+              </button>
+            )}
+            {onDelete && (
+              <button
+                type="button"
+                className={styles.deliveryAction}
+                onClick={() => setMode('confirming-delete')}
+                aria-label={t('message.deleteLabel')}
+              >
+                {t('message.delete')}
+              </button>
+            )}
+          </div>
+        )}
+
+      {canReact && mode === 'picking-reaction' && (
+        <ReactionPicker
+          id={pickerId}
+          selectedEmojis={reactions
+            .map(reaction => reaction.emoji)
+            .filter(emoji => hasReacted(message, emoji, currentAuthor))}
+          onSelect={handleReactionSelect}
+          onDismiss={closePicker}
+        />
+      )}
+
+      {canChange && mode === 'confirming-delete' && (
+        <div
+          className={styles.deleteConfirmation}
+          role="group"
+          aria-label={t('message.confirmDeleteLabel')}
+        >
+          <span className={styles.deleteConfirmationText}>
+            {t('message.confirmDelete')}
+          </span>
+          <div className={styles.messageActions}>
+            <button
+              type="button"
+              className={styles.deliveryAction}
+              onClick={closeForm}
+              autoFocus
+            >
+              {t('message.cancel')}
+            </button>
+            <button
+              type="button"
+              className={styles.deliveryAction}
+              onClick={handleConfirmDelete}
+            >
+              {t('message.delete')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isQueued && onDiscard && (
+        <div className={styles.deliveryActions}>
+          <button
+            type="button"
+            className={styles.deliveryAction}
+            onClick={() => onDiscard(message._id)}
+            aria-label={t('message.discardQueuedLabel')}
+          >
+            {t('message.discard')}
+          </button>
+        </div>
+      )}
+
+      {isFailed && (
+        <div className={styles.deliveryFailed}>
+          <span className={styles.deliveryFailedText}>
+            {t('message.notDelivered')}
+          </span>
+          <div className={styles.deliveryActions}>
+            <button
+              type="button"
+              className={styles.deliveryAction}
+              onClick={() => onRetry?.(message._id)}
+              aria-label={t('message.retryLabel')}
+            >
+              {t('message.retry')}
+            </button>
+            <button
+              type="button"
+              className={styles.deliveryAction}
+              onClick={() => onDiscard?.(message._id)}
+              aria-label={t('message.discardUnsentLabel')}
+            >
+              {t('message.discard')}
+            </button>
+          </div>
+        </div>
+      )}
     </li>
   );
 }
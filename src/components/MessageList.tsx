@@ -1,12 +1,36 @@
-import type { ChatMessage } from '@models/message';
+import { uiConfig } from '@config/env';
+import type { ChatMessage, MessageListRow } from '@models/message';
+import type { MessageStoreState } from '@models/store';
 import styles from './MessageList.module.css';
 import { MessageItem } from '@components/MessageItem';
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import {
+  useChatStore,
+  useHistoryState,
+  useMessages,
+} from '@hooks/useChatStore';
+import { useChatActions } from '@hooks/useChatController';
+import { useReplyTarget, useScrollMemory } from '@hooks/useConversationMemory';
+import { useCurrentAuthor } from '@hooks/useIdentity';
+import { useNow } from '@hooks/useNow';
+import { usePreferences } from '@hooks/usePreferences';
+import { useTranslation } from '@hooks/useTranslation';
+import { useVirtualList } from '@hooks/useVirtualList';
+import { isEditable, isLocalMessage } from '@store/message-store';
+import { decodeHtmlEntities } from '@utils/html-entities';
+import { groupMessages } from '@utils/message-groups';
+import { formatDayLabel } from '@utils/time-format';
 
+/**
+ * Messages, history state and actions come from the conversation's chat
+ * store. The scroll position and the reply target are remembered per
+ * conversation.
+ */
 export interface MessageListProps {
-  messages: ReadonlyArray<ChatMessage>;
-  currentAuthor: string;
+  conversationId: string;
   isLoading?: boolean;
+  /** Default: the translated "Loading messages..." */
+  loadingMessage?: string;
 }
 
 /**
@@ -14,13 +38,168 @@ export interface MessageListProps {
  */
 const NEAR_BOTTOM_THRESHOLD = 80;
 
+/**
+ * Threshold in pixels from the top that triggers loading older messages.
+ */
+const NEAR_TOP_THRESHOLD = 120;
+
+/**
+ * How long a message stays highlighted after jumping to it from a reply.
+ */
+const HIGHLIGHT_DURATION_MS = 2000;
+
+const selectMessagesById = (state: MessageStoreState) => state.messagesById;
+
+/**
+ * Measured row heights by conversation, kept across mounts: coming back to
+ * a room lays out its messages (and restores its scroll position) from real
+ * sizes instead of estimates. Rows that leave the list (e.g. a pending
+ * message replaced by the server's copy) are forgotten, so each map stays
+ * the size of its conversation's store.
+ */
+const messageHeights = new Map<string, Map<string, number>>();
+
+function getMessageHeights(conversationId: string): Map<string, number> {
+  let heights = messageHeights.get(conversationId);
+
+  if (!heights) {
+    heights = new Map();
+    messageHeights.set(conversationId, heights);
+  }
+
+  return heights;
+}
+
+/**
+ * Whether a message was sent under the local user's display name.
+ * The API returns HTML-escaped authors, so the name is decoded first.
+ */
+function isOwnMessage(message: ChatMessage, currentAuthor: string): boolean {
+  return (
+    currentAuthor !== '' && decodeHtmlEntities(message.author) === currentAuthor
+  );
+}
+
+/**
+ * Key of a rendered row: a message id or a day separator key.
+ */
+function getRowKey(row: Element): string | null {
+  return row.getAttribute('data-message-id') ?? row.getAttribute('data-day');
+}
+
+interface DaySeparatorProps {
+  row: Extract<MessageListRow, { type: 'day' }>;
+  posInSet: number;
+  setSize: number;
+}
+
+/**
+ * A list item with the day as a heading, so screen reader users can move
+ * between days with heading navigation. The label follows the clock
+ * ("Today" becomes "Yesterday" at midnight).
+ */
+function DaySeparator({ row, posInSet, setSize }: DaySeparatorProps) {
+  const { timeZone } = usePreferences();
+  const now = useNow();
+
+  return (
+    <li
+      className={styles.daySeparator}
+      data-day={row.key}
+      aria-posinset={posInSet}
+      aria-setsize={setSize}
+    >
+      <h2 className={styles.dayLabel}>
+        <time dateTime={row.date}>
+          {formatDayLabel(row.date, now, timeZone)}
+        </time>
+      </h2>
+    </li>
+  );
+}
+
+/**
+ * Finds the rendered element of a message inside the list container.
+ */
+function findMessageElement(
+  container: HTMLElement,
+  messageId: string
+): HTMLElement | null {
+  return container.querySelector<HTMLElement>(
+    `[data-message-id="${CSS.escape(messageId)}"]`
+  );
+}
+
 export function MessageList({
-  messages,
-  currentAuthor,
+  conversationId,
   isLoading = false,
+  loadingMessage,
 }: MessageListProps) {
+  const currentAuthor = useCurrentAuthor();
+  const { t } = useTranslation();
+  const messages = useMessages();
+  const { hasMoreHistory, olderStatus } = useHistoryState();
+  const {
+    loadOlder,
+    retryMessage,
+    discardMessage,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+  } = useChatActions();
+  const { getSavedScroll, saveScroll } = useScrollMemory(conversationId);
+  const [, setReplyTarget] = useReplyTarget(conversationId);
+  const messagesById = useChatStore(selectMessagesById);
+  const { timeZone } = usePreferences();
+  const [highlightedMessageId, setHighlightedMessageId] = useState<
+    string | null
+  >(null);
+
   const containerRef = useRef<HTMLElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
   const wasNearBottomRef = useRef<boolean>(true);
+  const pendingJumpRef = useRef<string | null>(null);
+
+  /**
+   * Day separators and messages, grouped by author.
+   */
+  const rows = useMemo(
+    () => groupMessages(messages, uiConfig.messageGroupWindowMs, timeZone),
+    [messages, timeZone]
+  );
+  const rowKeys = useMemo(() => rows.map(row => row.key), [rows]);
+
+  /**
+   * Only the messages around the viewport are rendered. The list also keeps
+   * the viewport anchored when content is inserted above it (older messages
+   * prepended, the history status row shown or hidden) and stays at the
+   * bottom while messages grow there, as long as the user is near it.
+   */
+  const virtualList = useVirtualList({
+    containerRef,
+    listRef,
+    keys: rowKeys,
+    getRowKey,
+    heightCache: getMessageHeights(conversationId),
+    shouldStickToBottom: () => wasNearBottomRef.current,
+  });
+
+  /**
+   * Forgets the heights of rows no longer in the list.
+   */
+  useEffect(() => {
+    const heights = getMessageHeights(conversationId);
+    const keys = new Set(rowKeys);
+
+    heights.forEach((_, key) => {
+      if (!keys.has(key)) {
+        heights.delete(key);
+      }
+    });
+  }, [conversationId, rowKeys]);
+
+  const canLoadOlder =
+    !isLoading && hasMoreHistory && olderStatus !== 'loading';
 
   const [
     hasNewMessagesWhileAwayFromBottom,
@@ -30,8 +209,8 @@ export function MessageList({
   const previousMessagesRef = useRef<ReadonlyArray<ChatMessage>>([]);
   const isInitialLoadRef = useRef<boolean>(true);
 
-  const firstMessageIndex = messages.length > 0 ? 0 : -1;
-  const lastMessageIndex = messages.length > 0 ? messages.length - 1 : -1;
+  const firstMessageId = messages[0]?._id;
+  const lastMessageId = messages[messages.length - 1]?._id;
 
   const isNearBottom = (): boolean => {
     const container = containerRef.current;
@@ -69,13 +248,77 @@ export function MessageList({
     });
   };
 
+  /**
+   * Brings a rendered message into view, moves focus to it and highlights
+   * it briefly.
+   */
+  const revealMessage = (element: HTMLElement, messageId: string) => {
+    const prefersReducedMotion = window.matchMedia(
+      '(prefers-reduced-motion: reduce)'
+    ).matches;
+
+    element.scrollIntoView({
+      block: 'center',
+      behavior: prefersReducedMotion ? 'auto' : 'smooth',
+    });
+    element.focus({ preventScroll: true });
+    setHighlightedMessageId(messageId);
+  };
+
+  /**
+   * Jumps to a message (the parent of a reply). A message outside the
+   * rendered range is scrolled to first and revealed once it renders.
+   */
+  const jumpToMessage = (messageId: string) => {
+    const container = containerRef.current;
+    const element = container && findMessageElement(container, messageId);
+
+    if (element) {
+      revealMessage(element, messageId);
+    } else if (virtualList.scrollToKey(messageId)) {
+      pendingJumpRef.current = messageId;
+    }
+  };
+
+  /**
+   * Finishes a jump once its message is rendered.
+   */
+  useLayoutEffect(() => {
+    const messageId = pendingJumpRef.current;
+    const container = containerRef.current;
+    const element =
+      messageId && container && findMessageElement(container, messageId);
+
+    if (messageId && element) {
+      pendingJumpRef.current = null;
+      queueMicrotask(() => {
+        revealMessage(element, messageId);
+      });
+    }
+  });
+
+  useEffect(() => {
+    if (!highlightedMessageId) {
+      return;
+    }
+
+    const timeoutId = setTimeout(() => {
+      setHighlightedMessageId(null);
+    }, HIGHLIGHT_DURATION_MS);
+
+    return () => {
+      clearTimeout(timeoutId);
+    };
+  }, [highlightedMessageId]);
+
   const handleNewMessagesClick = () => {
     scrollToBottom();
     scheduleSetHasNewMessagesWhileAwayFromBottom(false);
   };
 
   /**
-   * Handles scroll events to track if user is near bottom.
+   * Handles scroll events to track if user is near bottom,
+   * and requests older messages when the user reaches the top.
    */
   useEffect(() => {
     const container = containerRef.current;
@@ -85,22 +328,33 @@ export function MessageList({
 
     const handleScroll = () => {
       wasNearBottomRef.current = isNearBottom();
+      saveScroll({
+        scrollTop: container.scrollTop,
+        isNearBottom: wasNearBottomRef.current,
+      });
+
       if (wasNearBottomRef.current) {
         scheduleSetHasNewMessagesWhileAwayFromBottom(false);
       }
+
+      if (canLoadOlder && container.scrollTop <= NEAR_TOP_THRESHOLD) {
+        void loadOlder();
+      }
     };
 
     container.addEventListener('scroll', handleScroll);
     return () => {
       container.removeEventListener('scroll', handleScroll);
     };
-  }, []);
+  }, [canLoadOlder, loadOlder, saveScroll]);
 
   /**
    * Auto-scroll effect: runs when messages change.
    * - If a new message is from current user: (show their own message)
    * - If a new message is from other user: Only show indicator if user is away from bottom
    * - Skip indicator logic on initial load (when messages first populate)
+   * - On initial load, restore the position saved for this conversation
+   *   unless it was at the bottom
    *
    */
   useEffect(() => {
@@ -110,14 +364,31 @@ export function MessageList({
       if (!isLoading && messages.length > 0) {
         isInitialLoadRef.current = false;
         previousMessagesRef.current = messages;
-        scrollToBottom();
+
+        const savedScroll = getSavedScroll();
+        const container = containerRef.current;
+
+        if (savedScroll && !savedScroll.isNearBottom && container) {
+          container.scrollTop = savedScroll.scrollTop;
+          wasNearBottomRef.current = false;
+        } else {
+          scrollToBottom();
+        }
       }
       return;
     }
 
+    /**
+     * Only messages at or after the previous newest one count as new;
+     * older messages prepended by history loading don't.
+     */
     const previousMessageIds = new Set(previousMessages.map(msg => msg._id));
+    const previousNewestMessage = previousMessages[previousMessages.length - 1];
     const newMessages = messages.filter(
-      msg => !previousMessageIds.has(msg._id)
+      msg =>
+        !previousMessageIds.has(msg._id) &&
+        (!previousNewestMessage ||
+          msg.createdAtMs >= previousNewestMessage.createdAtMs)
     );
 
     if (newMessages.length === 0) {
@@ -125,12 +396,12 @@ export function MessageList({
       return;
     }
 
-    const hasNewMessageFromCurrentUser = newMessages.some(
-      msg => msg.author === currentAuthor
+    const hasNewMessageFromCurrentUser = newMessages.some(msg =>
+      isOwnMessage(msg, currentAuthor)
     );
 
     const hasNewMessageFromOthers = newMessages.some(
-      msg => msg.author !== currentAuthor
+      msg => !isOwnMessage(msg, currentAuthor)
     );
 
     if (hasNewMessageFromCurrentUser) {
@@ -146,58 +417,154 @@ export function MessageList({
     }
 
     previousMessagesRef.current = messages;
-  }, [messages, currentAuthor, isLoading]);
+  }, [messages, currentAuthor, isLoading, getSavedScroll]);
 
   const isOutgoing = (message: ChatMessage): boolean => {
-    return message.author === currentAuthor;
+    return isOwnMessage(message, currentAuthor);
   };
 
   return (
-    <section aria-label="Messages" className={styles.root} ref={containerRef}>
+    <section
+      aria-label={t('list.label')}
+      className={styles.root}
+      ref={containerRef}
+    >
       {isLoading && (
         <div className={styles.loading} role="status" aria-live="polite">
-          Loading messages...
+          {loadingMessage ?? t('chat.loading')}
         </div>
       )}
 
       {!isLoading && messages.length === 0 && (
         <div className={styles.empty}>
           <div className={styles.emptyContent}>
-            <p className={styles.emptyTitle}>No messages yet</p>
-            <p className={styles.emptyMessage}>
-              Start the conversation by sending a message.
-            </p>
+            <p className={styles.emptyTitle}>{t('list.emptyTitle')}</p>
+            <p className={styles.emptyMessage}>{t('list.emptyMessage')}</p>
           </div>
         </div>
       )}
 
       {!isLoading && messages.length > 0 && (
         <>
-          <ul className={styles.list}>
-            {messages.map((message, index) => {
-              const outgoing = isOutgoing(message);
-              const isFirstMessage = index === firstMessageIndex;
-              const isLastMessage = index === lastMessageIndex;
-
-              return (
-                <MessageItem
-                  key={message._id}
-                  message={message}
-                  isOutgoing={outgoing}
-                  isFirstMessage={isFirstMessage}
-                  isLastMessage={isLastMessage}
-                />
-              );
-            })}
+          <div className={styles.history}>
+            {olderStatus === 'loading' && (
+              <p className={styles.historyStatus} role="status">
+                {t('list.loadingOlder')}
+              </p>
+            )}
+
+            {olderStatus === 'error' && (
+              <div className={styles.historyStatus} role="alert">
+                <span>{t('list.olderError')}</span>{' '}
+                <button
+                  type="button"
+                  className={styles.historyButton}
+                  onClick={() => void loadOlder()}
+                >
+                  {t('list.retry')}
+                </button>
+              </div>
+            )}
+
+            {olderStatus !== 'loading' &&
+              olderStatus !== 'error' &&
+              hasMoreHistory && (
+                <button
+                  type="button"
+                  className={styles.historyButton}
+                  onClick={() => void loadOlder()}
+                  disabled={!canLoadOlder}
+                >
+                  {t('list.loadOlder')}
+                </button>
+              )}
+
+            {!hasMoreHistory && olderStatus !== 'loading' && (
+              <p className={styles.historyStatus}>{t('list.beginning')}</p>
+            )}
+          </div>
+
+          <ul
+            className={styles.list}
+            ref={listRef}
+            style={{
+              paddingTop: virtualList.paddingTop,
+              paddingBottom: virtualList.paddingBottom,
+            }}
+          >
+            {rows
+              .slice(virtualList.start, virtualList.end)
+              .map((row, offset) => {
+                const index = virtualList.start + offset;
+
+                if (row.type === 'day') {
+                  return (
+                    <DaySeparator
+                      key={row.key}
+                      row={row}
+                      posInSet={index + 1}
+                      setSize={rows.length}
+                    />
+                  );
+                }
+
+                const { message } = row;
+                const outgoing = isOutgoing(message);
+                const isFirstMessage = message._id === firstMessageId;
+                const isLastMessage = message._id === lastMessageId;
+                const canChange = outgoing && isEditable(message);
+                const canRespond =
+                  !isLocalMessage(message) && !message.deletedAt;
+
+                return (
+                  <MessageItem
+                    key={message._id}
+                    message={message}
+                    isOutgoing={outgoing}
+                    isFirstMessage={isFirstMessage}
+                    isLastMessage={isLastMessage}
+                    showAuthor={row.isGroupStart}
+                    showTimestamp={row.isGroupEnd}
+                    onRetry={messageId => void retryMessage(messageId)}
+                    onDiscard={discardMessage}
+                    onEdit={
+                      canChange
+                        ? (messageId, text) => void editMessage(messageId, text)
+                        : undefined
+                    }
+                    onDelete={
+                      canChange
+                        ? messageId => void deleteMessage(messageId)
+                        : undefined
+                    }
+                    onReply={canRespond ? setReplyTarget : undefined}
+                    onToggleReaction={
+                      canRespond
+                        ? (messageId, emoji) =>
+                            void toggleReaction(messageId, emoji, currentAuthor)
+                        : undefined
+                    }
+                    replyParent={
+                      message.replyTo
+                        ? messagesById[message.replyTo]
+                        : undefined
+                    }
+                    onQuoteClick={jumpToMessage}
+                    isHighlighted={message._id === highlightedMessageId}
+                    posInSet={index + 1}
+                    setSize={rows.length}
+                  />
+                );
+              })}
           </ul>
           {hasNewMessagesWhileAwayFromBottom && (
             <button
               type="button"
               className={styles.newMessagesIndicator}
               onClick={handleNewMessagesClick}
-              aria-label="Scroll to new messages"
+              aria-label={t('list.scrollToNew')}
             >
-              New messages
+              {t('list.newMessages')}
             </button>
           )}
         </>
@@ -0,0 +1,78 @@
+/**
+ * MessageReactions Component
+ * Aggregated reactions under a message: one toggle per emoji with its
+ * count, and the reacting authors in a tooltip (shown on hover and on
+ * keyboard focus, and announced as the button's description).
+ *
+ */
+
+import { useId } from 'react';
+import { useCurrentAuthor } from '@hooks/useIdentity';
+import { useTranslation } from '@hooks/useTranslation';
+import type { MessageReaction } from '@models/message';
+import { decodeHtmlEntities } from '@utils/html-entities';
+import { describeReactionAuthors, getReactionLabel } from '@utils/reactions';
+import styles from './MessageReactions.module.css';
+
+export interface MessageReactionsProps {
+  messageId: string;
+  reactions: ReadonlyArray<MessageReaction>;
+  /** Absent when the message can't be reacted to: reactions are read-only */
+  onToggle?: (messageId: string, emoji: string) => void;
+}
+
+/**
+ * @param props - Component props
+ * @returns The reaction list, or nothing without reactions
+ */
+export function MessageReactions({
+  messageId,
+  reactions,
+  onToggle,
+}: MessageReactionsProps) {
+  const currentAuthor = useCurrentAuthor();
+  const { t } = useTranslation();
+  const idPrefix = useId();
+
+  if (reactions.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className={styles.root} aria-label={t('reactions.label')}>
+      {reactions.map((reaction, index) => {
+        const count = reaction.authors.length;
+        const isOwn = reaction.authors.some(
+          author => decodeHtmlEntities(author) === currentAuthor
+        );
+        const label = t('reactions.count', {
+          emoji: getReactionLabel(reaction.emoji),
+          count,
+        });
+        const tooltipId = `${idPrefix}-${index}`;
+
+        return (
+          <li key={reaction.emoji} className={styles.item}>
+            <button
+              type="button"
+              className={`${styles.chip} ${isOwn ? styles.chipOwn : ''}`}
+              onClick={() => onToggle?.(messageId, reaction.emoji)}
+              disabled={!onToggle}
+              aria-pressed={isOwn}
+              aria-label={label}
+              aria-describedby={tooltipId}
+            >
+              <span aria-hidden="true">{reaction.emoji}</span>
+              <span aria-hidden="true" className={styles.count}>
+                {count}
+              </span>
+            </button>
+            <span id={tooltipId} role="tooltip" className={styles.tooltip}>
+              {describeReactionAuthors(reaction.authors, currentAuthor)}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
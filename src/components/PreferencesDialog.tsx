@@ -0,0 +1,202 @@
+/**
+ * PreferencesDialog Component
+ * Modal dialog (native <dialog>) for the display preferences: the
+ * language, the theme, how message times are shown and in which time zone. Changes
+ * apply (and are saved) right away.
+ *
+ */
+
+import { useEffect, useId, useRef } from 'react';
+import { usePreferences } from '@hooks/usePreferences';
+import { useTranslation } from '@hooks/useTranslation';
+import { detectBrowserLocale } from '@i18n/i18n';
+import { LOCALES, type Locale } from '@i18n/locales';
+import {
+  HourCycle,
+  ThemeMode,
+  TimeDisplay,
+  preferences,
+} from '@preferences/preferences';
+import styles from './PreferencesDialog.module.css';
+
+export interface PreferencesDialogProps {
+  onClose: () => void;
+}
+
+const DEVICE_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const TIME_ZONES = Intl.supportedValuesOf('timeZone');
+
+const LOCALE_CODES = Object.keys(LOCALES) as Locale[];
+
+/**
+ * Rendered only while open: mounting opens it as a modal, which traps
+ * focus and closes on Escape.
+ */
+export function PreferencesDialog({ onClose }: PreferencesDialogProps) {
+  const { timeDisplay, hourCycle, timeZone, locale, theme } = usePreferences();
+  const { t } = useTranslation();
+  const dialogRef = useRef<HTMLDialogElement>(null);
+  const localeId = useId();
+  const themeId = useId();
+  const timeDisplayId = useId();
+  const hourCycleId = useId();
+  const timeZoneId = useId();
+
+  /**
+   * A saved zone the runtime lists under another name stays selectable.
+   */
+  const timeZones =
+    timeZone && !TIME_ZONES.includes(timeZone)
+      ? [timeZone, ...TIME_ZONES]
+      : TIME_ZONES;
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    dialog?.showModal();
+
+    return () => {
+      dialog?.close();
+    };
+  }, []);
+
+  return (
+    <dialog
+      ref={dialogRef}
+      className={styles.root}
+      aria-labelledby="preferences-title"
+      onClose={onClose}
+    >
+      <h2 id="preferences-title" className={styles.title}>
+        {t('preferences.title')}
+      </h2>
+      <p className={styles.message}>{t('preferences.description')}</p>
+
+      <div className={styles.field}>
+        <label htmlFor={localeId} className={styles.label}>
+          {t('preferences.language')}
+        </label>
+        <select
+          id={localeId}
+          className={styles.select}
+          value={locale}
+          onChange={changeEvent =>
+            preferences.set({ locale: changeEvent.target.value as Locale })
+          }
+        >
+          <option value="">
+            {t('preferences.languageAuto', {
+              language: LOCALES[detectBrowserLocale()].name,
+            })}
+          </option>
+          {LOCALE_CODES.map(code => (
+            <option key={code} value={code} lang={code}>
+              {LOCALES[code].name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className={styles.field}>
+        <label htmlFor={themeId} className={styles.label}>
+          {t('preferences.theme')}
+        </label>
+        <select
+          id={themeId}
+          className={styles.select}
+          value={theme}
+          onChange={changeEvent =>
+            preferences.set({ theme: changeEvent.target.value as ThemeMode })
+          }
+        >
+          <option value={ThemeMode.SYSTEM}>
+            {t('preferences.themeSystem')}
+          </option>
+          <option value={ThemeMode.LIGHT}>{t('preferences.themeLight')}</option>
+          <option value={ThemeMode.DARK}>{t('preferences.themeDark')}</option>
+          <option value={ThemeMode.HIGH_CONTRAST}>
+            {t('preferences.themeHighContrast')}
+          </option>
+        </select>
+      </div>
+
+      <div className={styles.field}>
+        <label htmlFor={timeDisplayId} className={styles.label}>
+          {t('preferences.timeDisplay')}
+        </label>
+        <select
+          id={timeDisplayId}
+          className={styles.select}
+          value={timeDisplay}
+          onChange={changeEvent =>
+            preferences.set({
+              timeDisplay: changeEvent.target.value as TimeDisplay,
+            })
+          }
+        >
+          <option value={TimeDisplay.ABSOLUTE}>
+            {t('preferences.timeDisplayAbsolute')}
+          </option>
+          <option value={TimeDisplay.RELATIVE}>
+            {t('preferences.timeDisplayRelative')}
+          </option>
+        </select>
+      </div>
+
+      <div className={styles.field}>
+        <label htmlFor={hourCycleId} className={styles.label}>
+          {t('preferences.hourCycle')}
+        </label>
+        <select
+          id={hourCycleId}
+          className={styles.select}
+          value={hourCycle}
+          onChange={changeEvent =>
+            preferences.set({
+              hourCycle: changeEvent.target.value as HourCycle,
+            })
+          }
+        >
+          <option value={HourCycle.AUTO}>
+            {t('preferences.hourCycleAuto')}
+          </option>
+          <option value={HourCycle.H12}>{t('preferences.hourCycle12')}</option>
+          <option value={HourCycle.H24}>{t('preferences.hourCycle24')}</option>
+        </select>
+      </div>
+
+      <div className={styles.field}>
+        <label htmlFor={timeZoneId} className={styles.label}>
+          {t('preferences.timeZone')}
+        </label>
+        <select
+          id={timeZoneId}
+          className={styles.select}
+          value={timeZone}
+          onChange={changeEvent =>
+            preferences.set({ timeZone: changeEvent.target.value })
+          }
+        >
+          <option value="">
+            {t('preferences.timeZoneDevice', { timeZone: DEVICE_TIME_ZONE })}
+          </option>
+          {timeZones.map(zone => (
+            <option key={zone} value={zone}>
+              {zone.replaceAll('_', ' ')}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className={styles.actions}>
+        <button
+          type="button"
+          className={styles.primaryButton}
+          onClick={onClose}
+        >
+          {t('preferences.done')}
+        </button>
+      </div>
+    </dialog>
+  );
+}
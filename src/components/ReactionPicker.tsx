@@ -0,0 +1,103 @@
+/**
+ * ReactionPicker Component
+ * Row of emoji buttons for reacting to a message, following the toolbar
+ * pattern: one tab stop, arrow keys (and Home/End) move between emojis,
+ * Escape closes. Emojis the user already reacted with are pressed;
+ * choosing one again removes the reaction.
+ *
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useTranslation } from '@hooks/useTranslation';
+import { REACTION_OPTIONS } from '@utils/reactions';
+import styles from './ReactionPicker.module.css';
+
+export interface ReactionPickerProps {
+  id: string;
+  /** Emojis the user has already reacted with */
+  selectedEmojis: ReadonlyArray<string>;
+  onSelect: (emoji: string) => void;
+  /**
+   * Called on Escape (`returnFocus` true: focus goes back to the trigger)
+   * or when focus leaves the picker (false)
+   */
+  onDismiss: (returnFocus: boolean) => void;
+}
+
+/**
+ * @param props - Component props
+ * @returns The picker toolbar (focuses its first emoji on mount)
+ */
+export function ReactionPicker({
+  id,
+  selectedEmojis,
+  onSelect,
+  onDismiss,
+}: ReactionPickerProps) {
+  const { t } = useTranslation();
+  const [activeIndex, setActiveIndex] = useState(0);
+  const optionRefs = useRef<Array<HTMLButtonElement | null>>([]);
+
+  useEffect(() => {
+    optionRefs.current[activeIndex]?.focus();
+  }, [activeIndex]);
+
+  const handleKeyDown = (keyEvent: React.KeyboardEvent<HTMLDivElement>) => {
+    const lastIndex = REACTION_OPTIONS.length - 1;
+    const nextIndex = {
+      ArrowRight: activeIndex === lastIndex ? 0 : activeIndex + 1,
+      ArrowLeft: activeIndex === 0 ? lastIndex : activeIndex - 1,
+      Home: 0,
+      End: lastIndex,
+    }[keyEvent.key];
+
+    if (nextIndex !== undefined) {
+      keyEvent.preventDefault();
+      setActiveIndex(nextIndex);
+      return;
+    }
+
+    if (keyEvent.key === 'Escape') {
+      keyEvent.preventDefault();
+      onDismiss(true);
+    }
+  };
+
+  /**
+   * Clicking or tabbing elsewhere closes the picker without moving focus.
+   */
+  const handleBlur = (focusEvent: React.FocusEvent<HTMLDivElement>) => {
+    if (!focusEvent.currentTarget.contains(focusEvent.relatedTarget)) {
+      onDismiss(false);
+    }
+  };
+
+  return (
+    <div
+      id={id}
+      role="toolbar"
+      aria-label={t('reactions.picker')}
+      className={styles.root}
+      onKeyDown={handleKeyDown}
+      onBlur={handleBlur}
+    >
+      {REACTION_OPTIONS.map((option, index) => (
+        <button
+          key={option.emoji}
+          ref={element => {
+            optionRefs.current[index] = element;
+          }}
+          type="button"
+          className={styles.option}
+          tabIndex={index === activeIndex ? 0 : -1}
+          aria-label={t(option.labelKey)}
+          aria-pressed={selectedEmojis.includes(option.emoji)}
+          onClick={() => onSelect(option.emoji)}
+          onFocus={() => setActiveIndex(index)}
+        >
+          <span aria-hidden="true">{option.emoji}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
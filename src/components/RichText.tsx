@@ -0,0 +1,126 @@
+/**
+ * RichText Component
+ * Renders a message body with its markdown subset formatting (see
+ * @utils/markdown). Every node becomes a React element, so message text is
+ * never interpreted as HTML. Links open in a new tab without access to this
+ * page (`rel="noopener noreferrer"`).
+ *
+ * With `plainText` (the default when VITE_RICH_TEXT=false) the text is shown
+ * as is.
+ *
+ */
+
+import { useMemo, type ReactNode } from 'react';
+import { uiConfig } from '@config/env';
+import type { BlockNode, InlineNode } from '@models/markdown';
+import { parseMarkdown } from '@utils/markdown';
+import styles from './RichText.module.css';
+
+export interface RichTextProps {
+  /** Decoded message text */
+  text: string;
+  /** Show the text without formatting */
+  plainText?: boolean;
+  className?: string;
+}
+
+function renderInline(node: InlineNode, key: number): ReactNode {
+  switch (node.type) {
+    case 'text':
+      return node.text;
+    case 'strong':
+      return <strong key={key}>{node.children.map(renderInline)}</strong>;
+    case 'emphasis':
+      return <em key={key}>{node.children.map(renderInline)}</em>;
+    case 'code':
+      return (
+        <code key={key} className={styles.inlineCode}>
+          {node.text}
+        </code>
+      );
+    case 'link':
+      return (
+        <a
+          key={key}
+          href={node.href}
+          className={styles.link}
+          target="_blank"
+          rel="noopener noreferrer"
+        >
+          {node.href}
+        </a>
+      );
+    case 'break':
+      return <br key={key} />;
+  }
+}
+
+function renderBlock(block: BlockNode, key: number): ReactNode {
+  switch (block.type) {
+    case 'paragraph':
+      return (
+        <p key={key} className={styles.paragraph}>
+          {block.children.map(renderInline)}
+        </p>
+      );
+    case 'code-block':
+      return (
+        <pre key={key} className={styles.codeBlock}>
+          <code data-language={block.language}>{block.text}</code>
+        </pre>
+      );
+    case 'blockquote':
+      return (
+        <blockquote key={key} className={styles.blockquote}>
+          {block.children.map(renderBlock)}
+        </blockquote>
+      );
+    case 'list': {
+      const items = block.items.map((item, index) => (
+        <li key={index}>{item.map(renderInline)}</li>
+      ));
+
+      return block.ordered ? (
+        <ol
+          key={key}
+          className={styles.list}
+          start={block.start !== 1 ? block.start : undefined}
+        >
+          {items}
+        </ol>
+      ) : (
+        <ul key={key} className={styles.list}>
+          {items}
+        </ul>
+      );
+    }
+  }
+}
+
+/**
+ * @param props - Component props
+ * @returns The formatted text
+ */
+export function RichText({
+  text,
+  plainText = !uiConfig.richText,
+  className = '',
+}: RichTextProps) {
+  /**
+   * Parsing is the costly part; it only reruns when the text changes.
+   */
+  const blocks = useMemo(
+    () => (plainText ? [] : parseMarkdown(text)),
+    [text, plainText]
+  );
+
+  if (plainText) {
+    return <p className={`${styles.plain} ${className}`.trim()}>{text}</p>;
+  }
+
+  return (
+    <div className={`${styles.root} ${className}`.trim()}>
+      {blocks.map(renderBlock)}
+    </div>
+  );
+}
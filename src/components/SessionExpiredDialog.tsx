@@ -0,0 +1,56 @@
+/**
+ * SessionExpiredDialog Component
+ * Modal sign-in shown over the chat when the server rejects the session.
+ * Closes by itself once the session is active again.
+ *
+ */
+
+import { useEffect, useRef } from 'react';
+import { TokenForm } from '@components/TokenForm';
+import { useTranslation } from '@hooks/useTranslation';
+import styles from './SessionExpiredDialog.module.css';
+
+export interface SessionExpiredDialogProps {
+  initialRemember: boolean;
+}
+
+/**
+ * Rendered only while the session is expired. Escape doesn't dismiss it:
+ * nothing can be loaded or sent until the user signs in.
+ */
+export function SessionExpiredDialog({
+  initialRemember,
+}: SessionExpiredDialogProps) {
+  const { t } = useTranslation();
+  const dialogRef = useRef<HTMLDialogElement>(null);
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    dialog?.showModal();
+
+    return () => {
+      dialog?.close();
+    };
+  }, []);
+
+  return (
+    <dialog
+      ref={dialogRef}
+      className={styles.root}
+      aria-labelledby="session-expired-title"
+      aria-describedby="session-expired-message"
+      onCancel={cancelEvent => cancelEvent.preventDefault()}
+    >
+      <h2 id="session-expired-title" className={styles.title}>
+        {t('signIn.expiredTitle')}
+      </h2>
+      <p id="session-expired-message" className={styles.message}>
+        {t('signIn.expiredMessage')}
+      </p>
+      <TokenForm
+        submitLabel={t('signIn.submit')}
+        initialRemember={initialRemember}
+      />
+    </dialog>
+  );
+}
@@ -0,0 +1,48 @@
+/**
+ * SessionGate Component
+ * Renders the sign-in screen until there is a session, then the app.
+ *
+ * An expired session keeps the app mounted under a sign-in dialog, so
+ * composer drafts, scroll positions and queued messages survive signing
+ * in again.
+ *
+ */
+
+import { useSession } from '@hooks/useSession';
+import { useTranslation } from '@hooks/useTranslation';
+import { SessionStatus } from '@session/session';
+import { TokenForm } from '@components/TokenForm';
+import { SessionExpiredDialog } from '@components/SessionExpiredDialog';
+import styles from './SessionGate.module.css';
+
+export interface SessionGateProps {
+  children: React.ReactNode;
+}
+
+export function SessionGate({ children }: SessionGateProps) {
+  const { status, remember } = useSession();
+  const { t } = useTranslation();
+
+  if (status === SessionStatus.SIGNED_OUT) {
+    return (
+      <main className={styles.root} aria-labelledby="sign-in-title">
+        <div className={styles.card}>
+          <h1 id="sign-in-title" className={styles.title}>
+            {t('signIn.title')}
+          </h1>
+          <p className={styles.message}>{t('signIn.message')}</p>
+          <TokenForm submitLabel={t('signIn.submit')} />
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <>
+      {children}
+      {status === SessionStatus.EXPIRED && (
+        <SessionExpiredDialog initialRemember={remember} />
+      )}
+    </>
+  );
+}
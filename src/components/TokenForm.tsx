@@ -0,0 +1,121 @@
+/**
+ * TokenForm Component
+ * API token input with a "remember me" option, shared by the sign-in
+ * screen and the session-expired dialog. The token is checked with the
+ * server before the session starts.
+ *
+ */
+
+import { useId, useState } from 'react';
+import { useSignIn } from '@hooks/useSession';
+import { useTranslation } from '@hooks/useTranslation';
+import { apiConfig } from '@config/env';
+import { FAKE_API_TOKEN } from '@mocks/fake-chat-backend';
+import { describeError } from '@utils/describe-error';
+import styles from './TokenForm.module.css';
+
+export interface TokenFormProps {
+  submitLabel: string;
+  /** Initial state of the "remember me" checkbox */
+  initialRemember?: boolean;
+}
+
+export function TokenForm({
+  submitLabel,
+  initialRemember = false,
+}: TokenFormProps) {
+  const { signIn, status, error } = useSignIn();
+  const { t } = useTranslation();
+  const [token, setToken] = useState('');
+  const [remember, setRemember] = useState(initialRemember);
+  const [isTokenMissing, setIsTokenMissing] = useState(false);
+  const tokenId = useId();
+  const rememberId = useId();
+  const errorId = useId();
+  const hintId = useId();
+
+  const isVerifying = status === 'loading';
+  const errorMessage = isTokenMissing
+    ? t('signIn.tokenMissing')
+    : status === 'error' && error
+      ? describeError(error, 'sign-in').message
+      : null;
+
+  /**
+   * The fake backend accepts a fixed token; show it so offline development
+   * doesn't need any setup.
+   */
+  const hint =
+    apiConfig.useFakeApi && !apiConfig.token
+      ? t('signIn.fakeTokenHint', { token: FAKE_API_TOKEN })
+      : null;
+
+  const handleSubmit = (formEvent: React.FormEvent<HTMLFormElement>) => {
+    formEvent.preventDefault();
+
+    const isMissing = token.trim().length === 0;
+    setIsTokenMissing(isMissing);
+
+    if (!isMissing) {
+      void signIn(token, { remember });
+    }
+  };
+
+  return (
+    <form
+      className={styles.root}
+      onSubmit={handleSubmit}
+      aria-busy={isVerifying}
+      noValidate
+    >
+      <label htmlFor={tokenId} className={styles.label}>
+        {t('signIn.tokenLabel')}
+      </label>
+      <input
+        id={tokenId}
+        type="password"
+        className={styles.input}
+        value={token}
+        onChange={changeEvent => setToken(changeEvent.target.value)}
+        autoComplete="current-password"
+        spellCheck={false}
+        aria-invalid={errorMessage !== null}
+        aria-describedby={
+          [errorMessage ? errorId : '', hint ? hintId : '']
+            .filter(Boolean)
+            .join(' ') || undefined
+        }
+        autoFocus
+      />
+      {hint && (
+        <p id={hintId} className={styles.hint}>
+          {hint}
+        </p>
+      )}
+      {errorMessage && (
+        <p id={errorId} role="alert" className={styles.error}>
+          {errorMessage}
+        </p>
+      )}
+
+      <div className={styles.remember}>
+        <input
+          id={rememberId}
+          type="checkbox"
+          className={styles.checkbox}
+          checked={remember}
+          onChange={changeEvent => setRemember(changeEvent.target.checked)}
+        />
+        <label htmlFor={rememberId}>{t('signIn.remember')}</label>
+      </div>
+
+      <button
+        type="submit"
+        className={styles.submitButton}
+        disabled={isVerifying}
+      >
+        {isVerifying ? t('signIn.checking') : submitLabel}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+/**
+ * Loads the config module with the given realtime settings (the config is
+ * read once, when the module loads).
+ */
+async function loadConfig(transport: string, url: string) {
+  vi.resetModules();
+  vi.stubEnv('VITE_API_BASE_URL', 'https://api.example.com/v1');
+  vi.stubEnv('VITE_USE_FAKE_API', 'false');
+  vi.stubEnv('VITE_REALTIME_TRANSPORT', transport);
+  vi.stubEnv('VITE_REALTIME_URL', url);
+
+  return import('./env');
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('validateApiConfig', () => {
+  describe('realtime URL', () => {
+    it.each([
+      ['websocket', 'wss://chat.example.com/events'],
+      ['websocket', 'ws://localhost:3001/events'],
+      ['sse', 'https://chat.example.com/events'],
+    ])('accepts a %s URL like %s', async (transport, url) => {
+      const { validateApiConfig } = await loadConfig(transport, url);
+
+      expect(() => validateApiConfig()).not.toThrow();
+    });
+
+    it('rejects a URL that does not parse', async () => {
+      const { validateApiConfig } = await loadConfig(
+        'websocket',
+        'chat/events'
+      );
+
+      expect(() => validateApiConfig()).toThrow(
+        'Invalid realtime URL: chat/events'
+      );
+    });
+
+    it.each([
+      ['websocket', 'https://chat.example.com/events'],
+      ['sse', 'wss://chat.example.com/events'],
+    ])('rejects a %s URL like %s', async (transport, url) => {
+      const { validateApiConfig } = await loadConfig(transport, url);
+
+      expect(() => validateApiConfig()).toThrow(`Invalid realtime URL: ${url}`);
+    });
+
+    it('ignores the URL when polling', async () => {
+      const { validateApiConfig } = await loadConfig('polling', 'chat/events');
+
+      expect(() => validateApiConfig()).not.toThrow();
+    });
+  });
+});
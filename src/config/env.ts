@@ -13,7 +13,78 @@
  */
 export const apiConfig = {
   baseUrl: import.meta.env.VITE_API_BASE_URL ?? 'http://localhost:3000/api/v1',
-  token: import.meta.env.VITE_API_TOKEN ?? 'super-secret-doodle-token',
+  /**
+   * Optional token to start signed in with (development). Without it the
+   * app asks for a token on first run; see @session/session.
+   */
+  token: import.meta.env.VITE_API_TOKEN ?? '',
+  /**
+   * Default request timeout in milliseconds (0 disables the timeout)
+   */
+  timeoutMs: Number(import.meta.env.VITE_API_TIMEOUT_MS ?? 15000),
+  /**
+   * Serve the API from the in-process fake backend (src/mocks) instead of
+   * the network. Enable with VITE_USE_FAKE_API=true.
+   */
+  useFakeApi: import.meta.env.VITE_USE_FAKE_API === 'true',
+  /**
+   * Log the timing of every request attempt to the console. Enable with
+   * VITE_API_LOG_TIMINGS=true.
+   */
+  logTimings: import.meta.env.VITE_API_LOG_TIMINGS === 'true',
+} as const;
+
+/**
+ * Realtime (push) configuration.
+ *
+ */
+export const realtimeConfig = {
+  /**
+   * 'websocket', 'sse' or 'polling' (no push). Defaults to 'websocket' with
+   * the fake backend, which ships an in-process event server, and to
+   * 'polling' otherwise.
+   */
+  transport:
+    import.meta.env.VITE_REALTIME_TRANSPORT ??
+    (apiConfig.useFakeApi ? 'websocket' : 'polling'),
+  /**
+   * Event endpoint (ws(s):// for WebSocket, http(s):// for SSE)
+   */
+  url: import.meta.env.VITE_REALTIME_URL ?? '',
+} as const;
+
+/**
+ * Display configuration.
+ *
+ */
+export const uiConfig = {
+  /**
+   * Render message formatting (bold, code, lists, links, …). Set
+   * VITE_RICH_TEXT=false to show message bodies as plain text.
+   */
+  richText: import.meta.env.VITE_RICH_TEXT !== 'false',
+  /**
+   * Consecutive messages from the same author sent within this many
+   * milliseconds of each other are grouped (author shown once). Set in
+   * minutes with VITE_MESSAGE_GROUP_MINUTES; 0 disables grouping.
+   */
+  messageGroupWindowMs:
+    Number(import.meta.env.VITE_MESSAGE_GROUP_MINUTES ?? 5) * 60_000,
+} as const;
+
+/**
+ * Fake backend configuration (only read when apiConfig.useFakeApi is set).
+ *
+ */
+export const fakeApiConfig = {
+  /**
+   * Simulated response latency in milliseconds
+   */
+  latencyMs: Number(import.meta.env.VITE_FAKE_API_LATENCY_MS ?? 300),
+  /**
+   * Probability (0–1) that a request fails with a simulated error
+   */
+  failureRate: Number(import.meta.env.VITE_FAKE_API_FAILURE_RATE ?? 0),
 } as const;
 
 /**
@@ -31,15 +102,85 @@ export function validateApiConfig(): void {
     throw new Error('VITE_API_BASE_URL is required but not set');
   }
 
-  if (!apiConfig.token) {
-    throw new Error('VITE_API_TOKEN is required but not set');
-  }
-
   try {
     new URL(apiConfig.baseUrl);
   } catch {
     throw new Error(`Invalid API base URL: ${apiConfig.baseUrl}`);
   }
+
+  if (!Number.isFinite(apiConfig.timeoutMs) || apiConfig.timeoutMs < 0) {
+    throw new Error(
+      `Invalid API timeout: ${import.meta.env.VITE_API_TIMEOUT_MS}`
+    );
+  }
+
+  if (!['websocket', 'sse', 'polling'].includes(realtimeConfig.transport)) {
+    throw new Error(
+      `Invalid realtime transport: ${realtimeConfig.transport} (expected websocket, sse or polling)`
+    );
+  }
+
+  if (
+    realtimeConfig.transport !== 'polling' &&
+    !apiConfig.useFakeApi &&
+    !realtimeConfig.url
+  ) {
+    throw new Error(
+      'VITE_REALTIME_URL is required when VITE_REALTIME_TRANSPORT is websocket or sse'
+    );
+  }
+
+  if (realtimeConfig.transport !== 'polling' && realtimeConfig.url) {
+    const protocols =
+      realtimeConfig.transport === 'websocket'
+        ? ['ws:', 'wss:']
+        : ['http:', 'https:'];
+    let protocol: string;
+
+    try {
+      protocol = new URL(realtimeConfig.url).protocol;
+    } catch {
+      throw new Error(`Invalid realtime URL: ${realtimeConfig.url}`);
+    }
+
+    if (!protocols.includes(protocol)) {
+      throw new Error(
+        `Invalid realtime URL: ${realtimeConfig.url} (expected ${protocols.join(' or ')} for ${realtimeConfig.transport})`
+      );
+    }
+  }
+
+  if (
+    !Number.isFinite(uiConfig.messageGroupWindowMs) ||
+    uiConfig.messageGroupWindowMs < 0
+  ) {
+    throw new Error(
+      `Invalid message group window: ${import.meta.env.VITE_MESSAGE_GROUP_MINUTES}`
+    );
+  }
+
+  if (!apiConfig.useFakeApi) {
+    return;
+  }
+
+  if (
+    !Number.isFinite(fakeApiConfig.latencyMs) ||
+    fakeApiConfig.latencyMs < 0
+  ) {
+    throw new Error(
+      `Invalid fake API latency: ${import.meta.env.VITE_FAKE_API_LATENCY_MS}`
+    );
+  }
+
+  if (
+    !Number.isFinite(fakeApiConfig.failureRate) ||
+    fakeApiConfig.failureRate < 0 ||
+    fakeApiConfig.failureRate > 1
+  ) {
+    throw new Error(
+      `Invalid fake API failure rate: ${import.meta.env.VITE_FAKE_API_FAILURE_RATE}`
+    );
+  }
 }
 
 /**
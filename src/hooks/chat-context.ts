@@ -0,0 +1,13 @@
+/**
+ * Context carrying the chat controller of the conversation on screen.
+ *
+ * ChatScreen provides it for the routed conversation; the chat hooks below
+ * it read state and actions from that room. Without a provider the hooks
+ * use the default room.
+ */
+
+import { createContext } from 'react';
+import { getChatController, type ChatController } from '@store/chat-controller';
+
+export const ChatControllerContext =
+  createContext<ChatController>(getChatController());
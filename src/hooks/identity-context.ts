@@ -0,0 +1,16 @@
+/**
+ * Context carrying the local user's identity (see IdentityProvider).
+ */
+
+import { createContext } from 'react';
+import type { Identity } from '@models/identity';
+
+export interface IdentityContextValue {
+  /** Null until the user picked a display name */
+  readonly identity: Identity | null;
+
+  /** Sets and persists the display name (normalized; must be valid) */
+  readonly setDisplayName: (displayName: string) => void;
+}
+
+export const IdentityContext = createContext<IdentityContextValue | null>(null);
@@ -0,0 +1,58 @@
+/**
+ * Retains the chat controller of the current conversation (see
+ * ChatControllerContext) while the calling component is mounted.
+ *
+ * The first mounted consumer starts the initial load and live updates; the
+ * last one to unmount stops them. Any number of components can call this
+ * hook without duplicating requests.
+ */
+
+import { useContext, useEffect } from 'react';
+import type { ChatController } from '@store/chat-controller';
+import type { UseChatMessagesOptions } from '@models/hooks';
+import { ChatControllerContext } from './chat-context';
+
+/**
+ * Chat actions exposed by the controller (all bound, stable references).
+ */
+export type ChatActions = Pick<
+  ChatController,
+  | 'reload'
+  | 'loadOlder'
+  | 'sendMessage'
+  | 'retryMessage'
+  | 'discardMessage'
+  | 'editMessage'
+  | 'deleteMessage'
+  | 'toggleReaction'
+>;
+
+/**
+ * Chat actions without retaining the controller, for components rendered
+ * below a component that already does (e.g. MessageList under ChatScreen).
+ *
+ * @returns Chat actions
+ */
+export function useChatActions(): ChatActions {
+  return useContext(ChatControllerContext);
+}
+
+/**
+ * Custom hook to retain the chat controller.
+ *
+ * @param options - Live update configuration of this consumer
+ * @returns Chat actions
+ */
+export function useChatController({
+  liveUpdates = true,
+  pollIntervalMs,
+}: UseChatMessagesOptions = {}): ChatActions {
+  const chatController = useContext(ChatControllerContext);
+
+  useEffect(
+    () => chatController.retain({ liveUpdates, pollIntervalMs }),
+    [chatController, liveUpdates, pollIntervalMs]
+  );
+
+  return chatController;
+}
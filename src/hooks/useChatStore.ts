@@ -0,0 +1,185 @@
+/**
+ * Selector hooks over the message store of the current conversation (see
+ * ChatControllerContext).
+ *
+ * Components subscribe to just the slice they render, through
+ * useSyncExternalStore, instead of receiving chat state as props.
+ * A component re-renders only when its selected value changes.
+ *
+ * Reading state doesn't start loading: mount useChatMessages (or
+ * useChatController) somewhere above to retain the chat controller.
+ */
+
+import { useCallback, useContext, useRef, useSyncExternalStore } from 'react';
+import {
+  selectMessages,
+  selectParticipants,
+  type MessageStore,
+} from '@store/message-store';
+import type { ChatMessage } from '@models/message';
+import type {
+  HistoryState,
+  LoadState,
+  MessageActionError,
+  MessageStoreState,
+  SendState,
+} from '@models/store';
+import type { LiveStatus } from '@models/hooks';
+import { ChatControllerContext } from './chat-context';
+
+/**
+ * Shallow equality for selector results (arrays and plain objects).
+ */
+export function shallowEqual<T>(first: T, second: T): boolean {
+  if (Object.is(first, second)) {
+    return true;
+  }
+
+  if (
+    typeof first !== 'object' ||
+    typeof second !== 'object' ||
+    first === null ||
+    second === null
+  ) {
+    return false;
+  }
+
+  const firstKeys = Object.keys(first) as Array<keyof T>;
+  const secondKeys = Object.keys(second) as Array<keyof T>;
+
+  return (
+    firstKeys.length === secondKeys.length &&
+    firstKeys.every(key => Object.is(first[key], second[key]))
+  );
+}
+
+/**
+ * Subscribes to a derived value of the store.
+ *
+ * The previous result is kept while `isEqual` considers the new one equal,
+ * so selectors may build new objects without causing re-renders (or the
+ * infinite loop useSyncExternalStore guards against).
+ *
+ * @param selector - Derives the value from a state snapshot
+ * @param isEqual - Equality used to keep the previous result (default Object.is)
+ * @param store - Store to read (defaults to the current conversation's)
+ * @returns The selected value
+ *
+ * @example
+ * ```TypeScript
+ * const messageCount = useChatStore(state => state.messageIds.length);
+ * ```
+ */
+export function useChatStore<T>(
+  selector: (state: MessageStoreState) => T,
+  isEqual: (first: T, second: T) => boolean = Object.is,
+  store?: MessageStore
+): T {
+  const contextStore = useContext(ChatControllerContext).store;
+  const targetStore = store ?? contextStore;
+  const cacheRef = useRef<{ state: MessageStoreState; value: T } | null>(null);
+
+  const getSnapshot = useCallback(() => {
+    const state = targetStore.getState();
+    const cached = cacheRef.current;
+
+    if (cached?.state === state) {
+      return cached.value;
+    }
+
+    const value = selector(state);
+    const stableValue =
+      cached && isEqual(cached.value, value) ? cached.value : value;
+
+    cacheRef.current = { state, value: stableValue };
+    return stableValue;
+  }, [targetStore, selector, isEqual]);
+
+  return useSyncExternalStore(targetStore.subscribe, getSnapshot, getSnapshot);
+}
+
+/**
+ * All messages in chronological order (oldest first).
+ */
+export function useMessages(): ReadonlyArray<ChatMessage> {
+  return useChatStore(selectMessages);
+}
+
+/**
+ * A single message by id, or undefined once it is gone (e.g. discarded,
+ * or confirmed under its server id).
+ */
+export function useMessage(messageId: string): ChatMessage | undefined {
+  const selectMessage = useCallback(
+    (state: MessageStoreState) => state.messagesById[messageId],
+    [messageId]
+  );
+
+  return useChatStore(selectMessage);
+}
+
+/**
+ * Unique author names, sorted alphabetically.
+ * Delivery state changes don't re-render subscribers.
+ */
+export function useParticipants(): ReadonlyArray<string> {
+  return useChatStore(selectParticipants, shallowEqual);
+}
+
+const selectLoadState = (state: MessageStoreState): LoadState => ({
+  loadStatus: state.loadStatus,
+  loadError: state.loadError,
+  loadAttempt: state.loadAttempt,
+});
+
+const selectSendState = (state: MessageStoreState): SendState => ({
+  sendStatus: state.sendStatus,
+  sendError: state.sendError,
+});
+
+const selectHistoryState = (state: MessageStoreState): HistoryState => ({
+  hasMoreHistory: state.hasMoreHistory,
+  olderStatus: state.olderStatus,
+});
+
+const selectLiveStatus = (state: MessageStoreState): LiveStatus =>
+  state.liveStatus;
+
+const selectActionError = (
+  state: MessageStoreState
+): MessageActionError | null => state.actionError;
+
+/**
+ * Status, error and attempt of the initial load / reload.
+ */
+export function useLoadState(): LoadState {
+  return useChatStore(selectLoadState, shallowEqual);
+}
+
+/**
+ * Status and error of the last send.
+ */
+export function useSendState(): SendState {
+  return useChatStore(selectSendState, shallowEqual);
+}
+
+/**
+ * State of backward pagination.
+ */
+export function useHistoryState(): HistoryState {
+  return useChatStore(selectHistoryState, shallowEqual);
+}
+
+/**
+ * Status of the live updates.
+ */
+export function useLiveStatus(): LiveStatus {
+  return useChatStore(selectLiveStatus);
+}
+
+/**
+ * Last failed edit or delete, or null.
+ */
+export function useActionError(): MessageActionError | null {
+  return useChatStore(selectActionError);
+}
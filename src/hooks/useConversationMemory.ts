@@ -0,0 +1,124 @@
+/**
+ * Per-conversation UI state that outlives the components showing it.
+ *
+ * Switching rooms unmounts the composer and the message list; drafts,
+ * reply targets and scroll positions are kept here, keyed by conversation
+ * id, so coming back to a room restores them. Memory only: nothing is
+ * persisted.
+ */
+
+import { useCallback, useSyncExternalStore } from 'react';
+
+/**
+ * Scroll position of a message list.
+ * `isNearBottom` wins over `scrollTop`: a list left at the bottom should
+ * show the newest messages when reopened.
+ */
+export interface ScrollMemory {
+  readonly scrollTop: number;
+  readonly isNearBottom: boolean;
+}
+
+const drafts = new Map<string, string>();
+const replyTargets = new Map<string, string>();
+const composerListeners = new Set<() => void>();
+const scrollPositions = new Map<string, ScrollMemory>();
+
+function subscribeToComposer(listener: () => void): () => void {
+  composerListeners.add(listener);
+
+  return () => {
+    composerListeners.delete(listener);
+  };
+}
+
+/**
+ * Composer draft of a conversation.
+ *
+ * @param conversationId - Room id
+ * @returns The draft and a setter (an empty string clears it)
+ */
+export function useDraft(
+  conversationId: string
+): readonly [string, (text: string) => void] {
+  const getDraft = useCallback(
+    () => drafts.get(conversationId) ?? '',
+    [conversationId]
+  );
+  const draft = useSyncExternalStore(subscribeToComposer, getDraft, getDraft);
+
+  const setDraft = useCallback(
+    (text: string) => {
+      if (text) {
+        drafts.set(conversationId, text);
+      } else {
+        drafts.delete(conversationId);
+      }
+
+      composerListeners.forEach(listener => listener());
+    },
+    [conversationId]
+  );
+
+  return [draft, setDraft] as const;
+}
+
+/**
+ * Message the composer of a conversation is replying to.
+ *
+ * @param conversationId - Room id
+ * @returns The parent message id (or null) and a setter (null cancels the
+ *   reply)
+ */
+export function useReplyTarget(
+  conversationId: string
+): readonly [string | null, (messageId: string | null) => void] {
+  const getReplyTarget = useCallback(
+    () => replyTargets.get(conversationId) ?? null,
+    [conversationId]
+  );
+  const replyTarget = useSyncExternalStore(
+    subscribeToComposer,
+    getReplyTarget,
+    getReplyTarget
+  );
+
+  const setReplyTarget = useCallback(
+    (messageId: string | null) => {
+      if (messageId) {
+        replyTargets.set(conversationId, messageId);
+      } else {
+        replyTargets.delete(conversationId);
+      }
+
+      composerListeners.forEach(listener => listener());
+    },
+    [conversationId]
+  );
+
+  return [replyTarget, setReplyTarget] as const;
+}
+
+/**
+ * Saved scroll position of a conversation's message list.
+ *
+ * @param conversationId - Room id
+ * @returns Readers and writers for the position (stable per room)
+ */
+export function useScrollMemory(conversationId: string): {
+  readonly getSavedScroll: () => ScrollMemory | undefined;
+  readonly saveScroll: (position: ScrollMemory) => void;
+} {
+  const getSavedScroll = useCallback(
+    () => scrollPositions.get(conversationId),
+    [conversationId]
+  );
+  const saveScroll = useCallback(
+    (position: ScrollMemory) => {
+      scrollPositions.set(conversationId, position);
+    },
+    [conversationId]
+  );
+
+  return { getSavedScroll, saveScroll };
+}
@@ -0,0 +1,107 @@
+/**
+ * Hooks over the conversation list (shared ConversationStore).
+ *
+ * useConversations retains the conversation controller, so the list loads
+ * and refreshes while at least one caller is mounted.
+ */
+
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import {
+  conversationController,
+  conversationStore,
+} from '@store/conversation-controller';
+import { selectConversationSummaries } from '@store/conversation-store';
+import type { ApiError } from '@api/api-error';
+import type { ConversationSummary } from '@models/conversation';
+import type { AsyncStatus } from '@models/hooks';
+import type { ConversationStoreState } from '@models/store';
+
+/**
+ * Return value of useConversations.
+ */
+export interface UseConversationsReturn {
+  /** Conversations with unread counts, in server order */
+  readonly conversations: ReadonlyArray<ConversationSummary>;
+
+  /** Status of the list load */
+  readonly loadStatus: AsyncStatus;
+
+  /** Error from the list load, or null */
+  readonly loadError: ApiError | null;
+
+  /** Reload the list */
+  readonly reload: () => Promise<void>;
+}
+
+/**
+ * Subscribes to a value of the conversation store.
+ * Selectors must return stable values (primitives or memoized objects).
+ */
+function useConversationStore<T>(
+  selector: (state: ConversationStoreState) => T
+): T {
+  const getSnapshot = useCallback(
+    () => selector(conversationStore.getState()),
+    [selector]
+  );
+
+  return useSyncExternalStore(
+    conversationStore.subscribe,
+    getSnapshot,
+    getSnapshot
+  );
+}
+
+const selectLoadStatus = (state: ConversationStoreState): AsyncStatus =>
+  state.loadStatus;
+
+const selectLoadError = (state: ConversationStoreState): ApiError | null =>
+  state.loadError;
+
+/**
+ * Loads the conversation list and keeps it fresh while mounted.
+ *
+ * @returns Conversations, load state and reload action
+ */
+export function useConversations(): UseConversationsReturn {
+  useEffect(() => conversationController.retain(), []);
+
+  return {
+    conversations: useConversationStore(selectConversationSummaries),
+    loadStatus: useConversationStore(selectLoadStatus),
+    loadError: useConversationStore(selectLoadError),
+    reload: conversationController.reload,
+  };
+}
+
+/**
+ * A single conversation by id (without retaining the list), or undefined
+ * while the list loads or if there is no such room.
+ */
+export function useConversation(
+  conversationId: string
+): ConversationSummary | undefined {
+  const selectConversation = useCallback(
+    (state: ConversationStoreState) =>
+      selectConversationSummaries(state).find(
+        conversation => conversation._id === conversationId
+      ),
+    [conversationId]
+  );
+
+  return useConversationStore(selectConversation);
+}
+
+/**
+ * Marks a conversation as the open one while mounted, so its messages
+ * count as read.
+ */
+export function useActiveConversation(conversationId: string): void {
+  useEffect(() => {
+    conversationController.setActiveConversation(conversationId);
+
+    return () => {
+      conversationController.setActiveConversation(null);
+    };
+  }, [conversationId]);
+}
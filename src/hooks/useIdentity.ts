@@ -0,0 +1,29 @@
+/**
+ * Hooks over the identity context.
+ */
+
+import { useContext } from 'react';
+import { IdentityContext, type IdentityContextValue } from './identity-context';
+
+/**
+ * Identity and its setter.
+ *
+ * @throws Error when called outside IdentityProvider
+ */
+export function useIdentity(): IdentityContextValue {
+  const context = useContext(IdentityContext);
+
+  if (!context) {
+    throw new Error('useIdentity must be used within an IdentityProvider');
+  }
+
+  return context;
+}
+
+/**
+ * Display name of the local user (empty before onboarding).
+ * Messages with this author are the user's own.
+ */
+export function useCurrentAuthor(): string {
+  return useIdentity().identity?.displayName ?? '';
+}
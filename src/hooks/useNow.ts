@@ -0,0 +1,70 @@
+/**
+ * Shared clock for live times ("2m ago", "Today").
+ *
+ * One interval serves every subscribed component, runs only while some are
+ * mounted, and ticks again as soon as a hidden tab becomes visible.
+ */
+
+import { useSyncExternalStore } from 'react';
+
+/**
+ * How often live times refresh.
+ */
+const TICK_INTERVAL_MS = 30_000;
+
+const listeners = new Set<() => void>();
+let now = Date.now();
+let intervalId: ReturnType<typeof setInterval> | undefined;
+
+function tick(): void {
+  now = Date.now();
+  listeners.forEach(listener => listener());
+}
+
+function handleVisibilityChange(): void {
+  if (document.visibilityState === 'visible') {
+    tick();
+  }
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+
+  if (listeners.size === 1) {
+    now = Date.now();
+    intervalId = setInterval(tick, TICK_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+  }
+
+  return () => {
+    listeners.delete(listener);
+
+    if (listeners.size === 0) {
+      clearInterval(intervalId);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    }
+  };
+}
+
+function subscribeToNothing(): () => void {
+  return () => {};
+}
+
+function getNow(): number {
+  return now;
+}
+
+/**
+ * Current time, updated on the shared tick.
+ *
+ * @param enabled - Whether the component needs live updates (when false it
+ *   doesn't re-render on ticks, and the value may be stale)
+ * @returns Time of the last tick, in milliseconds
+ */
+export function useNow(enabled = true): number {
+  return useSyncExternalStore(
+    enabled ? subscribe : subscribeToNothing,
+    getNow,
+    getNow
+  );
+}
@@ -0,0 +1,14 @@
+/**
+ * Hooks over the display preferences (shared PreferencesStore).
+ */
+
+import { useSyncExternalStore } from 'react';
+import { preferences } from '@preferences/preferences';
+import type { Preferences } from '@models/preferences';
+
+/**
+ * Current display preferences. Change them with `preferences.set()`.
+ */
+export function usePreferences(): Preferences {
+  return useSyncExternalStore(preferences.subscribe, preferences.getState);
+}
@@ -0,0 +1,24 @@
+/**
+ * Location hooks over the History API router (@router/router).
+ */
+
+import { useSyncExternalStore } from 'react';
+import {
+  getPathname,
+  matchConversationPath,
+  subscribeToLocation,
+} from '@router/router';
+
+/**
+ * Current pathname; re-renders on navigation.
+ */
+export function usePathname(): string {
+  return useSyncExternalStore(subscribeToLocation, getPathname, getPathname);
+}
+
+/**
+ * Conversation id of the current route, or null outside `/c/:id`.
+ */
+export function useConversationRoute(): string | null {
+  return matchConversationPath(usePathname());
+}
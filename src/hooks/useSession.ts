@@ -0,0 +1,75 @@
+/**
+ * Hooks over the API session (shared SessionManager).
+ */
+
+import { useCallback, useRef, useState, useSyncExternalStore } from 'react';
+import { apiClient } from '@api/api-client';
+import { toApiError, type ApiError } from '@api/api-error';
+import { session } from '@session/session';
+import type { AsyncStatus } from '@models/hooks';
+import type { SessionState, SignInOptions } from '@models/session';
+
+/**
+ * Current session state (status, token, remember).
+ */
+export function useSession(): SessionState {
+  return useSyncExternalStore(session.subscribe, session.getState);
+}
+
+/**
+ * Return value of useSignIn.
+ */
+export interface UseSignInReturn {
+  /** Checks the token with the server, then starts the session */
+  readonly signIn: (
+    token: string,
+    options?: Readonly<SignInOptions>
+  ) => Promise<void>;
+
+  /** Status of the latest attempt */
+  readonly status: AsyncStatus;
+
+  /** Why the latest attempt failed, or null */
+  readonly error: ApiError | null;
+}
+
+/**
+ * Sign-in flow: verifies a token before handing it to the session, so a
+ * mistyped token is reported in the form instead of expiring right away.
+ * A newer attempt supersedes (aborts) the previous one.
+ */
+export function useSignIn(): UseSignInReturn {
+  const [status, setStatus] = useState<AsyncStatus>('idle');
+  const [error, setError] = useState<ApiError | null>(null);
+  const attemptRef = useRef<AbortController | null>(null);
+
+  const signIn = useCallback(
+    async (token: string, options: Readonly<SignInOptions> = {}) => {
+      attemptRef.current?.abort();
+      const controller = new AbortController();
+      attemptRef.current = controller;
+
+      setStatus('loading');
+      setError(null);
+
+      try {
+        await apiClient.verifyToken(token.trim(), {
+          signal: controller.signal,
+          retry: false,
+        });
+      } catch (verifyError) {
+        if (!controller.signal.aborted) {
+          setStatus('error');
+          setError(toApiError(verifyError, 'Failed to sign in'));
+        }
+        return;
+      }
+
+      setStatus('success');
+      session.signIn(token, options);
+    },
+    []
+  );
+
+  return { signIn, status, error };
+}
@@ -0,0 +1,14 @@
+/**
+ * Hook over the color theme (shared ThemeController).
+ */
+
+import { useSyncExternalStore } from 'react';
+import { theme, type Theme } from '@preferences/theme';
+
+/**
+ * The theme in use (the preferred one, or the device's). Change the
+ * preference with `preferences.set({ theme })`.
+ */
+export function useTheme(): Theme {
+  return useSyncExternalStore(theme.subscribe, theme.getState);
+}
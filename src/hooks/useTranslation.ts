@@ -0,0 +1,46 @@
+/**
+ * Hook over the UI language (shared I18n store).
+ */
+
+import { Fragment, createElement, useSyncExternalStore } from 'react';
+import type { ReactNode } from 'react';
+import { i18n } from '@i18n/i18n';
+import type { Locale } from '@i18n/locales';
+import type { MessageKey, MessageParams, TextDirection } from '@models/i18n';
+
+export interface Translation {
+  /** Formats a message (see I18n.t) */
+  t: (key: MessageKey, params?: MessageParams) => string;
+  /**
+   * Formats a message with elements among its values, e.g. a styled name
+   * placed wherever the translation puts it
+   */
+  tRich: (key: MessageKey, params: MessageParams<ReactNode>) => ReactNode[];
+  locale: Locale;
+  direction: TextDirection;
+}
+
+function tRich(key: MessageKey, params: MessageParams<ReactNode>): ReactNode[] {
+  return i18n
+    .formatParts(key, params)
+    .map((part, index) => createElement(Fragment, { key: index }, part));
+}
+
+/**
+ * Translation functions for the current language. Components using it
+ * re-render when the language changes.
+ *
+ * @example
+ * ```TypeScript
+ * const { t } = useTranslation();
+ * return <button aria-label={t('composer.sendLabel')}>{t('composer.send')}</button>;
+ * ```
+ */
+export function useTranslation(): Translation {
+  const { locale, direction } = useSyncExternalStore(
+    i18n.subscribe,
+    i18n.getState
+  );
+
+  return { t: i18n.t, tRich, locale, direction };
+}
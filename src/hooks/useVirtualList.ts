@@ -0,0 +1,520 @@
+/**
+ * Windowed rendering of a long list of variable-height rows.
+ *
+ * Only the rows in and near the viewport are rendered; padding on the list
+ * element stands in for the others. Rows are measured after they render
+ * (and again whenever they resize); rows never rendered are estimated from
+ * the average of the measured ones.
+ *
+ * The hook also anchors scrolling: when rows are inserted above the
+ * viewport or change size, the scroll position moves with them, so the
+ * rows being read stay where they are. The browser's own scroll anchoring
+ * (`overflow-anchor`) should be turned off on the container.
+ *
+ * Rows are the list element's children, identified by `getRowKey` (e.g.
+ * from a `data-message-id` attribute), so row components need no ref.
+ * A row's size includes its margins.
+ */
+
+import {
+  useLayoutEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+  type RefObject,
+} from 'react';
+
+export interface VirtualListOptions {
+  /** Scrolling container */
+  readonly containerRef: RefObject<HTMLElement | null>;
+  /** Element whose children are the rows, inside the container */
+  readonly listRef: RefObject<HTMLElement | null>;
+  /** Key of every row, in display order */
+  readonly keys: ReadonlyArray<string>;
+  /** Key of a row element (null for children that aren't rows) */
+  readonly getRowKey: (row: Element) => string | null;
+  /**
+   * Measured row heights by key. Pass a map that outlives the component to
+   * keep measurements (and restored scroll positions) accurate across mounts.
+   */
+  readonly heightCache?: Map<string, number>;
+  /** Whether to keep the end of the list in view when the content grows */
+  readonly shouldStickToBottom?: () => boolean;
+}
+
+export interface VirtualList {
+  /** Index of the first rendered row */
+  readonly start: number;
+  /** Index after the last rendered row */
+  readonly end: number;
+  /** Space of the rows before `start`, in pixels */
+  readonly paddingTop: number;
+  /** Space of the rows from `end` on, in pixels */
+  readonly paddingBottom: number;
+  /**
+   * Scrolls a row to the middle of the viewport, so it gets rendered.
+   * Returns false if no row has the key.
+   */
+  readonly scrollToKey: (key: string) => boolean;
+}
+
+/**
+ * Height assumed for rows before any row is measured.
+ */
+const ESTIMATED_ROW_HEIGHT = 72;
+
+/**
+ * Distance in pixels above and below the viewport that is rendered too,
+ * so fast scrolling and screen reader navigation rarely reach blank space.
+ */
+const OVERSCAN = 800;
+
+/**
+ * `offsets[i]` is the distance from the top of the list to row `i`
+ * (gaps included); `offsets[keys.length]` is the height of every row
+ * plus one gap.
+ */
+interface RowOffsets {
+  readonly offsets: Float64Array;
+  readonly indexByKey: ReadonlyMap<string, number>;
+}
+
+interface VirtualLayout {
+  readonly start: number;
+  readonly end: number;
+  readonly paddingTop: number;
+  readonly paddingBottom: number;
+}
+
+/**
+ * A rendered row and its distance from the top of the viewport.
+ * `scrollTop` is the container's position when the anchor was taken: if it
+ * changed since, someone else scrolled and the anchor is stale.
+ */
+interface ScrollAnchor {
+  readonly key: string;
+  readonly top: number;
+  readonly scrollTop: number;
+}
+
+/**
+ * Position of a row's margin box relative to `viewportTop`, and its height.
+ */
+function getRowBox(
+  row: Element,
+  viewportTop: number
+): { readonly top: number; readonly height: number } {
+  const { top, height } = row.getBoundingClientRect();
+  const { marginTop, marginBottom } = getComputedStyle(row);
+  const marginTopPx = Number.parseFloat(marginTop) || 0;
+
+  return {
+    top: top - marginTopPx - viewportTop,
+    height: height + marginTopPx + (Number.parseFloat(marginBottom) || 0),
+  };
+}
+
+/**
+ * First index in [low, high) for which `isAfter` holds (high if none).
+ */
+function binarySearch(
+  low: number,
+  high: number,
+  isAfter: (index: number) => boolean
+): number {
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+
+    if (isAfter(middle)) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+
+  return low;
+}
+
+/**
+ * Sizes and scroll position of a virtual list, kept outside React so the
+ * list only re-renders when the rendered range (or its padding) changes.
+ */
+class ListGeometry {
+  private readonly heights: Map<string, number>;
+  private readonly listeners = new Set<() => void>();
+  private gap = 0;
+  private listOffset = 0;
+  private scrollTop = 0;
+  private viewportHeight = 0;
+  private focusedKey: string | null = null;
+  private hasChanges = false;
+  private offsetsKeys: ReadonlyArray<string> | null = null;
+  private offsets: RowOffsets | null = null;
+
+  constructor(heights: Map<string, number>) {
+    this.heights = heights;
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Notifies subscribers of the changes made since the last call.
+   */
+  flush(): void {
+    if (this.hasChanges) {
+      this.hasChanges = false;
+      this.listeners.forEach(listener => listener());
+    }
+  }
+
+  setRowHeight(key: string, height: number): void {
+    if (this.heights.get(key) !== height) {
+      this.heights.set(key, height);
+      this.offsets = null;
+      this.hasChanges = true;
+    }
+  }
+
+  /**
+   * @param offset - Distance from the top of the scrolled content to the list
+   * @param gap - Space between rows
+   */
+  setListMetrics(offset: number, gap: number): void {
+    if (gap !== this.gap) {
+      this.gap = gap;
+      this.offsets = null;
+      this.hasChanges = true;
+    }
+
+    if (offset !== this.listOffset) {
+      this.listOffset = offset;
+      this.hasChanges = true;
+    }
+  }
+
+  setViewport(scrollTop: number, height: number): void {
+    if (scrollTop !== this.scrollTop || height !== this.viewportHeight) {
+      this.scrollTop = scrollTop;
+      this.viewportHeight = height;
+      this.hasChanges = true;
+    }
+  }
+
+  /**
+   * Row that holds focus; it stays rendered wherever the list is scrolled.
+   */
+  setFocusedKey(key: string | null): void {
+    if (key !== this.focusedKey) {
+      this.focusedKey = key;
+      this.hasChanges = true;
+    }
+  }
+
+  /**
+   * Distance from the top of the list to a row, measured or estimated.
+   */
+  getRowOffset(keys: ReadonlyArray<string>, key: string): number | undefined {
+    const { offsets, indexByKey } = this.getOffsets(keys);
+    const index = indexByKey.get(key);
+
+    return index === undefined ? undefined : offsets[index];
+  }
+
+  getLayout(keys: ReadonlyArray<string>): VirtualLayout {
+    const { offsets, indexByKey } = this.getOffsets(keys);
+    const count = keys.length;
+    const top = this.scrollTop - this.listOffset - OVERSCAN;
+    const bottom =
+      this.scrollTop - this.listOffset + this.viewportHeight + OVERSCAN;
+
+    let start = binarySearch(0, count, index => offsets[index + 1] > top);
+    let end = binarySearch(start, count, index => offsets[index] >= bottom);
+
+    const focusedIndex =
+      this.focusedKey === null ? undefined : indexByKey.get(this.focusedKey);
+
+    if (focusedIndex !== undefined) {
+      start = Math.min(start, focusedIndex);
+      end = Math.max(end, focusedIndex + 1);
+    }
+
+    return {
+      start,
+      end,
+      paddingTop: offsets[start],
+      paddingBottom: offsets[count] - offsets[end],
+    };
+  }
+
+  private getOffsets(keys: ReadonlyArray<string>): RowOffsets {
+    if (this.offsets && this.offsetsKeys === keys) {
+      return this.offsets;
+    }
+
+    let measuredHeight = 0;
+    let measuredCount = 0;
+
+    for (const key of keys) {
+      const height = this.heights.get(key);
+
+      if (height !== undefined) {
+        measuredHeight += height;
+        measuredCount++;
+      }
+    }
+
+    const estimatedHeight =
+      measuredCount > 0 ? measuredHeight / measuredCount : ESTIMATED_ROW_HEIGHT;
+    const offsets = new Float64Array(keys.length + 1);
+    const indexByKey = new Map<string, number>();
+
+    keys.forEach((key, index) => {
+      offsets[index + 1] =
+        offsets[index] + (this.heights.get(key) ?? estimatedHeight) + this.gap;
+      indexByKey.set(key, index);
+    });
+
+    this.offsetsKeys = keys;
+    this.offsets = { offsets, indexByKey };
+    return this.offsets;
+  }
+}
+
+/**
+ * Renders only the visible part of a list.
+ *
+ * Render `keys.slice(start, end)` inside the list element, with
+ * `paddingTop` and `paddingBottom` as its padding. Rows keep their place
+ * in the whole list for assistive technologies through `aria-posinset`
+ * and `aria-setsize`, and the row holding focus is always rendered.
+ *
+ * @param options - Elements, row keys and behavior
+ * @returns The range to render and a way to bring any row into it
+ */
+export function useVirtualList({
+  containerRef,
+  listRef,
+  keys,
+  getRowKey,
+  heightCache,
+  shouldStickToBottom,
+}: VirtualListOptions): VirtualList {
+  const [geometry] = useState(() => new ListGeometry(heightCache ?? new Map()));
+  const optionsRef = useRef({ keys, getRowKey, shouldStickToBottom });
+  const syncRef = useRef<() => void>(() => {});
+
+  /**
+   * Re-render only when the rendered range or its padding changes, not on
+   * every scroll event.
+   */
+  const getLayoutKey = () => {
+    const { start, end, paddingTop, paddingBottom } = geometry.getLayout(keys);
+    return `${start}:${end}:${paddingTop}:${paddingBottom}`;
+  };
+  useSyncExternalStore(geometry.subscribe, getLayoutKey, getLayoutKey);
+
+  const layout = geometry.getLayout(keys);
+
+  /**
+   * Measures rows and restores the scroll anchor after every render, when
+   * rows or the container resize, and tracks scrolling and focus.
+   */
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+
+    let anchor: ScrollAnchor | null = null;
+    let contentHeight = container.scrollHeight;
+    const observedRows = new Set<Element>();
+
+    const findRow = (key: string): Element | undefined =>
+      Array.from(listRef.current?.children ?? []).find(
+        row => optionsRef.current.getRowKey(row) === key
+      );
+
+    /**
+     * Takes the first row (partly) in view as the anchor.
+     */
+    const captureAnchor = () => {
+      const list = listRef.current;
+      const viewportTop = container.getBoundingClientRect().top;
+      anchor = null;
+
+      for (const row of list?.children ?? []) {
+        const key = optionsRef.current.getRowKey(row);
+
+        if (key !== null && row.getBoundingClientRect().bottom > viewportTop) {
+          anchor = {
+            key,
+            top: getRowBox(row, viewportTop).top,
+            scrollTop: container.scrollTop,
+          };
+          return;
+        }
+      }
+    };
+
+    /**
+     * Scrolls by however much the anchor moved. An anchor row that is no
+     * longer rendered (rows were prepended) is found from the offsets the
+     * last render used.
+     */
+    const restoreAnchor = () => {
+      const list = listRef.current;
+
+      if (!anchor || !list || anchor.scrollTop !== container.scrollTop) {
+        return;
+      }
+
+      const viewportTop = container.getBoundingClientRect().top;
+      const row = findRow(anchor.key);
+      const rowOffset = row
+        ? undefined
+        : geometry.getRowOffset(optionsRef.current.keys, anchor.key);
+
+      let top: number | undefined;
+      if (row) {
+        top = getRowBox(row, viewportTop).top;
+      } else if (rowOffset !== undefined) {
+        top = list.getBoundingClientRect().top - viewportTop + rowOffset;
+      }
+
+      if (top !== undefined && top !== anchor.top) {
+        container.scrollTop += top - anchor.top;
+      }
+    };
+
+    const measure = () => {
+      const list = listRef.current;
+
+      if (!list) {
+        return;
+      }
+
+      const viewportTop = container.getBoundingClientRect().top;
+      geometry.setListMetrics(
+        list.getBoundingClientRect().top - viewportTop + container.scrollTop,
+        Number.parseFloat(getComputedStyle(list).rowGap) || 0
+      );
+
+      for (const row of list.children) {
+        const key = optionsRef.current.getRowKey(row);
+
+        if (key !== null) {
+          geometry.setRowHeight(key, getRowBox(row, viewportTop).height);
+
+          if (!observedRows.has(row)) {
+            resizeObserver.observe(row);
+            observedRows.add(row);
+          }
+        }
+      }
+
+      observedRows.forEach(row => {
+        if (row.parentElement !== list) {
+          resizeObserver.unobserve(row);
+          observedRows.delete(row);
+        }
+      });
+    };
+
+    const sync = () => {
+      restoreAnchor();
+      measure();
+
+      if (container.scrollHeight !== contentHeight) {
+        contentHeight = container.scrollHeight;
+
+        if (optionsRef.current.shouldStickToBottom?.()) {
+          container.scrollTop = contentHeight;
+        }
+      }
+
+      geometry.setViewport(container.scrollTop, container.clientHeight);
+      captureAnchor();
+      geometry.flush();
+    };
+
+    const resizeObserver = new ResizeObserver(sync);
+    resizeObserver.observe(container);
+
+    const handleScroll = () => {
+      geometry.setViewport(container.scrollTop, container.clientHeight);
+      captureAnchor();
+      geometry.flush();
+    };
+
+    const handleFocusIn = (event: FocusEvent) => {
+      const list = listRef.current;
+      let row = list && event.target instanceof Element ? event.target : null;
+
+      while (row && row.parentElement !== list) {
+        row = row.parentElement;
+      }
+
+      geometry.setFocusedKey(row ? optionsRef.current.getRowKey(row) : null);
+      geometry.flush();
+    };
+
+    /**
+     * Focus leaving the container; checked once it has landed, so a window
+     * losing focus (which keeps the active element) keeps the row.
+     */
+    const handleFocusOut = () => {
+      queueMicrotask(() => {
+        if (!container.contains(document.activeElement)) {
+          geometry.setFocusedKey(null);
+          geometry.flush();
+        }
+      });
+    };
+
+    container.addEventListener('scroll', handleScroll);
+    container.addEventListener('focusin', handleFocusIn);
+    container.addEventListener('focusout', handleFocusOut);
+    syncRef.current = sync;
+
+    return () => {
+      container.removeEventListener('scroll', handleScroll);
+      container.removeEventListener('focusin', handleFocusIn);
+      container.removeEventListener('focusout', handleFocusOut);
+      resizeObserver.disconnect();
+      syncRef.current = () => {};
+    };
+  }, [containerRef, listRef, geometry]);
+
+  useLayoutEffect(() => {
+    optionsRef.current = { keys, getRowKey, shouldStickToBottom };
+    syncRef.current();
+  });
+
+  const scrollToKey = (key: string): boolean => {
+    const container = containerRef.current;
+    const list = listRef.current;
+    const rowOffset = geometry.getRowOffset(keys, key);
+
+    if (!container || !list || rowOffset === undefined) {
+      return false;
+    }
+
+    const listTop =
+      list.getBoundingClientRect().top -
+      container.getBoundingClientRect().top +
+      container.scrollTop;
+
+    container.scrollTop = listTop + rowOffset - container.clientHeight / 2;
+    geometry.setViewport(container.scrollTop, container.clientHeight);
+    geometry.flush();
+    return true;
+  };
+
+  return { ...layout, scrollToKey };
+}
@@ -0,0 +1,178 @@
+import type { Catalog } from '@models/i18n';
+
+const ar: Catalog = {
+  // Chat screen
+  'chat.loading': 'جارٍ تحميل الرسائل...',
+  'chat.reconnecting': 'جارٍ إعادة الاتصال (المحاولة {attempt})…',
+  'chat.sending': 'جارٍ إرسال الرسالة...',
+  'chat.reloadPage': 'إعادة تحميل الصفحة',
+  'chat.retry': 'إعادة المحاولة',
+
+  // Chat header
+  'header.label': 'رأس المحادثة',
+  'header.emoji': 'رمز تعبيري لامرأة أمام حاسوب',
+  'header.participants': 'أعضاء المجموعة ({count}):',
+  'header.changeName': 'تغيير الاسم المعروض (حاليًا {name})',
+  'header.darkMode': 'الوضع الداكن',
+  'header.preferences': 'التفضيلات',
+  'header.signOut': 'تسجيل الخروج',
+
+  // Message list
+  'list.label': 'الرسائل',
+  'list.emptyTitle': 'لا توجد رسائل بعد',
+  'list.emptyMessage': 'ابدأ المحادثة بإرسال رسالة.',
+  'list.loadingOlder': 'جارٍ تحميل الرسائل الأقدم...',
+  'list.olderError': 'تعذّر تحميل الرسائل الأقدم.',
+  'list.retry': 'إعادة المحاولة',
+  'list.loadOlder': 'تحميل الرسائل الأقدم',
+  'list.beginning': 'هذه بداية المحادثة',
+  'list.newMessages': 'رسائل جديدة',
+  'list.scrollToNew': 'الانتقال إلى الرسائل الجديدة',
+
+  // Message
+  'message.deleted': 'تم حذف هذه الرسالة',
+  'message.inReplyTo': 'ردًا على',
+  'message.parentNotLoaded': 'الرسالة الأصلية غير محمّلة',
+  'message.editLabel': 'تعديل الرسالة',
+  'message.cancel': 'إلغاء',
+  'message.save': 'حفظ',
+  'message.sending': 'جارٍ الإرسال',
+  'message.queued': 'في الانتظار',
+  'message.queuedHint': 'ستُرسل عند عودتك إلى الاتصال',
+  'message.edited': '(معدّلة)',
+  'message.editedAt': 'عُدّلت {date}',
+  'message.react': 'تفاعل',
+  'message.reactLabel': 'إضافة تفاعل',
+  'message.reply': 'رد',
+  'message.replyLabel': 'الرد على {author}',
+  'message.edit': 'تعديل',
+  'message.delete': 'حذف',
+  'message.deleteLabel': 'حذف الرسالة',
+  'message.confirmDeleteLabel': 'تأكيد الحذف',
+  'message.confirmDelete': 'هل تريد حذف هذه الرسالة؟',
+  'message.discard': 'تجاهل',
+  'message.discardQueuedLabel': 'تجاهل الرسالة المنتظرة',
+  'message.notDelivered': 'لم تُسلَّم',
+  'message.retry': 'إعادة المحاولة',
+  'message.retryLabel': 'إعادة محاولة إرسال الرسالة',
+  'message.discardUnsentLabel': 'تجاهل الرسالة غير المرسلة',
+
+  // Composer
+  'composer.replyingTo': 'رد على {author}: {text}',
+  'composer.replyingToUnknown': 'رد على رسالة',
+  'composer.cancelReply': 'إلغاء الرد',
+  'composer.label': 'الرسالة',
+  'composer.placeholder': 'اكتب رسالة...',
+  'composer.send': 'إرسال',
+  'composer.sendLabel': 'إرسال الرسالة',
+  'composer.tooLong':
+    'لا يمكن أن تتجاوز الرسالة {max, plural, zero {# حرف} one {حرفًا واحدًا} two {حرفين} few {# أحرف} many {# حرفًا} other {# حرف}} ({length, number}/{max, number})',
+  'composer.truncated':
+    'تم اقتطاع الرسالة إلى {max, plural, zero {# حرف} one {حرف واحد} two {حرفين} few {# أحرف} many {# حرفًا} other {# حرف}}. سيتم إرسال {max, plural, zero {# حرف} one {الحرف الأول} two {أول حرفين} few {أول # أحرف} many {أول # حرفًا} other {أول # حرف}}.',
+
+  // Times
+  'time.justNow': 'الآن',
+  'time.today': 'اليوم',
+  'time.yesterday': 'أمس',
+
+  // Errors
+  'error.title.load': 'تعذّر تحميل الرسائل',
+  'error.title.send': 'تعذّر إرسال الرسالة',
+  'error.title.edit': 'تعذّر تعديل الرسالة',
+  'error.title.delete': 'تعذّر حذف الرسالة',
+  'error.title.react': 'تعذّر تحديث التفاعل',
+  'error.title.signIn': 'تعذّر تسجيل الدخول',
+  'error.network':
+    'تعذّر الاتصال بالخادم. يرجى التحقق من اتصالك والمحاولة مرة أخرى.',
+  'error.timeout': 'استغرق الخادم وقتًا طويلًا للرد. يرجى المحاولة مرة أخرى.',
+  'error.aborted': 'تم إلغاء الطلب.',
+  'error.parse':
+    'أرسل الخادم ردًا لا يفهمه هذا التطبيق. قد تساعد إعادة تحميل الصفحة.',
+  'error.authToken': 'لم يقبل الخادم هذا الرمز. تحقق منه وحاول مرة أخرى.',
+  'error.authSession': 'جلستك غير مصرّح بها. يرجى تسجيل الدخول مرة أخرى.',
+  'error.rateLimited':
+    'طلبات كثيرة جدًا. يرجى المحاولة مرة أخرى بعد {seconds, plural, zero {# ثانية} one {ثانية واحدة} two {ثانيتين} few {# ثوانٍ} many {# ثانية} other {# ثانية}}.',
+  'error.rateLimitedUnknown': 'طلبات كثيرة جدًا. يرجى المحاولة بعد قليل.',
+  'error.server': 'يواجه الخادم مشكلة حاليًا. يرجى المحاولة بعد قليل.',
+  'error.unknown': 'حدث خطأ ما. يرجى المحاولة مرة أخرى.',
+
+  // Preferences dialog
+  'preferences.title': 'التفضيلات',
+  'preferences.description': 'محفوظة في هذا المتصفح. تُطبّق التغييرات فورًا.',
+  'preferences.language': 'اللغة',
+  'preferences.languageAuto': 'لغة المتصفح ({language})',
+  'preferences.theme': 'المظهر',
+  'preferences.themeSystem': 'مثل الجهاز',
+  'preferences.themeLight': 'فاتح',
+  'preferences.themeDark': 'داكن',
+  'preferences.themeHighContrast': 'تباين عالٍ',
+  'preferences.timeDisplay': 'أوقات الرسائل',
+  'preferences.timeDisplayAbsolute': 'الساعة',
+  'preferences.timeDisplayRelative': 'نسبي ("قبل دقيقتين")',
+  'preferences.hourCycle': 'نظام الساعة',
+  'preferences.hourCycleAuto': 'حسب اللغة',
+  'preferences.hourCycle12': '12 ساعة',
+  'preferences.hourCycle24': '24 ساعة',
+  'preferences.timeZone': 'المنطقة الزمنية',
+  'preferences.timeZoneDevice': 'هذا الجهاز ({timeZone})',
+  'preferences.done': 'تم',
+
+  // Sign-in
+  'signIn.title': 'تسجيل الدخول إلى Doodle Chat',
+  'signIn.message': 'أدخل رمز API الخاص بخادم الدردشة.',
+  'signIn.submit': 'تسجيل الدخول',
+  'signIn.checking': 'جارٍ التحقق…',
+  'signIn.tokenLabel': 'رمز API',
+  'signIn.tokenMissing': 'أدخل رمز API.',
+  'signIn.fakeTokenHint': 'تقبل واجهة API التجريبية الرمز “{token}”.',
+  'signIn.remember': 'تذكرني على هذا الجهاز',
+  'signIn.expiredTitle': 'انتهت صلاحية جلستك',
+  'signIn.expiredMessage':
+    'سجّل الدخول مرة أخرى للمتابعة. تبقى مسوداتك محفوظة، وتُسلَّم الرسائل المرسلة في هذه الأثناء عند عودتك.',
+
+  // Display name
+  'identity.welcomeTitle': 'مرحبًا بك في Doodle Chat',
+  'identity.welcomeMessage':
+    'اختر الاسم الذي سيراه زملاؤك بجانب رسائلك. يمكنك تغييره لاحقًا من رأس المحادثة.',
+  'identity.start': 'ابدأ الدردشة',
+  'identity.changeTitle': 'تغيير الاسم المعروض',
+  'identity.changeMessage':
+    'تُرسل الرسائل الجديدة بهذا الاسم. تحتفظ الرسائل التي أرسلتها سابقًا بالاسم القديم.',
+  'identity.label': 'الاسم المعروض',
+  'identity.cancel': 'إلغاء',
+  'identity.save': 'حفظ',
+  'identity.empty': 'أدخل اسمًا معروضًا.',
+  'identity.tooLong':
+    'لا يمكن أن يتجاوز الاسم المعروض {max, plural, zero {# حرف} one {حرفًا واحدًا} two {حرفين} few {# أحرف} many {# حرفًا} other {# حرف}}.',
+
+  // Layout
+  'layout.skipLink': 'الانتقال إلى المحتوى الرئيسي',
+  'layout.notFoundTitle': 'المحادثة غير موجودة',
+  'layout.notFoundMessage': 'ربما حُذفت، أو أن الرابط غير صحيح.',
+  'layout.notFoundLink': 'الذهاب إلى المحادثة الرئيسية',
+
+  // Conversation list
+  'conversations.title': 'المحادثات',
+  'conversations.loading': 'جارٍ تحميل المحادثات...',
+  'conversations.retry': 'إعادة المحاولة',
+  'conversations.empty': 'لا توجد رسائل بعد',
+  'conversations.deleted': 'تم حذف الرسالة',
+  'conversations.preview': '{author}: {text}',
+  'conversations.unread':
+    '{count, plural, zero {لا رسائل غير مقروءة} one {رسالة واحدة غير مقروءة} two {رسالتان غير مقروءتين} few {# رسائل غير مقروءة} many {# رسالة غير مقروءة} other {# رسالة غير مقروءة}}',
+
+  // Reactions
+  'reactions.label': 'التفاعلات',
+  'reactions.count':
+    '{emoji}، {count, plural, zero {لا تفاعلات} one {تفاعل واحد} two {تفاعلان} few {# تفاعلات} many {# تفاعلًا} other {# تفاعل}}',
+  'reactions.picker': 'اختر تفاعلًا',
+  'reactions.you': 'أنت',
+  'reactions.thumbsUp': 'إعجاب',
+  'reactions.heart': 'قلب',
+  'reactions.laughing': 'ضحك',
+  'reactions.surprised': 'دهشة',
+  'reactions.sad': 'حزن',
+  'reactions.party': 'احتفال',
+};
+
+export default ar;
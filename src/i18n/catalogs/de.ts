@@ -0,0 +1,185 @@
+import type { Catalog } from '@models/i18n';
+
+const de: Catalog = {
+  // Chat screen
+  'chat.loading': 'Nachrichten werden geladen...',
+  'chat.reconnecting': 'Verbindung wird wiederhergestellt (Versuch {attempt})…',
+  'chat.sending': 'Nachricht wird gesendet...',
+  'chat.reloadPage': 'Seite neu laden',
+  'chat.retry': 'Erneut versuchen',
+
+  // Chat header
+  'header.label': 'Chat-Kopfzeile',
+  'header.emoji': 'Frau am Computer (Emoji)',
+  'header.participants': 'Gruppenmitglieder ({count}):',
+  'header.changeName': 'Anzeigenamen ändern (derzeit {name})',
+  'header.darkMode': 'Dunkelmodus',
+  'header.preferences': 'Einstellungen',
+  'header.signOut': 'Abmelden',
+
+  // Message list
+  'list.label': 'Nachrichten',
+  'list.emptyTitle': 'Noch keine Nachrichten',
+  'list.emptyMessage': 'Beginne die Unterhaltung mit einer Nachricht.',
+  'list.loadingOlder': 'Ältere Nachrichten werden geladen...',
+  'list.olderError': 'Ältere Nachrichten konnten nicht geladen werden.',
+  'list.retry': 'Erneut versuchen',
+  'list.loadOlder': 'Ältere Nachrichten laden',
+  'list.beginning': 'Hier beginnt die Unterhaltung',
+  'list.newMessages': 'Neue Nachrichten',
+  'list.scrollToNew': 'Zu neuen Nachrichten scrollen',
+
+  // Message
+  'message.deleted': 'Diese Nachricht wurde gelöscht',
+  'message.inReplyTo': 'Antwort auf',
+  'message.parentNotLoaded': 'Ursprüngliche Nachricht nicht geladen',
+  'message.editLabel': 'Nachricht bearbeiten',
+  'message.cancel': 'Abbrechen',
+  'message.save': 'Speichern',
+  'message.sending': 'Wird gesendet',
+  'message.queued': 'In Warteschlange',
+  'message.queuedHint': 'Wird gesendet, sobald du wieder online bist',
+  'message.edited': '(bearbeitet)',
+  'message.editedAt': 'Bearbeitet {date}',
+  'message.react': 'Reagieren',
+  'message.reactLabel': 'Reaktion hinzufügen',
+  'message.reply': 'Antworten',
+  'message.replyLabel': '{author} antworten',
+  'message.edit': 'Bearbeiten',
+  'message.delete': 'Löschen',
+  'message.deleteLabel': 'Nachricht löschen',
+  'message.confirmDeleteLabel': 'Löschen bestätigen',
+  'message.confirmDelete': 'Diese Nachricht löschen?',
+  'message.discard': 'Verwerfen',
+  'message.discardQueuedLabel': 'Wartende Nachricht verwerfen',
+  'message.notDelivered': 'Nicht zugestellt',
+  'message.retry': 'Erneut versuchen',
+  'message.retryLabel': 'Nachricht erneut senden',
+  'message.discardUnsentLabel': 'Nicht gesendete Nachricht verwerfen',
+
+  // Composer
+  'composer.replyingTo': 'Antwort an {author}: {text}',
+  'composer.replyingToUnknown': 'Antwort auf eine Nachricht',
+  'composer.cancelReply': 'Antwort abbrechen',
+  'composer.label': 'Nachricht',
+  'composer.placeholder': 'Nachricht eingeben...',
+  'composer.send': 'Senden',
+  'composer.sendLabel': 'Nachricht senden',
+  'composer.tooLong':
+    'Eine Nachricht darf höchstens {max, number} Zeichen lang sein ({length, number}/{max, number})',
+  'composer.truncated':
+    'Die Nachricht wurde auf {max, number} Zeichen gekürzt. {max, plural, one {Das erste Zeichen wird} other {Die ersten # Zeichen werden}} gesendet.',
+
+  // Times
+  'time.justNow': 'gerade eben',
+  'time.today': 'Heute',
+  'time.yesterday': 'Gestern',
+
+  // Errors
+  'error.title.load': 'Nachrichten konnten nicht geladen werden',
+  'error.title.send': 'Nachricht konnte nicht gesendet werden',
+  'error.title.edit': 'Nachricht konnte nicht bearbeitet werden',
+  'error.title.delete': 'Nachricht konnte nicht gelöscht werden',
+  'error.title.react': 'Reaktion konnte nicht aktualisiert werden',
+  'error.title.signIn': 'Anmeldung fehlgeschlagen',
+  'error.network':
+    'Keine Verbindung zum Server. Bitte prüfe deine Verbindung und versuche es erneut.',
+  'error.timeout':
+    'Der Server hat zu lange nicht geantwortet. Bitte versuche es erneut.',
+  'error.aborted': 'Die Anfrage wurde abgebrochen.',
+  'error.parse':
+    'Der Server hat eine Antwort gesendet, die diese App nicht versteht. Ein Neuladen der Seite kann helfen.',
+  'error.authToken':
+    'Der Server hat dieses Token nicht akzeptiert. Prüfe es und versuche es erneut.',
+  'error.authSession':
+    'Deine Sitzung ist nicht autorisiert. Bitte melde dich erneut an.',
+  'error.rateLimited':
+    'Zu viele Anfragen. Bitte versuche es in {seconds, plural, one {# Sekunde} other {# Sekunden}} erneut.',
+  'error.rateLimitedUnknown':
+    'Zu viele Anfragen. Bitte versuche es gleich noch einmal.',
+  'error.server':
+    'Der Server hat gerade Probleme. Bitte versuche es in Kürze erneut.',
+  'error.unknown': 'Etwas ist schiefgelaufen. Bitte versuche es erneut.',
+
+  // Preferences dialog
+  'preferences.title': 'Einstellungen',
+  'preferences.description':
+    'In diesem Browser gespeichert. Änderungen gelten sofort.',
+  'preferences.language': 'Sprache',
+  'preferences.languageAuto': 'Browsersprache ({language})',
+  'preferences.theme': 'Design',
+  'preferences.themeSystem': 'Wie Gerät',
+  'preferences.themeLight': 'Hell',
+  'preferences.themeDark': 'Dunkel',
+  'preferences.themeHighContrast': 'Hoher Kontrast',
+  'preferences.timeDisplay': 'Nachrichtenzeiten',
+  'preferences.timeDisplayAbsolute': 'Uhrzeit',
+  'preferences.timeDisplayRelative': 'Relativ („vor 2 Min.“)',
+  'preferences.hourCycle': 'Uhr',
+  'preferences.hourCycleAuto': 'Wie in der Sprache üblich',
+  'preferences.hourCycle12': '12 Stunden',
+  'preferences.hourCycle24': '24 Stunden',
+  'preferences.timeZone': 'Zeitzone',
+  'preferences.timeZoneDevice': 'Dieses Gerät ({timeZone})',
+  'preferences.done': 'Fertig',
+
+  // Sign-in
+  'signIn.title': 'Bei Doodle Chat anmelden',
+  'signIn.message': 'Gib das API-Token deines Chat-Servers ein.',
+  'signIn.submit': 'Anmelden',
+  'signIn.checking': 'Wird geprüft…',
+  'signIn.tokenLabel': 'API-Token',
+  'signIn.tokenMissing': 'Gib ein API-Token ein.',
+  'signIn.fakeTokenHint': 'Die Fake-API akzeptiert „{token}“.',
+  'signIn.remember': 'Auf diesem Gerät angemeldet bleiben',
+  'signIn.expiredTitle': 'Deine Sitzung ist abgelaufen',
+  'signIn.expiredMessage':
+    'Melde dich erneut an, um fortzufahren. Deine Entwürfe bleiben erhalten, und zwischenzeitlich gesendete Nachrichten werden zugestellt, sobald du zurück bist.',
+
+  // Display name
+  'identity.welcomeTitle': 'Willkommen bei Doodle Chat',
+  'identity.welcomeMessage':
+    'Wähle den Namen, den dein Team neben deinen Nachrichten sieht. Du kannst ihn später in der Chat-Kopfzeile ändern.',
+  'identity.start': 'Loslegen',
+  'identity.changeTitle': 'Anzeigenamen ändern',
+  'identity.changeMessage':
+    'Neue Nachrichten werden unter diesem Namen gesendet. Bereits gesendete Nachrichten behalten den alten.',
+  'identity.label': 'Anzeigename',
+  'identity.cancel': 'Abbrechen',
+  'identity.save': 'Speichern',
+  'identity.empty': 'Gib einen Anzeigenamen ein.',
+  'identity.tooLong':
+    'Anzeigenamen dürfen höchstens {max, number} Zeichen lang sein.',
+
+  // Layout
+  'layout.skipLink': 'Zum Hauptinhalt springen',
+  'layout.notFoundTitle': 'Unterhaltung nicht gefunden',
+  'layout.notFoundMessage':
+    'Sie wurde vielleicht entfernt, oder der Link ist falsch.',
+  'layout.notFoundLink': 'Zur Hauptunterhaltung',
+
+  // Conversation list
+  'conversations.title': 'Unterhaltungen',
+  'conversations.loading': 'Unterhaltungen werden geladen...',
+  'conversations.retry': 'Erneut versuchen',
+  'conversations.empty': 'Noch keine Nachrichten',
+  'conversations.deleted': 'Nachricht gelöscht',
+  'conversations.preview': '{author}: {text}',
+  'conversations.unread':
+    '{count, plural, one {# ungelesene Nachricht} other {# ungelesene Nachrichten}}',
+
+  // Reactions
+  'reactions.label': 'Reaktionen',
+  'reactions.count':
+    '{emoji}, {count, plural, one {# Reaktion} other {# Reaktionen}}',
+  'reactions.picker': 'Reaktion auswählen',
+  'reactions.you': 'Du',
+  'reactions.thumbsUp': 'Daumen hoch',
+  'reactions.heart': 'Herz',
+  'reactions.laughing': 'Lachen',
+  'reactions.surprised': 'Überrascht',
+  'reactions.sad': 'Traurig',
+  'reactions.party': 'Party',
+};
+
+export default de;
@@ -0,0 +1,189 @@
+/**
+ * English Catalog
+ *
+ * The source language: its keys define MessageKey (@models/i18n), so every
+ * other catalog must translate exactly these. Always bundled, and used
+ * until another language has loaded. Patterns use the syntax of
+ * @i18n/format-message.
+ *
+ */
+
+const en = {
+  // Chat screen
+  'chat.loading': 'Loading messages...',
+  'chat.reconnecting': 'Reconnecting (attempt {attempt})…',
+  'chat.sending': 'Sending message...',
+  'chat.reloadPage': 'Reload page',
+  'chat.retry': 'Retry',
+
+  // Chat header
+  'header.label': 'Chat header',
+  'header.emoji': 'lady and computer emoji',
+  'header.participants': 'Group participants ({count}):',
+  'header.changeName': 'Change display name (currently {name})',
+  'header.darkMode': 'Dark mode',
+  'header.preferences': 'Preferences',
+  'header.signOut': 'Sign out',
+
+  // Message list
+  'list.label': 'Messages',
+  'list.emptyTitle': 'No messages yet',
+  'list.emptyMessage': 'Start the conversation by sending a message.',
+  'list.loadingOlder': 'Loading older messages...',
+  'list.olderError': 'Unable to load older messages.',
+  'list.retry': 'Retry',
+  'list.loadOlder': 'Load older messages',
+  'list.beginning': 'This is the beginning of the conversation',
+  'list.newMessages': 'New messages',
+  'list.scrollToNew': 'Scroll to new messages',
+
+  // Message
+  'message.deleted': 'This message was deleted',
+  'message.inReplyTo': 'In reply to',
+  'message.parentNotLoaded': 'Original message not loaded',
+  'message.editLabel': 'Edit message',
+  'message.cancel': 'Cancel',
+  'message.save': 'Save',
+  'message.sending': 'Sending',
+  'message.queued': 'Queued',
+  'message.queuedHint': "Will be sent when you're back online",
+  'message.edited': '(edited)',
+  'message.editedAt': 'Edited {date}',
+  'message.react': 'React',
+  'message.reactLabel': 'Add reaction',
+  'message.reply': 'Reply',
+  'message.replyLabel': 'Reply to {author}',
+  'message.edit': 'Edit',
+  'message.delete': 'Delete',
+  'message.deleteLabel': 'Delete message',
+  'message.confirmDeleteLabel': 'Confirm deletion',
+  'message.confirmDelete': 'Delete this message?',
+  'message.discard': 'Discard',
+  'message.discardQueuedLabel': 'Discard queued message',
+  'message.notDelivered': 'Not delivered',
+  'message.retry': 'Retry',
+  'message.retryLabel': 'Retry sending message',
+  'message.discardUnsentLabel': 'Discard unsent message',
+
+  // Composer
+  'composer.replyingTo': 'Replying to {author}: {text}',
+  'composer.replyingToUnknown': 'Replying to a message',
+  'composer.cancelReply': 'Cancel reply',
+  'composer.label': 'Message',
+  'composer.placeholder': 'Type a message...',
+  'composer.send': 'Send',
+  'composer.sendLabel': 'Send message',
+  'composer.tooLong':
+    'Message cannot exceed {max, plural, one {# character} other {# characters}} ({length, number}/{max, number})',
+  'composer.truncated':
+    'Message was truncated to {max, plural, one {# character} other {# characters}}. The first {max, plural, one {character} other {# characters}} will be sent.',
+
+  // Times
+  'time.justNow': 'just now',
+  'time.today': 'Today',
+  'time.yesterday': 'Yesterday',
+
+  // Errors (see @utils/describe-error)
+  'error.title.load': 'Unable to load messages',
+  'error.title.send': 'Unable to send message',
+  'error.title.edit': 'Unable to edit message',
+  'error.title.delete': 'Unable to delete message',
+  'error.title.react': 'Unable to update reaction',
+  'error.title.signIn': 'Unable to sign in',
+  'error.network':
+    'Unable to connect to the server. Please check your connection and try again.',
+  'error.timeout': 'The server took too long to respond. Please try again.',
+  'error.aborted': 'The request was cancelled.',
+  'error.parse':
+    'The server sent a response this app does not understand. Reloading the page may help.',
+  'error.authToken':
+    'The server did not accept this token. Check it and try again.',
+  'error.authSession': 'Your session is not authorized. Please sign in again.',
+  'error.rateLimited':
+    'Too many requests. Please try again in {seconds, plural, one {# second} other {# seconds}}.',
+  'error.rateLimitedUnknown':
+    'Too many requests. Please try again in a moment.',
+  'error.server':
+    'The server is having trouble right now. Please try again shortly.',
+  'error.unknown': 'Something went wrong. Please try again.',
+
+  // Preferences dialog
+  'preferences.title': 'Preferences',
+  'preferences.description': 'Saved in this browser. Changes apply right away.',
+  'preferences.language': 'Language',
+  'preferences.languageAuto': 'Browser language ({language})',
+  'preferences.theme': 'Theme',
+  'preferences.themeSystem': 'Same as device',
+  'preferences.themeLight': 'Light',
+  'preferences.themeDark': 'Dark',
+  'preferences.themeHighContrast': 'High contrast',
+  'preferences.timeDisplay': 'Message times',
+  'preferences.timeDisplayAbsolute': 'Clock time',
+  'preferences.timeDisplayRelative': 'Relative ("2m ago")',
+  'preferences.hourCycle': 'Clock',
+  'preferences.hourCycleAuto': 'Language default',
+  'preferences.hourCycle12': '12-hour',
+  'preferences.hourCycle24': '24-hour',
+  'preferences.timeZone': 'Time zone',
+  'preferences.timeZoneDevice': 'This device ({timeZone})',
+  'preferences.done': 'Done',
+
+  // Sign-in
+  'signIn.title': 'Sign in to Doodle Chat',
+  'signIn.message': 'Enter the API token of your chat server.',
+  'signIn.submit': 'Sign in',
+  'signIn.checking': 'Checking…',
+  'signIn.tokenLabel': 'API token',
+  'signIn.tokenMissing': 'Enter an API token.',
+  'signIn.fakeTokenHint': 'The fake API accepts “{token}”.',
+  'signIn.remember': 'Remember me on this device',
+  'signIn.expiredTitle': 'Your session has expired',
+  'signIn.expiredMessage':
+    "Sign in again to continue. Your drafts are kept, and messages sent in the meantime are delivered once you're back.",
+
+  // Display name
+  'identity.welcomeTitle': 'Welcome to Doodle Chat',
+  'identity.welcomeMessage':
+    'Choose the name your teammates will see next to your messages. You can change it later from the chat header.',
+  'identity.start': 'Start chatting',
+  'identity.changeTitle': 'Change display name',
+  'identity.changeMessage':
+    'New messages are sent under this name. Messages you already sent keep the old one.',
+  'identity.label': 'Display name',
+  'identity.cancel': 'Cancel',
+  'identity.save': 'Save',
+  'identity.empty': 'Enter a display name.',
+  'identity.tooLong':
+    'Display names can be at most {max, plural, one {# character} other {# characters}}.',
+
+  // Layout
+  'layout.skipLink': 'Skip to main content',
+  'layout.notFoundTitle': 'Conversation not found',
+  'layout.notFoundMessage': 'It may have been removed, or the link is wrong.',
+  'layout.notFoundLink': 'Go to the main conversation',
+
+  // Conversation list
+  'conversations.title': 'Conversations',
+  'conversations.loading': 'Loading conversations...',
+  'conversations.retry': 'Retry',
+  'conversations.empty': 'No messages yet',
+  'conversations.deleted': 'Message deleted',
+  'conversations.preview': '{author}: {text}',
+  'conversations.unread':
+    '{count, plural, one {# unread message} other {# unread messages}}',
+
+  // Reactions
+  'reactions.label': 'Reactions',
+  'reactions.count':
+    '{emoji}, {count, plural, one {# reaction} other {# reactions}}',
+  'reactions.picker': 'Choose a reaction',
+  'reactions.you': 'You',
+  'reactions.thumbsUp': 'Thumbs up',
+  'reactions.heart': 'Heart',
+  'reactions.laughing': 'Laughing',
+  'reactions.surprised': 'Surprised',
+  'reactions.sad': 'Sad',
+  'reactions.party': 'Party',
+};
+
+export default en;
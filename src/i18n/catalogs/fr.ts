@@ -0,0 +1,183 @@
+import type { Catalog } from '@models/i18n';
+
+const fr: Catalog = {
+  // Chat screen
+  'chat.loading': 'Chargement des messages...',
+  'chat.reconnecting': 'Reconnexion (tentative {attempt})…',
+  'chat.sending': 'Envoi du message...',
+  'chat.reloadPage': 'Recharger la page',
+  'chat.retry': 'Réessayer',
+
+  // Chat header
+  'header.label': 'En-tête de la discussion',
+  'header.emoji': 'emoji femme devant un ordinateur',
+  'header.participants': 'Participants du groupe ({count}) :',
+  'header.changeName': 'Changer de nom affiché (actuellement {name})',
+  'header.darkMode': 'Mode sombre',
+  'header.preferences': 'Préférences',
+  'header.signOut': 'Se déconnecter',
+
+  // Message list
+  'list.label': 'Messages',
+  'list.emptyTitle': 'Aucun message pour le moment',
+  'list.emptyMessage': 'Lancez la conversation en envoyant un message.',
+  'list.loadingOlder': 'Chargement des messages précédents...',
+  'list.olderError': 'Impossible de charger les messages précédents.',
+  'list.retry': 'Réessayer',
+  'list.loadOlder': 'Charger les messages précédents',
+  'list.beginning': 'Début de la conversation',
+  'list.newMessages': 'Nouveaux messages',
+  'list.scrollToNew': 'Aller aux nouveaux messages',
+
+  // Message
+  'message.deleted': 'Ce message a été supprimé',
+  'message.inReplyTo': 'En réponse à',
+  'message.parentNotLoaded': 'Message d’origine non chargé',
+  'message.editLabel': 'Modifier le message',
+  'message.cancel': 'Annuler',
+  'message.save': 'Enregistrer',
+  'message.sending': 'Envoi',
+  'message.queued': 'En attente',
+  'message.queuedHint': 'Sera envoyé dès votre retour en ligne',
+  'message.edited': '(modifié)',
+  'message.editedAt': 'Modifié le {date}',
+  'message.react': 'Réagir',
+  'message.reactLabel': 'Ajouter une réaction',
+  'message.reply': 'Répondre',
+  'message.replyLabel': 'Répondre à {author}',
+  'message.edit': 'Modifier',
+  'message.delete': 'Supprimer',
+  'message.deleteLabel': 'Supprimer le message',
+  'message.confirmDeleteLabel': 'Confirmer la suppression',
+  'message.confirmDelete': 'Supprimer ce message ?',
+  'message.discard': 'Abandonner',
+  'message.discardQueuedLabel': 'Abandonner le message en attente',
+  'message.notDelivered': 'Non distribué',
+  'message.retry': 'Réessayer',
+  'message.retryLabel': 'Réessayer d’envoyer le message',
+  'message.discardUnsentLabel': 'Abandonner le message non envoyé',
+
+  // Composer
+  'composer.replyingTo': 'Réponse à {author} : {text}',
+  'composer.replyingToUnknown': 'Réponse à un message',
+  'composer.cancelReply': 'Annuler la réponse',
+  'composer.label': 'Message',
+  'composer.placeholder': 'Écrivez un message...',
+  'composer.send': 'Envoyer',
+  'composer.sendLabel': 'Envoyer le message',
+  'composer.tooLong':
+    'Un message ne peut pas dépasser {max, plural, one {# caractère} other {# caractères}} ({length, number}/{max, number})',
+  'composer.truncated':
+    'Le message a été tronqué à {max, plural, one {# caractère} other {# caractères}}. {max, plural, one {Le premier caractère sera envoyé} other {Les # premiers caractères seront envoyés}}.',
+
+  // Times
+  'time.justNow': 'à l’instant',
+  'time.today': 'Aujourd’hui',
+  'time.yesterday': 'Hier',
+
+  // Errors
+  'error.title.load': 'Impossible de charger les messages',
+  'error.title.send': 'Impossible d’envoyer le message',
+  'error.title.edit': 'Impossible de modifier le message',
+  'error.title.delete': 'Impossible de supprimer le message',
+  'error.title.react': 'Impossible de mettre à jour la réaction',
+  'error.title.signIn': 'Connexion impossible',
+  'error.network':
+    'Impossible de joindre le serveur. Vérifiez votre connexion et réessayez.',
+  'error.timeout': 'Le serveur a mis trop de temps à répondre. Réessayez.',
+  'error.aborted': 'La requête a été annulée.',
+  'error.parse':
+    'Le serveur a envoyé une réponse que cette application ne comprend pas. Recharger la page peut aider.',
+  'error.authToken':
+    'Le serveur n’a pas accepté ce jeton. Vérifiez-le et réessayez.',
+  'error.authSession':
+    'Votre session n’est pas autorisée. Veuillez vous reconnecter.',
+  'error.rateLimited':
+    'Trop de requêtes. Réessayez dans {seconds, plural, one {# seconde} other {# secondes}}.',
+  'error.rateLimitedUnknown': 'Trop de requêtes. Réessayez dans un instant.',
+  'error.server':
+    'Le serveur rencontre des difficultés. Réessayez dans quelques instants.',
+  'error.unknown': 'Une erreur est survenue. Veuillez réessayer.',
+
+  // Preferences dialog
+  'preferences.title': 'Préférences',
+  'preferences.description':
+    'Enregistrées dans ce navigateur. Les changements s’appliquent immédiatement.',
+  'preferences.language': 'Langue',
+  'preferences.languageAuto': 'Langue du navigateur ({language})',
+  'preferences.theme': 'Thème',
+  'preferences.themeSystem': 'Comme l’appareil',
+  'preferences.themeLight': 'Clair',
+  'preferences.themeDark': 'Sombre',
+  'preferences.themeHighContrast': 'Contraste élevé',
+  'preferences.timeDisplay': 'Heure des messages',
+  'preferences.timeDisplayAbsolute': 'Heure',
+  'preferences.timeDisplayRelative': 'Relative (« il y a 2 min »)',
+  'preferences.hourCycle': 'Horloge',
+  'preferences.hourCycleAuto': 'Selon la langue',
+  'preferences.hourCycle12': '12 heures',
+  'preferences.hourCycle24': '24 heures',
+  'preferences.timeZone': 'Fuseau horaire',
+  'preferences.timeZoneDevice': 'Cet appareil ({timeZone})',
+  'preferences.done': 'Terminé',
+
+  // Sign-in
+  'signIn.title': 'Se connecter à Doodle Chat',
+  'signIn.message': 'Saisissez le jeton API de votre serveur de discussion.',
+  'signIn.submit': 'Se connecter',
+  'signIn.checking': 'Vérification…',
+  'signIn.tokenLabel': 'Jeton API',
+  'signIn.tokenMissing': 'Saisissez un jeton API.',
+  'signIn.fakeTokenHint': 'L’API factice accepte « {token} ».',
+  'signIn.remember': 'Se souvenir de moi sur cet appareil',
+  'signIn.expiredTitle': 'Votre session a expiré',
+  'signIn.expiredMessage':
+    'Reconnectez-vous pour continuer. Vos brouillons sont conservés, et les messages envoyés entre-temps seront distribués à votre retour.',
+
+  // Display name
+  'identity.welcomeTitle': 'Bienvenue sur Doodle Chat',
+  'identity.welcomeMessage':
+    'Choisissez le nom que vos coéquipiers verront à côté de vos messages. Vous pourrez le modifier plus tard depuis l’en-tête de la discussion.',
+  'identity.start': 'Commencer',
+  'identity.changeTitle': 'Changer de nom affiché',
+  'identity.changeMessage':
+    'Les nouveaux messages sont envoyés sous ce nom. Les messages déjà envoyés gardent l’ancien.',
+  'identity.label': 'Nom affiché',
+  'identity.cancel': 'Annuler',
+  'identity.save': 'Enregistrer',
+  'identity.empty': 'Saisissez un nom affiché.',
+  'identity.tooLong':
+    'Un nom affiché ne peut pas dépasser {max, plural, one {# caractère} other {# caractères}}.',
+
+  // Layout
+  'layout.skipLink': 'Aller au contenu principal',
+  'layout.notFoundTitle': 'Conversation introuvable',
+  'layout.notFoundMessage':
+    'Elle a peut-être été supprimée, ou le lien est incorrect.',
+  'layout.notFoundLink': 'Aller à la conversation principale',
+
+  // Conversation list
+  'conversations.title': 'Conversations',
+  'conversations.loading': 'Chargement des conversations...',
+  'conversations.retry': 'Réessayer',
+  'conversations.empty': 'Aucun message pour le moment',
+  'conversations.deleted': 'Message supprimé',
+  'conversations.preview': '{author} : {text}',
+  'conversations.unread':
+    '{count, plural, one {# message non lu} other {# messages non lus}}',
+
+  // Reactions
+  'reactions.label': 'Réactions',
+  'reactions.count':
+    '{emoji}, {count, plural, one {# réaction} other {# réactions}}',
+  'reactions.picker': 'Choisir une réaction',
+  'reactions.you': 'Vous',
+  'reactions.thumbsUp': 'Pouce levé',
+  'reactions.heart': 'Cœur',
+  'reactions.laughing': 'Rire',
+  'reactions.surprised': 'Surprise',
+  'reactions.sad': 'Tristesse',
+  'reactions.party': 'Fête',
+};
+
+export default fr;
@@ -0,0 +1,336 @@
+/**
+ * Message Formatting
+ *
+ * Formats the ICU MessageFormat subset the catalogs use:
+ * - `{name}`: Interpolation (numbers are formatted for the locale)
+ * - `{name, number}`: A number
+ * - `{name, plural, =0 {…} one {…} other {…}}`: Plurals, by exact value
+ *   then by the locale's plural category (Intl.PluralRules); `#` in a case
+ *   is the number
+ * - `{name, select, a {…} other {…}}`: A case per value
+ *
+ * There is no apostrophe quoting: `'` is always literal, and `{`, `}` (and
+ * `#` inside plurals) can't appear as text.
+ *
+ * Parsed messages and Intl objects are cached; formatting runs on every
+ * render.
+ *
+ */
+
+import type { MessageParams } from '@models/i18n';
+
+type MessageNode =
+  | string
+  | { readonly type: 'argument'; readonly name: string }
+  | { readonly type: 'number'; readonly name: string }
+  | { readonly type: 'pound' }
+  | {
+      readonly type: 'plural' | 'select';
+      readonly name: string;
+      readonly cases: Readonly<Record<string, MessageNode[]>>;
+    };
+
+const parsedMessages = new Map<string, MessageNode[]>();
+const pluralRules = new Map<string, Intl.PluralRules>();
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Recursive descent parser over one message pattern.
+ */
+class MessageParser {
+  private index = 0;
+  private readonly source: string;
+
+  constructor(source: string) {
+    this.source = source;
+  }
+
+  parse(): MessageNode[] {
+    const nodes = this.parseNodes(false);
+
+    if (this.index < this.source.length) {
+      this.fail('Unexpected "}"');
+    }
+
+    return nodes;
+  }
+
+  /**
+   * Text and arguments up to an unmatched `}` or the end.
+   *
+   * @param inPlural - Whether `#` stands for the plural number
+   */
+  private parseNodes(inPlural: boolean): MessageNode[] {
+    const nodes: MessageNode[] = [];
+    let text = '';
+
+    while (this.index < this.source.length) {
+      const char = this.source[this.index];
+
+      if (char === '}') {
+        break;
+      }
+
+      if (char === '{' || (char === '#' && inPlural)) {
+        if (text) {
+          nodes.push(text);
+          text = '';
+        }
+
+        this.index++;
+        nodes.push(
+          char === '#' ? { type: 'pound' } : this.parseArgument(inPlural)
+        );
+        continue;
+      }
+
+      text += char;
+      this.index++;
+    }
+
+    if (text) {
+      nodes.push(text);
+    }
+
+    return nodes;
+  }
+
+  /**
+   * An argument after its `{`, up to and including its `}`. Inside a
+   * plural, `#` keeps its meaning in nested selects.
+   */
+  private parseArgument(inPlural: boolean): MessageNode {
+    const name = this.readUntil(',}');
+
+    if (!name) {
+      this.fail('Missing argument name');
+    }
+
+    if (this.consume('}')) {
+      return { type: 'argument', name };
+    }
+
+    this.expect(',');
+    const type = this.readUntil(',}');
+
+    if (type === 'number') {
+      this.expect('}');
+      return { type: 'number', name };
+    }
+
+    if (type !== 'plural' && type !== 'select') {
+      this.fail(`Unknown argument type "${type}"`);
+    }
+
+    this.expect(',');
+    const cases: Record<string, MessageNode[]> = {};
+
+    while (!this.consume('}')) {
+      const selector = this.readUntil('{}');
+
+      if (!selector) {
+        this.fail(`Missing case selector in "${name}"`);
+      }
+
+      this.expect('{');
+      cases[selector] = this.parseNodes(type === 'plural' || inPlural);
+      this.expect('}');
+    }
+
+    if (!cases.other) {
+      this.fail(`Missing "other" case in "${name}"`);
+    }
+
+    return { type, name, cases };
+  }
+
+  /**
+   * Trimmed text up to (not including) one of `stops`.
+   */
+  private readUntil(stops: string): string {
+    const start = this.index;
+
+    while (
+      this.index < this.source.length &&
+      !stops.includes(this.source[this.index])
+    ) {
+      this.index++;
+    }
+
+    return this.source.slice(start, this.index).trim();
+  }
+
+  private consume(char: string): boolean {
+    while (/\s/.test(this.source[this.index] ?? '')) {
+      this.index++;
+    }
+
+    if (this.source[this.index] !== char) {
+      return false;
+    }
+
+    this.index++;
+    return true;
+  }
+
+  private expect(char: string): void {
+    if (!this.consume(char)) {
+      this.fail(`Expected "${char}"`);
+    }
+  }
+
+  private fail(reason: string): never {
+    throw new SyntaxError(
+      `${reason} at ${this.index} in message "${this.source}"`
+    );
+  }
+}
+
+function parseMessage(source: string): MessageNode[] {
+  let nodes = parsedMessages.get(source);
+
+  if (!nodes) {
+    nodes = new MessageParser(source).parse();
+    parsedMessages.set(source, nodes);
+  }
+
+  return nodes;
+}
+
+function getPluralRules(locale: string): Intl.PluralRules {
+  let rules = pluralRules.get(locale);
+
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRules.set(locale, rules);
+  }
+
+  return rules;
+}
+
+function getNumberFormat(locale: string): Intl.NumberFormat {
+  let format = numberFormats.get(locale);
+
+  if (!format) {
+    format = new Intl.NumberFormat(locale);
+    numberFormats.set(locale, format);
+  }
+
+  return format;
+}
+
+/**
+ * Appends formatted parts, merging adjacent strings.
+ */
+function pushPart<T>(parts: Array<string | T>, part: string | T): void {
+  const last = parts.length - 1;
+
+  if (typeof part === 'string' && typeof parts[last] === 'string') {
+    parts[last] += part;
+  } else if (part !== '') {
+    parts.push(part);
+  }
+}
+
+function formatNodes<T>(
+  nodes: ReadonlyArray<MessageNode>,
+  params: MessageParams<T>,
+  locale: string,
+  pluralValue: number | undefined,
+  parts: Array<string | T>
+): void {
+  for (const node of nodes) {
+    if (typeof node === 'string') {
+      pushPart(parts, node);
+      continue;
+    }
+
+    if (node.type === 'pound') {
+      pushPart(parts, getNumberFormat(locale).format(pluralValue ?? 0));
+      continue;
+    }
+
+    const value = params[node.name];
+
+    if (value === undefined) {
+      /** A forgotten parameter stays visible instead of silently empty. */
+      pushPart(parts, `{${node.name}}`);
+      continue;
+    }
+
+    switch (node.type) {
+      case 'argument':
+        pushPart(
+          parts,
+          typeof value === 'number'
+            ? getNumberFormat(locale).format(value)
+            : value
+        );
+        break;
+      case 'number':
+        pushPart(parts, getNumberFormat(locale).format(Number(value)));
+        break;
+      case 'plural': {
+        const count = Number(value);
+        const cases =
+          node.cases[`=${count}`] ??
+          node.cases[getPluralRules(locale).select(count)] ??
+          node.cases.other;
+        formatNodes(cases, params, locale, count, parts);
+        break;
+      }
+      case 'select':
+        formatNodes(
+          node.cases[String(value)] ?? node.cases.other,
+          params,
+          locale,
+          pluralValue,
+          parts
+        );
+        break;
+    }
+  }
+}
+
+/**
+ * Formats a message pattern into parts: strings, and the rich values
+ * (e.g. React elements) interpolated as they are.
+ *
+ * @param source - Message pattern
+ * @param params - Values of its arguments
+ * @param locale - Locale for plurals and numbers
+ * @returns Parts in order, adjacent strings merged
+ * @throws {SyntaxError} If the pattern is malformed
+ */
+export function formatMessageParts<T>(
+  source: string,
+  params: MessageParams<T>,
+  locale: string
+): Array<string | T> {
+  const parts: Array<string | T> = [];
+  formatNodes(parseMessage(source), params, locale, undefined, parts);
+  return parts;
+}
+
+/**
+ * Formats a message pattern.
+ *
+ * @param source - Message pattern
+ * @param params - Values of its arguments
+ * @param locale - Locale for plurals and numbers
+ * @returns The message
+ * @throws {SyntaxError} If the pattern is malformed
+ *
+ * @example
+ * ```TypeScript
+ * formatMessage('{count, plural, one {# reply} other {# replies}}', { count: 1200 }, 'en');
+ * // "1,200 replies"
+ * ```
+ */
+export function formatMessage(
+  source: string,
+  params: MessageParams,
+  locale: string
+): string {
+  return formatMessageParts(source, params, locale).join('');
+}
@@ -0,0 +1,216 @@
+/**
+ * I18n Module
+ *
+ * The language of the UI: the one chosen in the preferences, otherwise the
+ * first of the browser's languages that has a catalog (English if none).
+ * English is bundled; other catalogs are separate chunks, loaded when first
+ * used. Framework-agnostic: React reads it through @hooks/useTranslation,
+ * plain modules (error copy, time formatting) call `i18n.t()` directly.
+ *
+ * The document's `lang` and `dir` follow the language, so right-to-left
+ * languages mirror the layout (the CSS uses logical properties).
+ *
+ */
+
+import type {
+  Catalog,
+  I18nState,
+  MessageKey,
+  MessageParams,
+} from '@models/i18n';
+import type { StoreListener } from '@store/message-store';
+import { preferences } from '@preferences/preferences';
+import en from './catalogs/en';
+import { formatMessage, formatMessageParts } from './format-message';
+import {
+  DEFAULT_LOCALE,
+  LOCALES,
+  detectLocale,
+  isSupportedLocale,
+  type Locale,
+} from './locales';
+
+const CATALOG_LOADERS: Readonly<
+  Record<Locale, () => Promise<{ default: Catalog }>>
+> = {
+  en: () => Promise.resolve({ default: en }),
+  de: () => import('./catalogs/de'),
+  fr: () => import('./catalogs/fr'),
+  ar: () => import('./catalogs/ar'),
+};
+
+function getBrowserLanguages(): ReadonlyArray<string> {
+  return typeof navigator === 'undefined' ? [] : navigator.languages;
+}
+
+/**
+ * The language the browser asks for, among the supported ones.
+ */
+export function detectBrowserLocale(): Locale {
+  return detectLocale(getBrowserLanguages());
+}
+
+/**
+ * Tag for Intl formatting: the browser's own tag when it is in this
+ * language, so regional conventions survive ("en-GB" keeps its 24-hour
+ * clock and "de-CH" its number separators).
+ */
+function getFormatLocale(locale: Locale): string {
+  return (
+    getBrowserLanguages().find(
+      language => language.split('-')[0].toLowerCase() === locale
+    ) ?? locale
+  );
+}
+
+function createState(locale: Locale, catalog: Catalog): I18nState {
+  return {
+    locale,
+    formatLocale: getFormatLocale(locale),
+    direction: LOCALES[locale].direction,
+    catalog,
+  };
+}
+
+/**
+ * I18n Class
+ *
+ * - getState()/subscribe(): The useSyncExternalStore contract
+ * - t(): Formats a message of the current catalog
+ * - formatParts(): Same, keeping rich values (e.g. React elements) as parts
+ * - ready: Settles once the initial language has loaded (or failed to)
+ */
+export class I18n {
+  private state: I18nState;
+  private readonly listeners = new Set<StoreListener>();
+  private readonly catalogs = new Map<Locale, Catalog>();
+  private requestedLocale: Locale = DEFAULT_LOCALE;
+  readonly ready: Promise<void>;
+
+  constructor() {
+    this.state = createState(DEFAULT_LOCALE, en);
+    this.catalogs.set(DEFAULT_LOCALE, en);
+    this.ready = this.load(this.resolveLocale());
+
+    preferences.subscribe(this.handleChange);
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('languagechange', this.handleChange);
+    }
+  }
+
+  /**
+   * Current snapshot. Bound so it can be passed to useSyncExternalStore.
+   */
+  readonly getState = (): I18nState => this.state;
+
+  /**
+   * Registers a change listener. Bound so it can be passed to
+   * useSyncExternalStore.
+   *
+   * @returns Function that removes the listener
+   */
+  readonly subscribe = (listener: StoreListener): (() => void) => {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Formats a message in the current language. Bound so it can be passed
+   * around.
+   *
+   * @param key - Message key
+   * @param params - Values of the message's arguments
+   *
+   * @example
+   * ```TypeScript
+   * i18n.t('error.rateLimited', { seconds: 5 });
+   * // "Too many requests. Please try again in 5 seconds."
+   * ```
+   */
+  readonly t = (key: MessageKey, params: MessageParams = {}): string =>
+    formatMessage(this.state.catalog[key], params, this.state.formatLocale);
+
+  /**
+   * Formats a message in the current language into parts, leaving rich
+   * values in place so they can be rendered where the translation puts
+   * them.
+   */
+  readonly formatParts = <T>(
+    key: MessageKey,
+    params: MessageParams<T>
+  ): Array<string | T> =>
+    formatMessageParts(
+      this.state.catalog[key],
+      params,
+      this.state.formatLocale
+    );
+
+  /**
+   * The chosen language, or the browser's.
+   */
+  private resolveLocale(): Locale {
+    const { locale } = preferences.getState();
+    return isSupportedLocale(locale) ? locale : detectBrowserLocale();
+  }
+
+  private readonly handleChange = (): void => {
+    void this.load(this.resolveLocale());
+  };
+
+  /**
+   * Switches to a language once its catalog is loaded. Only the latest
+   * request applies, however the loads finish.
+   */
+  private async load(locale: Locale): Promise<void> {
+    this.requestedLocale = locale;
+    let catalog = this.catalogs.get(locale);
+
+    if (!catalog) {
+      try {
+        catalog = (await CATALOG_LOADERS[locale]()).default;
+        this.catalogs.set(locale, catalog);
+      } catch {
+        // Chunk unavailable (offline, stale deploy): keep the current
+        // language; the next change tries again.
+        return;
+      }
+    }
+
+    if (locale === this.requestedLocale) {
+      this.update(createState(locale, catalog));
+    }
+  }
+
+  /**
+   * Replaces the state, updates the document and notifies listeners if
+   * anything changed.
+   */
+  private update(next: I18nState): void {
+    if (
+      next.locale === this.state.locale &&
+      next.formatLocale === this.state.formatLocale
+    ) {
+      return;
+    }
+
+    this.state = next;
+
+    if (typeof document !== 'undefined') {
+      document.documentElement.lang = next.locale;
+      document.documentElement.dir = next.direction;
+    }
+
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Singleton shared by the UI.
+ */
+export const i18n = new I18n();
+
+export default i18n;
@@ -0,0 +1,55 @@
+/**
+ * Supported Locales
+ *
+ * The languages the UI is translated into, with the name shown in the
+ * language picker (in that language) and the writing direction. Adding a
+ * language takes an entry here, a catalog in `catalogs/` and its loader in
+ * @i18n/i18n.
+ *
+ */
+
+import type { TextDirection } from '@models/i18n';
+
+export const LOCALES = {
+  en: { name: 'English', direction: 'ltr' },
+  de: { name: 'Deutsch', direction: 'ltr' },
+  fr: { name: 'Français', direction: 'ltr' },
+  ar: { name: 'العربية', direction: 'rtl' },
+} as const satisfies Readonly<
+  Record<string, { name: string; direction: TextDirection }>
+>;
+
+/**
+ * Type for supported locale codes (BCP 47 primary language subtags).
+ */
+export type Locale = keyof typeof LOCALES;
+
+/**
+ * The source language: always bundled, and the fallback for everything
+ * else.
+ */
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export function isSupportedLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && Object.hasOwn(LOCALES, value);
+}
+
+/**
+ * Picks the first supported language from the user's preferred ones
+ * (e.g. `navigator.languages`), matching on the primary subtag:
+ * "de-CH" selects German.
+ *
+ * @param languages - BCP 47 tags, most preferred first
+ * @returns A supported locale, DEFAULT_LOCALE if none matches
+ */
+export function detectLocale(languages: ReadonlyArray<string>): Locale {
+  for (const language of languages) {
+    const primary = language.split('-')[0].toLowerCase();
+
+    if (isSupportedLocale(primary)) {
+      return primary;
+    }
+  }
+
+  return DEFAULT_LOCALE;
+}
@@ -0,0 +1,103 @@
+/**
+ * Identity Module
+ *
+ * Display name rules and persistence for the local user's identity.
+ * Framework-agnostic: IdentityProvider exposes it to React.
+ *
+ */
+
+import { i18n } from '@i18n/i18n';
+import type { Identity } from '@models/identity';
+
+/**
+ * Longest accepted display name.
+ */
+export const MAX_DISPLAY_NAME_LENGTH = 40;
+
+/**
+ * localStorage key of the persisted identity.
+ */
+export const IDENTITY_STORAGE_KEY = 'doodle-chat:identity';
+
+/**
+ * Trims a display name and collapses inner whitespace.
+ *
+ * @param displayName - Raw input
+ * @returns The name as it is stored and sent
+ */
+export function normalizeDisplayName(displayName: string): string {
+  return displayName.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Checks a display name.
+ *
+ * @param displayName - Raw input (normalized before checking)
+ * @returns A message describing the problem (in the UI language), or null
+ * if the name is valid
+ */
+export function validateDisplayName(displayName: string): string | null {
+  const normalized = normalizeDisplayName(displayName);
+
+  if (!normalized) {
+    return i18n.t('identity.empty');
+  }
+
+  if (normalized.length > MAX_DISPLAY_NAME_LENGTH) {
+    return i18n.t('identity.tooLong', { max: MAX_DISPLAY_NAME_LENGTH });
+  }
+
+  return null;
+}
+
+/**
+ * Parses a persisted identity.
+ *
+ * @param raw - Stored JSON, or null
+ * @returns The identity, or null if missing or invalid
+ */
+export function parseIdentity(raw: string | null): Identity | null {
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    const displayName =
+      typeof parsed === 'object' && parsed !== null
+        ? (parsed as Record<string, unknown>).displayName
+        : undefined;
+
+    return typeof displayName === 'string' &&
+      validateDisplayName(displayName) === null
+      ? { displayName: normalizeDisplayName(displayName) }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads the persisted identity.
+ *
+ * @returns The identity, or null on first run (or if storage is unavailable)
+ */
+export function loadIdentity(): Identity | null {
+  try {
+    return parseIdentity(localStorage.getItem(IDENTITY_STORAGE_KEY));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Persists the identity. Best-effort: without storage the name only lasts
+ * for the session.
+ */
+export function saveIdentity(identity: Readonly<Identity>): void {
+  try {
+    localStorage.setItem(IDENTITY_STORAGE_KEY, JSON.stringify(identity));
+  } catch {
+    // Storage unavailable (private mode, quota): keep the identity in memory.
+  }
+}
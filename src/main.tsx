@@ -1,8 +1,11 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import { initializeConfig } from '@config/env';
+import { i18n } from '@i18n/i18n';
 import '@styles/tokens.css';
+import '@styles/themes.css';
 import '@styles/base.css';
+import '@preferences/theme';
 import App from './App.tsx';
 
 /**
@@ -10,8 +13,27 @@ import App from './App.tsx';
  */
 initializeConfig();
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>
-);
+/**
+ * Longest wait for the user's language before the first render.
+ */
+const I18N_READY_TIMEOUT_MS = 3000;
+
+function renderApp(): void {
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>
+  );
+}
+
+/**
+ * The first render waits for the user's language, so the UI doesn't flash
+ * English while its catalog loads. If loading fails or takes too long, it
+ * renders in English and switches once the catalog arrives.
+ */
+void Promise.race([
+  i18n.ready,
+  new Promise<void>(resolve => setTimeout(resolve, I18N_READY_TIMEOUT_MS)),
+])
+  .catch(() => undefined)
+  .then(renderApp);
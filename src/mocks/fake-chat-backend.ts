@@ -0,0 +1,1049 @@
+/**
+ * Fake Chat Backend
+ *
+ * In-process stand-in for the Doodle Chat API, exposed as a fetch-compatible
+ * function so it plugs into ApiClient's `transport` option (or replaces
+ * globalThis.fetch in tests). Lets the app run fully offline.
+ *
+ * Implements:
+ * - GET /conversations with last-message previews and message counts
+ * - GET /conversations/:id/messages with `limit`, `after`, `before` and
+ *   `since` (changes after a time, for polling)
+ * - POST /conversations/:id/messages with the API's validation error envelope
+ * - PATCH and DELETE /conversations/:id/messages/:messageId (edits and
+ *   tombstones)
+ * - PUT and DELETE /conversations/:id/messages/:messageId/reactions/:emoji
+ *   (one reaction per author and emoji)
+ * - /messages as an alias of the default room's messages
+ * - Bearer token checks (401 for a missing or wrong token)
+ * - Idempotency-Key replay for POST
+ * - Configurable latency and failure injection
+ * - Change notifications (subscribe), used by the fake event server
+ *
+ * The API has no accounts, so any client may edit or delete any message;
+ * the app only offers it for the user's own messages. Reactions are
+ * likewise recorded under the display name the client sends.
+ *
+ */
+
+import {
+  CONVERSATIONS_PATH,
+  DEFAULT_CONVERSATION_ID,
+  getMessagePath,
+  getMessagesPath,
+  getReactionPath,
+} from '@api/endpoints';
+import { apiConfig, fakeApiConfig } from '@config/env';
+import type { ApiErrorResponse } from '@models/api';
+import type { Conversation } from '@models/conversation';
+import type { CreateMessageRequest, Message } from '@models/message';
+import {
+  createObjectId,
+  createSeedConversations,
+  escapeHtml,
+  type SeedConversation,
+} from './seed-messages';
+
+/**
+ * Simulated failure kinds.
+ *
+ * - NETWORK: fetch rejects with a TypeError, like an unreachable server
+ * - SERVER_ERROR: 503 Service Unavailable
+ * - RATE_LIMITED: 429 Too Many Requests with a Retry-After header
+ * - HANG: never responds until the request is aborted (exercises timeouts)
+ * - UNAUTHORIZED: 401 Unauthorized, like an expired token
+ */
+export const FakeFailureKind = {
+  NETWORK: 'network',
+  SERVER_ERROR: 'server-error',
+  RATE_LIMITED: 'rate-limited',
+  HANG: 'hang',
+  UNAUTHORIZED: 'unauthorized',
+} as const;
+
+export type FakeFailureKind =
+  (typeof FakeFailureKind)[keyof typeof FakeFailureKind];
+
+/**
+ * Options for creating a fake backend.
+ */
+export interface FakeChatBackendOptions {
+  /**
+   * Base URL the backend answers under (defaults to apiConfig.baseUrl)
+   */
+  readonly baseUrl?: string;
+
+  /**
+   * Token expected in the Authorization header (defaults to apiConfig.token,
+   * or FAKE_API_TOKEN when none is configured)
+   */
+  readonly token?: string;
+
+  /**
+   * Latency per request in milliseconds, fixed or a random range
+   */
+  readonly latencyMs?: number | { readonly min: number; readonly max: number };
+
+  /**
+   * Probability (0–1) that a request fails with `failureKind`
+   */
+  readonly failureRate?: number;
+
+  /**
+   * Failure used for random failures (defaults to SERVER_ERROR)
+   */
+  readonly failureKind?: FakeFailureKind;
+
+  /**
+   * Initial rooms and messages (defaults to createSeedConversations())
+   */
+  readonly seed?: ReadonlyArray<SeedConversation>;
+
+  /**
+   * Clock used for createdAt (defaults to Date.now)
+   */
+  readonly now?: () => number;
+}
+
+/**
+ * Token the fake backend accepts when VITE_API_TOKEN isn't set (the same
+ * one the Doodle Chat API ships with).
+ */
+export const FAKE_API_TOKEN = 'super-secret-doodle-token';
+
+/**
+ * Page size when `limit` is omitted.
+ */
+const DEFAULT_PAGE_LIMIT = 50;
+
+/**
+ * Upper bound accepted for `limit`.
+ */
+const MAX_PAGE_LIMIT = 1000;
+
+/**
+ * Retry-After (seconds) sent with simulated 429 responses.
+ */
+const RATE_LIMIT_RETRY_AFTER_SECONDS = 1;
+
+/**
+ * Longest reaction accepted, in UTF-16 code units (room for emoji with
+ * skin tones and joiners, not for text).
+ */
+const MAX_REACTION_LENGTH = 16;
+
+type FieldError = { readonly field: string; readonly message: string };
+
+/**
+ * A stored room.
+ */
+interface FakeRoom {
+  readonly _id: string;
+  readonly name: string;
+  readonly messages: Message[];
+  /**
+   * Time of the room's latest change (see nextTimestamp)
+   */
+  changedAtMs: number;
+}
+
+/**
+ * The message and emoji addressed by a reaction path.
+ */
+interface FakeReactionTarget {
+  readonly room: FakeRoom;
+  readonly index: number;
+  readonly emoji: string;
+}
+
+/**
+ * What happened to a message: created, or edited/deleted/reacted to
+ * (updated in place).
+ */
+export type FakeMessageChange = 'created' | 'updated';
+
+/**
+ * Listener for created and changed messages.
+ */
+export type FakeMessageListener = (
+  message: Message,
+  conversationId: string,
+  change: FakeMessageChange
+) => void;
+
+/**
+ * When a message last changed (seed messages only have `createdAt`).
+ */
+function getChangedAtMs(message: Message): number {
+  return Date.parse(message.changedAt ?? message.createdAt);
+}
+
+/**
+ * Copies seed rooms into mutable storage.
+ */
+function createRooms(
+  seed: ReadonlyArray<SeedConversation>
+): Map<string, FakeRoom> {
+  return new Map(
+    seed.map(room => [
+      room._id,
+      {
+        _id: room._id,
+        name: room.name,
+        messages: [...room.messages],
+        changedAtMs: Math.max(-Infinity, ...room.messages.map(getChangedAtMs)),
+      },
+    ])
+  );
+}
+
+/**
+ * Builds a JSON response.
+ */
+function jsonResponse(
+  body: unknown,
+  status: number,
+  headers: Readonly<Record<string, string>> = {}
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json; charset=utf-8', ...headers },
+  });
+}
+
+/**
+ * Builds a response in the API's error envelope.
+ */
+function errorResponse(
+  statusCode: number,
+  error: string,
+  message: ApiErrorResponse['message'],
+  headers?: Readonly<Record<string, string>>
+): Response {
+  const body: ApiErrorResponse = { statusCode, error, message };
+  return jsonResponse(body, statusCode, headers);
+}
+
+/**
+ * Error thrown by fetch when its signal aborts.
+ */
+function createAbortError(): DOMException {
+  return new DOMException('The operation was aborted.', 'AbortError');
+}
+
+/**
+ * Resolves after `delayMs`, or rejects with an AbortError when the signal
+ * aborts first. A delay of Infinity waits for the abort only.
+ */
+function wait(delayMs: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const timeoutId = Number.isFinite(delayMs)
+      ? setTimeout(() => {
+          signal?.removeEventListener('abort', handleAbort);
+          resolve();
+        }, delayMs)
+      : undefined;
+
+    function handleAbort() {
+      clearTimeout(timeoutId);
+      reject(createAbortError());
+    }
+
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+}
+
+/**
+ * Reads the URL of a fetch input.
+ */
+function getRequestUrl(input: RequestInfo | URL): string {
+  if (typeof input === 'string') {
+    return input;
+  }
+
+  return input instanceof URL ? input.href : input.url;
+}
+
+/**
+ * Validates an optional ISO timestamp query parameter.
+ */
+function parseTimestampParam(
+  field: string,
+  value: string | null,
+  errors: FieldError[]
+): number | undefined {
+  if (value === null) {
+    return undefined;
+  }
+
+  const timestamp = Date.parse(value);
+
+  if (Number.isNaN(timestamp)) {
+    errors.push({ field, message: `${field} must be a valid ISO 8601 date` });
+    return undefined;
+  }
+
+  return timestamp;
+}
+
+/**
+ * Fake Chat Backend Class
+ *
+ * - fetch: fetch-compatible handler (bound, safe to pass around)
+ * - failNext(): Queues deterministic failures for the next requests
+ * - configure(): Changes latency/failure injection at runtime
+ * - reset()/list(): Inspect and restore the stored rooms and messages
+ * - subscribe(): Notified of every created, edited or deleted message
+ * - injectMessage(): Creates a message as if another client posted it
+ */
+export class FakeChatBackend {
+  private readonly baseUrl: URL;
+  private readonly token: string;
+  private readonly now: () => number;
+  private latencyMs: NonNullable<FakeChatBackendOptions['latencyMs']>;
+  private failureRate: number;
+  private failureKind: FakeFailureKind;
+  private rooms: Map<string, FakeRoom>;
+  private readonly scheduledFailures: FakeFailureKind[] = [];
+  private readonly idempotentReplies = new Map<string, Message>();
+  private readonly listeners = new Set<FakeMessageListener>();
+  private idCounter = 0;
+
+  /**
+   * Creates a new fake backend.
+   *
+   * @param options - Base URL, token, latency, failure injection and seed data
+   */
+  constructor(options: Readonly<FakeChatBackendOptions> = {}) {
+    this.baseUrl = new URL(options.baseUrl ?? apiConfig.baseUrl);
+    this.token = options.token ?? (apiConfig.token || FAKE_API_TOKEN);
+    this.now = options.now ?? Date.now;
+    this.latencyMs = options.latencyMs ?? 0;
+    this.failureRate = options.failureRate ?? 0;
+    this.failureKind = options.failureKind ?? FakeFailureKind.SERVER_ERROR;
+    this.rooms = createRooms(options.seed ?? createSeedConversations());
+  }
+
+  /**
+   * fetch-compatible entry point.
+   *
+   * @example
+   * ```TypeScript
+   * const backend = new FakeChatBackend({ latencyMs: 0 });
+   * const client = new ApiClient(undefined, undefined, {
+   *   transport: backend.fetch,
+   * });
+   * ```
+   */
+  readonly fetch: typeof fetch = async (input, init) => {
+    const url = new URL(getRequestUrl(input));
+    const method = (init?.method ?? 'GET').toUpperCase();
+    const headers = new Headers(init?.headers);
+    const signal = init?.signal;
+
+    await wait(this.pickLatency(), signal);
+
+    const failure = this.pickFailure();
+
+    if (failure === FakeFailureKind.NETWORK) {
+      throw new TypeError('Failed to fetch');
+    }
+
+    if (failure === FakeFailureKind.HANG) {
+      await wait(Infinity, signal);
+    }
+
+    if (failure === FakeFailureKind.SERVER_ERROR) {
+      return errorResponse(
+        503,
+        'Service Unavailable',
+        'Simulated server failure'
+      );
+    }
+
+    if (failure === FakeFailureKind.UNAUTHORIZED) {
+      return errorResponse(401, 'Unauthorized', 'Simulated expired token');
+    }
+
+    if (failure === FakeFailureKind.RATE_LIMITED) {
+      return errorResponse(429, 'Too Many Requests', 'Simulated rate limit', {
+        'Retry-After': String(RATE_LIMIT_RETRY_AFTER_SECONDS),
+      });
+    }
+
+    return this.route(url, method, headers, init?.body);
+  };
+
+  /**
+   * Makes the next `count` requests fail with `kind`, regardless of
+   * failureRate. Useful for deterministic tests and demos.
+   */
+  failNext(kind: FakeFailureKind, count = 1): void {
+    for (let index = 0; index < count; index++) {
+      this.scheduledFailures.push(kind);
+    }
+  }
+
+  /**
+   * Changes latency and failure injection at runtime.
+   */
+  configure(
+    options: Readonly<
+      Pick<FakeChatBackendOptions, 'latencyMs' | 'failureRate' | 'failureKind'>
+    >
+  ): void {
+    this.latencyMs = options.latencyMs ?? this.latencyMs;
+    this.failureRate = options.failureRate ?? this.failureRate;
+    this.failureKind = options.failureKind ?? this.failureKind;
+  }
+
+  /**
+   * Replaces the stored rooms and forgets idempotency keys.
+   */
+  reset(
+    seed: ReadonlyArray<SeedConversation> = createSeedConversations()
+  ): void {
+    this.rooms = createRooms(seed);
+    this.idempotentReplies.clear();
+    this.scheduledFailures.length = 0;
+  }
+
+  /**
+   * Stored messages of a room, oldest first (empty for unknown rooms).
+   */
+  list(
+    conversationId: string = DEFAULT_CONVERSATION_ID
+  ): ReadonlyArray<Message> {
+    return this.rooms.get(conversationId)?.messages ?? [];
+  }
+
+  /**
+   * Registers a listener for message changes (in any room).
+   *
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: FakeMessageListener): () => void {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Creates a message directly, bypassing HTTP (simulates another user).
+   *
+   * @param request - Message text and author
+   * @param conversationId - Room to post to (must exist)
+   * @returns The stored message
+   */
+  injectMessage(
+    request: Readonly<CreateMessageRequest>,
+    conversationId: string = DEFAULT_CONVERSATION_ID
+  ): Message {
+    const room = this.rooms.get(conversationId);
+
+    if (!room) {
+      throw new Error(`Unknown conversation: ${conversationId}`);
+    }
+
+    return this.storeMessage(
+      room,
+      request.message,
+      request.author,
+      request.replyTo
+    );
+  }
+
+  private pickLatency(): number {
+    if (typeof this.latencyMs === 'number') {
+      return this.latencyMs;
+    }
+
+    const { min, max } = this.latencyMs;
+    return min + Math.random() * (max - min);
+  }
+
+  private pickFailure(): FakeFailureKind | undefined {
+    const scheduled = this.scheduledFailures.shift();
+
+    if (scheduled) {
+      return scheduled;
+    }
+
+    return Math.random() < this.failureRate ? this.failureKind : undefined;
+  }
+
+  /**
+   * Dispatches an authenticated request to its handler.
+   */
+  private route(
+    url: URL,
+    method: string,
+    headers: Headers,
+    body: BodyInit | null | undefined
+  ): Response {
+    const basePath = this.baseUrl.pathname.replace(/\/$/, '');
+    const path = url.pathname.startsWith(basePath)
+      ? url.pathname.slice(basePath.length)
+      : url.pathname;
+
+    const notFound = errorResponse(
+      404,
+      'Not Found',
+      `Cannot ${method} ${url.pathname}`
+    );
+    const isConversationList = path === CONVERSATIONS_PATH;
+    const room = this.findRoomByPath(path);
+    const target = room ? undefined : this.findMessageByPath(path);
+    const reaction = room || target ? undefined : this.findReactionByPath(path);
+
+    if (
+      url.origin !== this.baseUrl.origin ||
+      (!isConversationList && !room && !target && !reaction)
+    ) {
+      return notFound;
+    }
+
+    if (headers.get('Authorization') !== `Bearer ${this.token}`) {
+      return errorResponse(401, 'Unauthorized', 'Unauthorized');
+    }
+
+    if (isConversationList) {
+      return method === 'GET' ? this.getConversations() : notFound;
+    }
+
+    if (room && method === 'GET') {
+      return this.getMessages(room, url.searchParams);
+    }
+
+    if (room && method === 'POST') {
+      return this.createMessage(room, body, headers.get('Idempotency-Key'));
+    }
+
+    if (target && method === 'PATCH') {
+      return this.updateMessage(target.room, target.index, body);
+    }
+
+    if (target && method === 'DELETE') {
+      return this.deleteMessage(target.room, target.index);
+    }
+
+    if (reaction && method === 'PUT') {
+      return this.addReaction(reaction, body);
+    }
+
+    if (reaction && method === 'DELETE') {
+      return this.removeReaction(reaction, url.searchParams.get('author'));
+    }
+
+    return notFound;
+  }
+
+  /**
+   * Finds the room whose messages path is `path`.
+   */
+  private findRoomByPath(path: string): FakeRoom | undefined {
+    for (const room of this.rooms.values()) {
+      if (getMessagesPath(room._id) === path) {
+        return room;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Finds the stored message whose path is `path`.
+   */
+  private findMessageByPath(
+    path: string
+  ): { readonly room: FakeRoom; readonly index: number } | undefined {
+    for (const room of this.rooms.values()) {
+      const index = room.messages.findIndex(
+        message => getMessagePath(room._id, message._id) === path
+      );
+
+      if (index !== -1) {
+        return { room, index };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Finds the message and emoji of a reaction path
+   * (`…/messages/:messageId/reactions/:emoji`).
+   */
+  private findReactionByPath(path: string): FakeReactionTarget | undefined {
+    const separator = path.lastIndexOf('/reactions/');
+
+    if (separator === -1) {
+      return undefined;
+    }
+
+    const target = this.findMessageByPath(path.slice(0, separator));
+    let emoji: string;
+
+    try {
+      emoji = decodeURIComponent(path.slice(separator + '/reactions/'.length));
+    } catch {
+      return undefined;
+    }
+
+    if (
+      !target ||
+      getReactionPath(
+        target.room._id,
+        target.room.messages[target.index]._id,
+        emoji
+      ) !== path
+    ) {
+      return undefined;
+    }
+
+    return { ...target, emoji };
+  }
+
+  /**
+   * GET /conversations
+   *
+   * Rooms in creation order, each with its newest message and message count.
+   */
+  private getConversations(): Response {
+    const conversations = [...this.rooms.values()].map((room): Conversation => {
+      const lastMessage = room.messages[room.messages.length - 1];
+
+      return {
+        _id: room._id,
+        name: room.name,
+        messageCount: room.messages.length,
+        ...(lastMessage ? { lastMessage } : {}),
+      };
+    });
+
+    return jsonResponse(conversations, 200);
+  }
+
+  /**
+   * GET /conversations/:id/messages
+   *
+   * - `after`: Only messages created after the timestamp, oldest first
+   *   (so polling catches up in order)
+   * - `before`: Only messages created before the timestamp
+   * - `since`: Only messages created or changed after the timestamp, in
+   *   ascending `changedAt` order (so polling sees edits, deletions
+   *   and reactions). With `after` too, messages matching either one
+   * - Without `after` or `since`, returns the newest `limit` matches
+   * - Otherwise results are in ascending createdAt order
+   */
+  private getMessages(room: FakeRoom, searchParams: URLSearchParams): Response {
+    const errors: FieldError[] = [];
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam === null ? DEFAULT_PAGE_LIMIT : Number(limitParam);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_LIMIT) {
+      errors.push({
+        field: 'limit',
+        message: `limit must be an integer between 1 and ${MAX_PAGE_LIMIT}`,
+      });
+    }
+
+    const after = parseTimestampParam(
+      'after',
+      searchParams.get('after'),
+      errors
+    );
+    const before = parseTimestampParam(
+      'before',
+      searchParams.get('before'),
+      errors
+    );
+    const since = parseTimestampParam(
+      'since',
+      searchParams.get('since'),
+      errors
+    );
+
+    if (errors.length > 0) {
+      return errorResponse(400, 'Bad Request', errors);
+    }
+
+    const matches = room.messages.filter(message => {
+      const createdAtMs = Date.parse(message.createdAt);
+      const isCreatedAfter = after !== undefined && createdAtMs > after;
+      const isChangedSince =
+        since !== undefined && getChangedAtMs(message) > since;
+
+      return (
+        (before === undefined || createdAtMs < before) &&
+        ((after === undefined && since === undefined) ||
+          isCreatedAfter ||
+          isChangedSince)
+      );
+    });
+
+    if (since !== undefined) {
+      matches.sort(
+        (first, second) => getChangedAtMs(first) - getChangedAtMs(second)
+      );
+    }
+
+    const page =
+      after !== undefined || since !== undefined
+        ? matches.slice(0, limit)
+        : matches.slice(-limit);
+
+    return jsonResponse(page, 200);
+  }
+
+  /**
+   * POST /conversations/:id/messages
+   *
+   * Validates the body like the real API (field-level errors), stores the
+   * message HTML-escaped and replays the original reply for a repeated
+   * Idempotency-Key. An optional `replyTo` must name a message of the same
+   * room.
+   */
+  private createMessage(
+    room: FakeRoom,
+    body: BodyInit | null | undefined,
+    idempotencyKey: string | null
+  ): Response {
+    if (idempotencyKey) {
+      const replay = this.idempotentReplies.get(idempotencyKey);
+      if (replay) {
+        return jsonResponse(replay, 201);
+      }
+    }
+
+    let payload: unknown;
+
+    try {
+      payload = typeof body === 'string' ? JSON.parse(body) : undefined;
+    } catch {
+      return errorResponse(400, 'Bad Request', 'Request body must be JSON');
+    }
+
+    const fields =
+      typeof payload === 'object' && payload !== null
+        ? (payload as Record<string, unknown>)
+        : {};
+    const errors: FieldError[] = [];
+
+    for (const field of ['message', 'author'] as const) {
+      const value = fields[field];
+
+      if (typeof value !== 'string') {
+        errors.push({ field, message: `${field} must be a string` });
+      } else if (!value.trim()) {
+        errors.push({ field, message: `${field} should not be empty` });
+      }
+    }
+
+    const { replyTo } = fields;
+
+    if (
+      replyTo !== undefined &&
+      (typeof replyTo !== 'string' ||
+        !room.messages.some(stored => stored._id === replyTo))
+    ) {
+      errors.push({
+        field: 'replyTo',
+        message: 'replyTo must be the id of a message in this conversation',
+      });
+    }
+
+    if (errors.length > 0) {
+      return errorResponse(400, 'Bad Request', errors);
+    }
+
+    const message = this.storeMessage(
+      room,
+      String(fields.message),
+      String(fields.author),
+      replyTo as string | undefined
+    );
+
+    if (idempotencyKey) {
+      this.idempotentReplies.set(idempotencyKey, message);
+    }
+
+    return jsonResponse(message, 201);
+  }
+
+  /**
+   * PATCH /conversations/:id/messages/:messageId
+   *
+   * Replaces the text (validated and HTML-escaped like a new message) and
+   * sets `updatedAt`. Deleted messages can't be edited (409).
+   */
+  private updateMessage(
+    room: FakeRoom,
+    index: number,
+    body: BodyInit | null | undefined
+  ): Response {
+    const stored = room.messages[index];
+
+    if (stored.deletedAt) {
+      return errorResponse(
+        409,
+        'Conflict',
+        'Deleted messages cannot be edited'
+      );
+    }
+
+    let payload: unknown;
+
+    try {
+      payload = typeof body === 'string' ? JSON.parse(body) : undefined;
+    } catch {
+      return errorResponse(400, 'Bad Request', 'Request body must be JSON');
+    }
+
+    const text =
+      typeof payload === 'object' && payload !== null
+        ? (payload as Record<string, unknown>).message
+        : undefined;
+
+    if (typeof text !== 'string') {
+      return errorResponse(400, 'Bad Request', [
+        { field: 'message', message: 'message must be a string' },
+      ]);
+    }
+
+    if (!text.trim()) {
+      return errorResponse(400, 'Bad Request', [
+        { field: 'message', message: 'message should not be empty' },
+      ]);
+    }
+
+    const changedAt = new Date(this.nextTimestamp(room)).toISOString();
+    const updated: Message = {
+      ...stored,
+      message: escapeHtml(text),
+      updatedAt: changedAt,
+      changedAt,
+    };
+
+    return jsonResponse(this.replaceMessage(room, index, updated), 200);
+  }
+
+  /**
+   * DELETE /conversations/:id/messages/:messageId
+   *
+   * Replaces the message with a tombstone: the text is cleared and
+   * `deletedAt` set. Deleting again returns the same tombstone.
+   */
+  private deleteMessage(room: FakeRoom, index: number): Response {
+    const stored = room.messages[index];
+
+    if (stored.deletedAt) {
+      return jsonResponse(stored, 200);
+    }
+
+    const changedAt = new Date(this.nextTimestamp(room)).toISOString();
+    const tombstone: Message = {
+      _id: stored._id,
+      message: '',
+      author: stored.author,
+      createdAt: stored.createdAt,
+      replyTo: stored.replyTo,
+      deletedAt: changedAt,
+      changedAt,
+    };
+
+    return jsonResponse(this.replaceMessage(room, index, tombstone), 200);
+  }
+
+  /**
+   * PUT /conversations/:id/messages/:messageId/reactions/:emoji
+   *
+   * Adds the body's `author` (HTML-escaped) to the emoji's authors. Reacting
+   * again changes nothing; deleted messages can't be reacted to (409).
+   */
+  private addReaction(
+    { room, index, emoji }: FakeReactionTarget,
+    body: BodyInit | null | undefined
+  ): Response {
+    const stored = room.messages[index];
+
+    if (stored.deletedAt) {
+      return errorResponse(
+        409,
+        'Conflict',
+        'Deleted messages cannot be reacted to'
+      );
+    }
+
+    if (emoji.length > MAX_REACTION_LENGTH) {
+      return errorResponse(400, 'Bad Request', [
+        { field: 'emoji', message: 'emoji must be a single emoji' },
+      ]);
+    }
+
+    let payload: unknown;
+
+    try {
+      payload = typeof body === 'string' ? JSON.parse(body) : undefined;
+    } catch {
+      return errorResponse(400, 'Bad Request', 'Request body must be JSON');
+    }
+
+    const author =
+      typeof payload === 'object' && payload !== null
+        ? (payload as Record<string, unknown>).author
+        : undefined;
+
+    if (typeof author !== 'string' || !author.trim()) {
+      return errorResponse(400, 'Bad Request', [
+        { field: 'author', message: 'author should not be empty' },
+      ]);
+    }
+
+    const escapedAuthor = escapeHtml(author);
+    const reactions = stored.reactions ?? [];
+    const existing = reactions.find(reaction => reaction.emoji === emoji);
+
+    if (existing?.authors.includes(escapedAuthor)) {
+      return jsonResponse(stored, 200);
+    }
+
+    const updated: Message = {
+      ...stored,
+      changedAt: new Date(this.nextTimestamp(room)).toISOString(),
+      reactions: existing
+        ? reactions.map(reaction =>
+            reaction === existing
+              ? { emoji, authors: [...reaction.authors, escapedAuthor] }
+              : reaction
+          )
+        : [...reactions, { emoji, authors: [escapedAuthor] }],
+    };
+
+    return jsonResponse(this.replaceMessage(room, index, updated), 200);
+  }
+
+  /**
+   * DELETE /conversations/:id/messages/:messageId/reactions/:emoji?author=
+   *
+   * Removes the author from the emoji's authors, and the emoji once nobody
+   * uses it. Removing a missing reaction returns the message unchanged.
+   */
+  private removeReaction(
+    { room, index, emoji }: FakeReactionTarget,
+    author: string | null
+  ): Response {
+    const stored = room.messages[index];
+
+    if (!author?.trim()) {
+      return errorResponse(400, 'Bad Request', [
+        { field: 'author', message: 'author should not be empty' },
+      ]);
+    }
+
+    const escapedAuthor = escapeHtml(author);
+    const reactions = stored.reactions ?? [];
+
+    if (
+      !reactions.some(
+        reaction =>
+          reaction.emoji === emoji && reaction.authors.includes(escapedAuthor)
+      )
+    ) {
+      return jsonResponse(stored, 200);
+    }
+
+    const updated: Message = {
+      ...stored,
+      changedAt: new Date(this.nextTimestamp(room)).toISOString(),
+      reactions: reactions
+        .map(reaction =>
+          reaction.emoji === emoji
+            ? {
+                emoji,
+                authors: reaction.authors.filter(
+                  name => name !== escapedAuthor
+                ),
+              }
+            : reaction
+        )
+        .filter(reaction => reaction.authors.length > 0),
+    };
+
+    return jsonResponse(this.replaceMessage(room, index, updated), 200);
+  }
+
+  /**
+   * Stores a new version of a message in place and notifies listeners.
+   */
+  private replaceMessage(
+    room: FakeRoom,
+    index: number,
+    message: Message
+  ): Message {
+    room.messages[index] = message;
+    this.listeners.forEach(listener => listener(message, room._id, 'updated'));
+
+    return message;
+  }
+
+  /**
+   * Stores a new message HTML-escaped and notifies listeners.
+   */
+  private storeMessage(
+    room: FakeRoom,
+    text: string,
+    author: string,
+    replyTo?: string
+  ): Message {
+    const createdAt = new Date(this.nextTimestamp(room)).toISOString();
+    const message: Message = {
+      _id: createObjectId(this.idCounter++, this.now()),
+      message: escapeHtml(text),
+      author: escapeHtml(author),
+      createdAt,
+      changedAt: createdAt,
+      ...(replyTo !== undefined && { replyTo }),
+    };
+
+    room.messages.push(message);
+    this.listeners.forEach(listener => listener(message, room._id, 'created'));
+
+    return message;
+  }
+
+  /**
+   * Time of a new change (creation, edit, deletion, reaction), nudged
+   * forward so changes stay strictly ordered within the room: the `after`
+   * and `since` cursors would otherwise skip same-millisecond messages or
+   * changes.
+   */
+  private nextTimestamp(room: FakeRoom): number {
+    room.changedAtMs = Math.max(this.now(), room.changedAtMs + 1);
+
+    return room.changedAtMs;
+  }
+}
+
+let sharedBackend: FakeChatBackend | null = null;
+
+/**
+ * Returns the app-wide fake backend, created on first use from fakeApiConfig.
+ * Only called when apiConfig.useFakeApi is set, so production builds never
+ * create it.
+ */
+export function getFakeChatBackend(): FakeChatBackend {
+  sharedBackend ??= new FakeChatBackend({
+    latencyMs: fakeApiConfig.latencyMs,
+    failureRate: fakeApiConfig.failureRate,
+  });
+
+  return sharedBackend;
+}
@@ -0,0 +1,266 @@
+/**
+ * Fake Event Server
+ *
+ * In-process stand-in for the realtime endpoint, fed by a FakeChatBackend:
+ * every message the backend creates or changes (edits, deletions,
+ * reactions) is pushed to connected clients, and heartbeats are sent on an
+ * interval. Its socket and event-source factories
+ * plug into the WebSocket and SSE transports, so the real transport code
+ * runs unchanged.
+ *
+ * Failure controls for development and tests:
+ * - disconnectAll(): Drops every connection (network blip)
+ * - setAvailable(false): Refuses connections (endpoint down)
+ * - setHeartbeats(false): Keeps connections open but silent (zombie socket)
+ *
+ */
+
+import { apiConfig } from '@config/env';
+import type { Message } from '@models/message';
+import type {
+  RealtimeEventSource,
+  RealtimeSocket,
+} from '@realtime/realtime-transport';
+import {
+  FAKE_API_TOKEN,
+  getFakeChatBackend,
+  type FakeChatBackend,
+  type FakeMessageChange,
+} from './fake-chat-backend';
+
+/**
+ * Options for creating a fake event server.
+ */
+export interface FakeEventServerOptions {
+  /**
+   * Token expected in the access_token parameter (defaults to
+   * apiConfig.token, or FAKE_API_TOKEN when none is configured)
+   */
+  readonly token?: string;
+
+  /** Interval between heartbeat frames (default 10000) */
+  readonly heartbeatIntervalMs?: number;
+
+  /** Delay before a connection opens or is refused (default 50) */
+  readonly connectLatencyMs?: number;
+}
+
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 10000;
+const DEFAULT_CONNECT_LATENCY_MS = 50;
+
+/**
+ * One client connection. Implements both the socket and the event-source
+ * subsets; each transport only uses the handlers it knows.
+ */
+class FakeConnection implements RealtimeSocket, RealtimeEventSource {
+  onopen: ((event: Event) => unknown) | null = null;
+  onmessage: ((event: MessageEvent) => unknown) | null = null;
+  onerror: ((event: Event) => unknown) | null = null;
+  onclose: ((event: CloseEvent) => unknown) | null = null;
+
+  private readonly server: FakeEventServer;
+  private isOpen = false;
+  private isClosed = false;
+
+  constructor(server: FakeEventServer) {
+    this.server = server;
+  }
+
+  /**
+   * Called by the server once the connection is accepted.
+   *
+   * @returns False if the client closed the connection while it was opening
+   */
+  accept(): boolean {
+    if (this.isClosed) {
+      return false;
+    }
+
+    this.isOpen = true;
+    this.onopen?.(new Event('open'));
+    return true;
+  }
+
+  /**
+   * Delivers a frame (only while open).
+   */
+  send(frame: string): void {
+    if (this.isOpen && !this.isClosed) {
+      this.onmessage?.(new MessageEvent('message', { data: frame }));
+    }
+  }
+
+  /**
+   * Fails the connection from the server side, like a network error:
+   * error first, then close.
+   */
+  fail(): void {
+    if (this.isClosed) {
+      return;
+    }
+
+    this.isClosed = true;
+    this.server.detach(this);
+    this.onerror?.(new Event('error'));
+    this.onclose?.(new CloseEvent('close', { code: 1006, wasClean: false }));
+  }
+
+  /**
+   * Client-side close.
+   */
+  close(): void {
+    this.isClosed = true;
+    this.server.detach(this);
+  }
+}
+
+/**
+ * FakeEventServer Class
+ *
+ * - createSocket / createEventSource: Factories for the transports (bound)
+ * - disconnectAll / setAvailable / setHeartbeats: Failure controls
+ */
+export class FakeEventServer {
+  /**
+   * URL handed to the transports (never resolved over the network).
+   */
+  readonly url: string;
+
+  private readonly token: string;
+  private readonly heartbeatIntervalMs: number;
+  private readonly connectLatencyMs: number;
+  private readonly connections = new Set<FakeConnection>();
+  private heartbeatIntervalId: ReturnType<typeof setInterval> | undefined;
+  private isAvailable = true;
+  private sendsHeartbeats = true;
+
+  /**
+   * Creates a fake event server.
+   *
+   * @param backend - Backend whose created messages are pushed
+   * @param options - Token, heartbeat interval and connect latency
+   */
+  constructor(
+    backend: FakeChatBackend,
+    options: Readonly<FakeEventServerOptions> = {}
+  ) {
+    this.url = `${apiConfig.baseUrl.replace(/\/$/, '')}/events`;
+    this.token = options.token ?? (apiConfig.token || FAKE_API_TOKEN);
+    this.heartbeatIntervalMs =
+      options.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
+    this.connectLatencyMs =
+      options.connectLatencyMs ?? DEFAULT_CONNECT_LATENCY_MS;
+
+    backend.subscribe((message, conversationId, change) =>
+      this.broadcastMessage(message, conversationId, change)
+    );
+  }
+
+  /**
+   * WebSocket factory for createWebSocketTransport.
+   */
+  readonly createSocket = (url: string): RealtimeSocket => this.open(url);
+
+  /**
+   * EventSource factory for createSseTransport.
+   */
+  readonly createEventSource = (url: string): RealtimeEventSource =>
+    this.open(url);
+
+  /**
+   * Drops every open connection.
+   */
+  disconnectAll(): void {
+    [...this.connections].forEach(connection => connection.fail());
+  }
+
+  /**
+   * Refuses (false) or accepts (true) new connections. Going unavailable
+   * also drops the open ones.
+   */
+  setAvailable(available: boolean): void {
+    this.isAvailable = available;
+
+    if (!available) {
+      this.disconnectAll();
+    }
+  }
+
+  /**
+   * Stops (false) or resumes (true) heartbeats without closing connections.
+   */
+  setHeartbeats(enabled: boolean): void {
+    this.sendsHeartbeats = enabled;
+  }
+
+  /**
+   * Forgets a closed connection.
+   */
+  detach(connection: FakeConnection): void {
+    this.connections.delete(connection);
+
+    if (this.connections.size === 0) {
+      clearInterval(this.heartbeatIntervalId);
+      this.heartbeatIntervalId = undefined;
+    }
+  }
+
+  private open(url: string): FakeConnection {
+    const connection = new FakeConnection(this);
+    const isAuthorized =
+      new URL(url).searchParams.get('access_token') === this.token;
+
+    setTimeout(() => {
+      if (!this.isAvailable || !isAuthorized) {
+        connection.fail();
+        return;
+      }
+
+      this.connections.add(connection);
+      this.startHeartbeats();
+
+      if (!connection.accept()) {
+        this.detach(connection);
+      }
+    }, this.connectLatencyMs);
+
+    return connection;
+  }
+
+  private startHeartbeats(): void {
+    this.heartbeatIntervalId ??= setInterval(() => {
+      if (this.sendsHeartbeats) {
+        this.broadcast(JSON.stringify({ type: 'heartbeat' }));
+      }
+    }, this.heartbeatIntervalMs);
+  }
+
+  private broadcastMessage(
+    message: Message,
+    conversationId: string,
+    change: FakeMessageChange
+  ): void {
+    this.broadcast(
+      JSON.stringify({
+        type: change === 'created' ? 'message' : 'message-updated',
+        conversationId,
+        data: message,
+      })
+    );
+  }
+
+  private broadcast(frame: string): void {
+    this.connections.forEach(connection => connection.send(frame));
+  }
+}
+
+let sharedServer: FakeEventServer | null = null;
+
+/**
+ * Returns the app-wide fake event server, bound to the shared fake backend.
+ * Only called when apiConfig.useFakeApi is set.
+ */
+export function getFakeEventServer(): FakeEventServer {
+  sharedServer ??= new FakeEventServer(getFakeChatBackend());
+  return sharedServer;
+}
@@ -0,0 +1,155 @@
+/**
+ * Seed Messages
+ *
+ * Deterministic conversations used to populate the fake backend. The
+ * default room is long enough to exercise history paging (more than one
+ * initial page); messages are stored HTML-escaped like the real API stores
+ * user input.
+ *
+ */
+
+import {
+  DEFAULT_CONVERSATION_ID,
+  DEFAULT_CONVERSATION_NAME,
+} from '@api/endpoints';
+import type { Message } from '@models/message';
+
+/**
+ * Number of messages generated by default.
+ * Exceeds the initial page (200) so "Load older messages" has work to do.
+ */
+export const DEFAULT_SEED_SIZE = 240;
+
+/**
+ * Spacing between seeded messages (two minutes).
+ */
+const SEED_INTERVAL_MS = 2 * 60 * 1000;
+
+const SEED_AUTHORS = ['Alice', 'Bob', 'Charlie', 'Dana'] as const;
+
+const SEED_TEXTS = [
+  'Good morning everyone!',
+  'Has anyone looked at the latest design mockups?',
+  "I'm on it, will share feedback after lunch.",
+  'Quick reminder: retro is at 3pm.',
+  'The build is green again \u{1F389}',
+  'Can someone review my PR when they get a chance?',
+  'Sure, sending comments in a bit.',
+  'Is "dark mode" still planned for this sprint?',
+  'Coffee break <5 min> anyone?',
+  'Tom & Jerry are joining the call later.',
+] as const;
+
+const DESIGN_TEXTS = [
+  'New onboarding screens are up for review.',
+  'Should the primary button stay purple?',
+  'I prefer the second variant, it reads better on mobile.',
+  'Updated the spacing tokens to match the 4px grid.',
+  'Can we test the contrast of the grey labels?',
+] as const;
+
+const RANDOM_TEXTS = [
+  'Lunch at the new ramen place?',
+  'Anyone watching the game tonight?',
+  'Friday demo snacks are on me \u{1F36A}',
+  'My cat just walked over my keyboard mid-call.',
+] as const;
+
+/**
+ * A room of the fake backend with its initial messages.
+ */
+export interface SeedConversation {
+  readonly _id: string;
+  readonly name: string;
+  readonly messages: ReadonlyArray<Message>;
+}
+
+/**
+ * Escapes the characters the real API HTML-encodes in stored text.
+ *
+ * @param text - Raw user input
+ * @returns Text with &, <, >, " and ' replaced by entities
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Creates a MongoDB-style 24 character hex id.
+ *
+ * @param counter - Monotonic counter mixed into the id to keep it unique
+ * @param timestampMs - Creation time (the first 8 hex digits, like ObjectId)
+ */
+export function createObjectId(counter: number, timestampMs: number): string {
+  const seconds = Math.floor(timestampMs / 1000)
+    .toString(16)
+    .padStart(8, '0');
+  const random = Math.floor(Math.random() * 0xffffffff)
+    .toString(16)
+    .padStart(8, '0');
+
+  return `${seconds}${random}${counter.toString(16).padStart(8, '0')}`.slice(
+    0,
+    24
+  );
+}
+
+/**
+ * Generates the messages of a seed conversation, oldest first, ending
+ * shortly before `now`.
+ *
+ * @param count - Number of messages (defaults to DEFAULT_SEED_SIZE)
+ * @param now - Reference time in milliseconds (defaults to Date.now())
+ * @param texts - Message texts, used in turn
+ * @returns Messages in ascending createdAt order
+ */
+export function createSeedMessages(
+  count: number = DEFAULT_SEED_SIZE,
+  now: number = Date.now(),
+  texts: ReadonlyArray<string> = SEED_TEXTS
+): Message[] {
+  return Array.from({ length: count }, (_, index) => {
+    const createdAtMs = now - (count - index) * SEED_INTERVAL_MS;
+
+    return {
+      _id: createObjectId(index, createdAtMs),
+      message: escapeHtml(`${texts[index % texts.length]} (#${index + 1})`),
+      author: escapeHtml(SEED_AUTHORS[index % SEED_AUTHORS.length]),
+      createdAt: new Date(createdAtMs).toISOString(),
+    };
+  });
+}
+
+/**
+ * Generates the seed rooms: the default room (DEFAULT_SEED_SIZE messages)
+ * and two short ones.
+ *
+ * @param now - Reference time in milliseconds (defaults to Date.now())
+ * @returns Rooms with their messages
+ */
+export function createSeedConversations(
+  now: number = Date.now()
+): SeedConversation[] {
+  return [
+    {
+      _id: DEFAULT_CONVERSATION_ID,
+      name: DEFAULT_CONVERSATION_NAME,
+      messages: createSeedMessages(DEFAULT_SEED_SIZE, now),
+    },
+    {
+      _id: 'design',
+      name: 'Design Reviews',
+      messages: createSeedMessages(30, now - 60 * 60 * 1000, DESIGN_TEXTS),
+    },
+    {
+      _id: 'random',
+      name: 'Random',
+      messages: createSeedMessages(12, now - 3 * 60 * 60 * 1000, RANDOM_TEXTS),
+    },
+  ];
+}
@@ -0,0 +1,213 @@
+/**
+ * Outbox Storage Module
+ *
+ * Persistence backends for the offline outbox. Entries must survive page
+ * reloads, so they are stored in IndexedDB where available, with
+ * localStorage as a fallback (IndexedDB is missing or fails to open in some
+ * private browsing modes).
+ *
+ */
+
+import type { OutboxEntry } from '@models/outbox';
+
+/**
+ * Minimal persistence contract used by the Outbox.
+ */
+export interface OutboxStorage {
+  getAll(): Promise<ReadonlyArray<OutboxEntry>>;
+  put(entry: Readonly<OutboxEntry>): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+const DATABASE_NAME = 'doodle-chat';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+const LOCAL_STORAGE_KEY = 'doodle-chat:outbox';
+
+/**
+ * Wraps an IDBRequest in a promise.
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves once a transaction commits (or rejects when it aborts).
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => reject(transaction.error);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * IndexedDB-backed storage. The database is opened lazily on first use.
+ */
+export class IndexedDbOutboxStorage implements OutboxStorage {
+  private databasePromise: Promise<IDBDatabase> | null = null;
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.databasePromise) {
+      this.databasePromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+
+        request.onupgradeneeded = () => {
+          const database = request.result;
+          if (!database.objectStoreNames.contains(STORE_NAME)) {
+            database.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () =>
+          reject(new Error('Outbox database upgrade is blocked'));
+      });
+
+      /**
+       * Allow a later call to retry opening after a failure.
+       */
+      this.databasePromise.catch(() => {
+        this.databasePromise = null;
+      });
+    }
+
+    return this.databasePromise;
+  }
+
+  async getAll(): Promise<ReadonlyArray<OutboxEntry>> {
+    const database = await this.openDatabase();
+    const store = database
+      .transaction(STORE_NAME, 'readonly')
+      .objectStore(STORE_NAME);
+
+    return promisifyRequest<OutboxEntry[]>(store.getAll());
+  }
+
+  async put(entry: Readonly<OutboxEntry>): Promise<void> {
+    const database = await this.openDatabase();
+    const transaction = database.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(entry);
+
+    await transactionDone(transaction);
+  }
+
+  async delete(id: string): Promise<void> {
+    const database = await this.openDatabase();
+    const transaction = database.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).delete(id);
+
+    await transactionDone(transaction);
+  }
+}
+
+/**
+ * localStorage-backed storage. Keeps all entries in a single JSON array.
+ */
+export class LocalStorageOutboxStorage implements OutboxStorage {
+  private readonly key: string;
+
+  constructor(key: string = LOCAL_STORAGE_KEY) {
+    this.key = key;
+  }
+
+  private read(): OutboxEntry[] {
+    const raw = localStorage.getItem(this.key);
+    if (!raw) {
+      return [];
+    }
+
+    try {
+      const parsed: unknown = JSON.parse(raw);
+      return Array.isArray(parsed) ? (parsed as OutboxEntry[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private write(entries: ReadonlyArray<OutboxEntry>): void {
+    if (entries.length === 0) {
+      localStorage.removeItem(this.key);
+      return;
+    }
+
+    localStorage.setItem(this.key, JSON.stringify(entries));
+  }
+
+  async getAll(): Promise<ReadonlyArray<OutboxEntry>> {
+    return this.read();
+  }
+
+  async put(entry: Readonly<OutboxEntry>): Promise<void> {
+    const entries = this.read().filter(existing => existing.id !== entry.id);
+    this.write([...entries, entry]);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.write(this.read().filter(entry => entry.id !== id));
+  }
+}
+
+/**
+ * Uses the primary storage until one of its operations fails, then switches
+ * to the fallback for the rest of the session.
+ */
+export class FallbackOutboxStorage implements OutboxStorage {
+  private active: OutboxStorage;
+  private readonly fallback: OutboxStorage;
+
+  constructor(primary: OutboxStorage, fallback: OutboxStorage) {
+    this.active = primary;
+    this.fallback = fallback;
+  }
+
+  private async run<T>(
+    operation: (storage: OutboxStorage) => Promise<T>
+  ): Promise<T> {
+    if (this.active === this.fallback) {
+      return operation(this.fallback);
+    }
+
+    try {
+      return await operation(this.active);
+    } catch {
+      this.active = this.fallback;
+      return operation(this.fallback);
+    }
+  }
+
+  getAll(): Promise<ReadonlyArray<OutboxEntry>> {
+    return this.run(storage => storage.getAll());
+  }
+
+  put(entry: Readonly<OutboxEntry>): Promise<void> {
+    return this.run(storage => storage.put(entry));
+  }
+
+  delete(id: string): Promise<void> {
+    return this.run(storage => storage.delete(id));
+  }
+}
+
+/**
+ * Creates the best available storage for the current environment.
+ *
+ * @returns IndexedDB storage with localStorage fallback, or localStorage only
+ */
+export function createOutboxStorage(): OutboxStorage {
+  const localStorageBackend = new LocalStorageOutboxStorage();
+
+  if (typeof indexedDB === 'undefined') {
+    return localStorageBackend;
+  }
+
+  return new FallbackOutboxStorage(
+    new IndexedDbOutboxStorage(),
+    localStorageBackend
+  );
+}
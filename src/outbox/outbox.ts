@@ -0,0 +1,191 @@
+/**
+ * Outbox Module
+ *
+ * Queue of messages composed while offline. Entries are kept in memory for
+ * ordering and written through to persistent storage so they survive page
+ * reloads. Framework-agnostic: the chat hook decides when to flush and how
+ * to deliver each entry.
+ *
+ */
+
+import { DEFAULT_CONVERSATION_ID } from '@api/endpoints';
+import type { CreateMessageRequest } from '@models/message';
+import type { OutboxEntry, OutboxFlushResult } from '@models/outbox';
+import { createOutboxStorage, type OutboxStorage } from './outbox-storage';
+
+/**
+ * Outbox Class
+ *
+ * - load(): Reads persisted entries once (safe to call repeatedly)
+ * - enqueue()/remove(): Update memory and storage
+ * - flush(): Hands a conversation's entries to a delivery handler, oldest first
+ *
+ * Persistence is best-effort: if storage fails, the in-memory queue still
+ * works for the current session.
+ */
+export class Outbox {
+  private readonly storage: OutboxStorage;
+  private entries: OutboxEntry[] = [];
+  private loadPromise: Promise<ReadonlyArray<OutboxEntry>> | null = null;
+  private readonly flushPromises = new Map<string, Promise<void>>();
+
+  /**
+   * Creates a new outbox.
+   *
+   * @param storage - Persistence backend (defaults to createOutboxStorage())
+   */
+  constructor(storage: OutboxStorage = createOutboxStorage()) {
+    this.storage = storage;
+  }
+
+  /**
+   * Number of queued entries.
+   */
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Queued entries, oldest first.
+   *
+   * @param conversationId - Only list the entries of this room
+   */
+  list(conversationId?: string): ReadonlyArray<OutboxEntry> {
+    return conversationId === undefined
+      ? this.entries
+      : this.entries.filter(entry => entry.conversationId === conversationId);
+  }
+
+  /**
+   * Loads persisted entries into memory.
+   * Only reads storage once; later calls return the same result.
+   *
+   * @returns Promise that resolves to the queued entries, oldest first
+   */
+  load(): Promise<ReadonlyArray<OutboxEntry>> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.storage
+        .getAll()
+        .catch(() => [])
+        .then(persisted => {
+          const knownIds = new Set(this.entries.map(entry => entry.id));
+          this.entries = [
+            ...persisted
+              .filter(entry => !knownIds.has(entry.id))
+              /**
+               * Entries persisted before conversations existed belong to
+               * the default room.
+               */
+              .map(entry => ({
+                ...entry,
+                conversationId: entry.conversationId ?? DEFAULT_CONVERSATION_ID,
+              })),
+            ...this.entries,
+          ].sort((first, second) => first.sequence - second.sequence);
+
+          return this.entries;
+        });
+    }
+
+    return this.loadPromise;
+  }
+
+  /**
+   * Adds a message to the end of the queue.
+   *
+   * @param id - Temporary id of the optimistic message
+   * @param conversationId - Room the message is posted to
+   * @param request - Message data to send later
+   * @returns Promise that resolves to the queued entry
+   */
+  async enqueue(
+    id: string,
+    conversationId: string,
+    request: Readonly<CreateMessageRequest>
+  ): Promise<OutboxEntry> {
+    await this.load();
+
+    const existing = this.entries.find(entry => entry.id === id);
+    if (existing) {
+      return existing;
+    }
+
+    const lastEntry = this.entries[this.entries.length - 1];
+    const entry: OutboxEntry = {
+      id,
+      sequence: Math.max(Date.now(), (lastEntry?.sequence ?? 0) + 1),
+      conversationId,
+      request: { ...request },
+      queuedAt: new Date().toISOString(),
+    };
+
+    this.entries = [...this.entries, entry];
+    await this.storage.put(entry).catch(() => undefined);
+
+    return entry;
+  }
+
+  /**
+   * Removes an entry (delivered, rejected, or discarded by the user).
+   *
+   * @param id - Id of the entry to remove
+   */
+  async remove(id: string): Promise<void> {
+    this.entries = this.entries.filter(entry => entry.id !== id);
+    await this.storage.delete(id).catch(() => undefined);
+  }
+
+  /**
+   * Delivers the queued entries of a conversation in order.
+   *
+   * Entries are handed to the handler one at a time, oldest first. Entries
+   * enqueued while a flush is running are picked up by the same flush.
+   * Flushing stops at the first 'retry-later' result so the order is kept.
+   * Concurrent calls for the same conversation share the flush already in
+   * progress; rooms flush independently.
+   *
+   * @param conversationId - Room whose entries are delivered
+   * @param deliver - Sends one entry and reports the outcome
+   * @returns Promise that resolves when flushing stops
+   */
+  flush(
+    conversationId: string,
+    deliver: (entry: Readonly<OutboxEntry>) => Promise<OutboxFlushResult>
+  ): Promise<void> {
+    let flushPromise = this.flushPromises.get(conversationId);
+
+    if (!flushPromise) {
+      flushPromise = (async () => {
+        await this.load();
+
+        for (;;) {
+          const entry = this.list(conversationId)[0];
+          if (!entry) {
+            return;
+          }
+
+          const result = await deliver(entry);
+
+          if (result === 'retry-later') {
+            return;
+          }
+
+          await this.remove(entry.id);
+        }
+      })().finally(() => {
+        this.flushPromises.delete(conversationId);
+      });
+
+      this.flushPromises.set(conversationId, flushPromise);
+    }
+
+    return flushPromise;
+  }
+}
+
+/**
+ * Singleton outbox shared by the app.
+ */
+export const outbox = new Outbox();
+
+export default outbox;
@@ -0,0 +1,246 @@
+/**
+ * Preferences Module
+ *
+ * Display preferences of the local user (language, theme, how times are
+ * shown, and in which time zone), persisted in localStorage. Framework-agnostic: React reads
+ * them through @hooks/usePreferences. Other tabs pick up changes through
+ * the storage event.
+ *
+ */
+
+import { isSupportedLocale } from '@i18n/locales';
+import type { Preferences } from '@models/preferences';
+import type { StoreListener } from '@store/message-store';
+
+/**
+ * How message times are shown.
+ *
+ * - ABSOLUTE: Clock time ("14:30", "2:30 PM")
+ * - RELATIVE: Time since the message ("2m ago"), refreshed live; clock
+ *   time once it is a day old
+ */
+export const TimeDisplay = {
+  ABSOLUTE: 'absolute',
+  RELATIVE: 'relative',
+} as const;
+
+/**
+ * Type for time display values.
+ */
+export type TimeDisplay = (typeof TimeDisplay)[keyof typeof TimeDisplay];
+
+/**
+ * Clock used for times.
+ *
+ * - AUTO: The locale's convention
+ * - H12: 12-hour clock with AM/PM
+ * - H24: 24-hour clock
+ */
+export const HourCycle = {
+  AUTO: 'auto',
+  H12: '12h',
+  H24: '24h',
+} as const;
+
+/**
+ * Type for hour cycle values.
+ */
+export type HourCycle = (typeof HourCycle)[keyof typeof HourCycle];
+
+/**
+ * Color theme.
+ *
+ * - SYSTEM: Follows the device (prefers-color-scheme, prefers-contrast)
+ * - LIGHT, DARK, HIGH_CONTRAST: That theme, whatever the device uses
+ */
+export const ThemeMode = {
+  SYSTEM: 'system',
+  LIGHT: 'light',
+  DARK: 'dark',
+  HIGH_CONTRAST: 'high-contrast',
+} as const;
+
+/**
+ * Type for theme mode values.
+ */
+export type ThemeMode = (typeof ThemeMode)[keyof typeof ThemeMode];
+
+/**
+ * localStorage key of the persisted preferences. Also read by the theme
+ * script in index.html.
+ */
+export const PREFERENCES_STORAGE_KEY = 'doodle-chat:preferences';
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  timeDisplay: TimeDisplay.ABSOLUTE,
+  hourCycle: HourCycle.AUTO,
+  timeZone: '',
+  locale: '',
+  theme: ThemeMode.SYSTEM,
+};
+
+/**
+ * Whether the runtime can format dates in a time zone.
+ *
+ * @param timeZone - IANA name (e.g. "Europe/Zurich")
+ */
+export function isSupportedTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isOneOf<T extends string>(
+  values: Readonly<Record<string, T>>,
+  value: unknown
+): value is T {
+  return Object.values(values).includes(value as T);
+}
+
+/**
+ * Parses persisted preferences. Missing or invalid fields take their
+ * default, so preferences saved by an older version still load.
+ *
+ * @param raw - Stored JSON, or null
+ * @returns Complete preferences
+ */
+export function parsePreferences(raw: string | null): Preferences {
+  if (!raw) {
+    return DEFAULT_PREFERENCES;
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    const fields =
+      typeof parsed === 'object' && parsed !== null
+        ? (parsed as Record<string, unknown>)
+        : {};
+
+    return {
+      timeDisplay: isOneOf(TimeDisplay, fields.timeDisplay)
+        ? fields.timeDisplay
+        : DEFAULT_PREFERENCES.timeDisplay,
+      hourCycle: isOneOf(HourCycle, fields.hourCycle)
+        ? fields.hourCycle
+        : DEFAULT_PREFERENCES.hourCycle,
+      timeZone:
+        typeof fields.timeZone === 'string' &&
+        isSupportedTimeZone(fields.timeZone)
+          ? fields.timeZone
+          : DEFAULT_PREFERENCES.timeZone,
+      locale: isSupportedLocale(fields.locale)
+        ? fields.locale
+        : DEFAULT_PREFERENCES.locale,
+      theme: isOneOf(ThemeMode, fields.theme)
+        ? fields.theme
+        : DEFAULT_PREFERENCES.theme,
+    };
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+function readPreferences(): Preferences {
+  try {
+    return parsePreferences(localStorage.getItem(PREFERENCES_STORAGE_KEY));
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+}
+
+/**
+ * Best-effort: without storage the preferences only last for the page.
+ */
+function writePreferences(preferences: Preferences): void {
+  try {
+    localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+  } catch {
+    // Storage unavailable (private mode, quota): keep them in memory.
+  }
+}
+
+/**
+ * PreferencesStore Class
+ *
+ * - getState()/subscribe(): The useSyncExternalStore contract
+ * - set(): Changes and persists some preferences
+ */
+export class PreferencesStore {
+  private state: Preferences;
+  private readonly listeners = new Set<StoreListener>();
+
+  constructor() {
+    this.state = readPreferences();
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', this.handleStorage);
+    }
+  }
+
+  /**
+   * Current snapshot. Bound so it can be passed to useSyncExternalStore.
+   */
+  readonly getState = (): Preferences => this.state;
+
+  /**
+   * Registers a change listener. Bound so it can be passed to
+   * useSyncExternalStore.
+   *
+   * @returns Function that removes the listener
+   */
+  readonly subscribe = (listener: StoreListener): (() => void) => {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Changes some preferences. An unsupported time zone falls back to the
+   * device's.
+   */
+  set(partial: Partial<Preferences>): void {
+    const next = { ...this.state, ...partial };
+    const timeZone = isSupportedTimeZone(next.timeZone)
+      ? next.timeZone
+      : DEFAULT_PREFERENCES.timeZone;
+
+    if (this.update({ ...next, timeZone })) {
+      writePreferences(this.state);
+    }
+  }
+
+  private readonly handleStorage = (storageEvent: StorageEvent): void => {
+    if (storageEvent.key === PREFERENCES_STORAGE_KEY) {
+      this.update(parsePreferences(storageEvent.newValue));
+    }
+  };
+
+  /**
+   * Replaces the state and notifies listeners if anything changed.
+   *
+   * @returns Whether anything changed
+   */
+  private update(next: Preferences): boolean {
+    const keys = Object.keys(next) as Array<keyof Preferences>;
+
+    if (keys.every(key => next[key] === this.state[key])) {
+      return false;
+    }
+
+    this.state = next;
+    this.listeners.forEach(listener => listener());
+    return true;
+  }
+}
+
+/**
+ * Singleton preferences shared by the UI.
+ */
+export const preferences = new PreferencesStore();
+
+export default preferences;
@@ -0,0 +1,143 @@
+/**
+ * Theme Module
+ *
+ * Applies the color theme: the one chosen in the preferences, otherwise
+ * the device's (dark when it prefers a dark color scheme, high contrast
+ * when it asks for more contrast). The theme is the root element's
+ * `data-theme` attribute, which selects token overrides in
+ * styles/themes.css; it follows device changes live.
+ *
+ * On load, the inline script in index.html applies the same rules before
+ * the first paint, so the page never flashes the light theme. Keep the two
+ * in sync.
+ *
+ */
+
+import type { StoreListener } from '@store/message-store';
+import { readToken } from '@styles/tokens';
+import { ThemeMode, preferences } from './preferences';
+
+/**
+ * A theme the UI can be shown in.
+ */
+export type Theme = Exclude<ThemeMode, typeof ThemeMode.SYSTEM>;
+
+/**
+ * Attribute of the root element holding the theme.
+ */
+export const THEME_ATTRIBUTE = 'data-theme';
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+const MORE_CONTRAST_QUERY = '(prefers-contrast: more)';
+
+/**
+ * The theme for a preference and the device's settings.
+ *
+ * @param mode - Preferred theme, or SYSTEM
+ * @param prefersDark - Whether the device prefers a dark color scheme
+ * @param prefersMoreContrast - Whether the device asks for more contrast
+ */
+export function resolveTheme(
+  mode: ThemeMode,
+  prefersDark: boolean,
+  prefersMoreContrast: boolean
+): Theme {
+  if (mode !== ThemeMode.SYSTEM) {
+    return mode;
+  }
+
+  if (prefersMoreContrast) {
+    return ThemeMode.HIGH_CONTRAST;
+  }
+
+  return prefersDark ? ThemeMode.DARK : ThemeMode.LIGHT;
+}
+
+function matchMedia(query: string): MediaQueryList | undefined {
+  return typeof window === 'undefined' || !window.matchMedia
+    ? undefined
+    : window.matchMedia(query);
+}
+
+/**
+ * ThemeController Class
+ *
+ * - getState()/subscribe(): The useSyncExternalStore contract (the theme
+ *   in use)
+ */
+export class ThemeController {
+  private state: Theme;
+  private readonly listeners = new Set<StoreListener>();
+  private readonly darkQuery = matchMedia(DARK_QUERY);
+  private readonly moreContrastQuery = matchMedia(MORE_CONTRAST_QUERY);
+
+  constructor() {
+    this.state = this.resolve();
+    this.apply();
+
+    preferences.subscribe(this.handleChange);
+    this.darkQuery?.addEventListener('change', this.handleChange);
+    this.moreContrastQuery?.addEventListener('change', this.handleChange);
+  }
+
+  /**
+   * Current snapshot. Bound so it can be passed to useSyncExternalStore.
+   */
+  readonly getState = (): Theme => this.state;
+
+  /**
+   * Registers a change listener. Bound so it can be passed to
+   * useSyncExternalStore.
+   *
+   * @returns Function that removes the listener
+   */
+  readonly subscribe = (listener: StoreListener): (() => void) => {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private resolve(): Theme {
+    return resolveTheme(
+      preferences.getState().theme,
+      this.darkQuery?.matches ?? false,
+      this.moreContrastQuery?.matches ?? false
+    );
+  }
+
+  private readonly handleChange = (): void => {
+    const next = this.resolve();
+
+    if (next === this.state) {
+      return;
+    }
+
+    this.state = next;
+    this.apply();
+    this.listeners.forEach(listener => listener());
+  };
+
+  /**
+   * Sets the root attribute, and the browser UI color (address bar, task
+   * switcher) to the theme's surface.
+   */
+  private apply(): void {
+    if (typeof document === 'undefined') {
+      return;
+    }
+
+    document.documentElement.setAttribute(THEME_ATTRIBUTE, this.state);
+    document
+      .querySelector('meta[name="theme-color"]')
+      ?.setAttribute('content', readToken('--color-surface'));
+  }
+}
+
+/**
+ * Singleton shared by the UI.
+ */
+export const theme = new ThemeController();
+
+export default theme;
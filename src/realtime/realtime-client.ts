@@ -0,0 +1,259 @@
+/**
+ * Realtime Client Module
+ *
+ * Keeps a push connection alive on top of any RealtimeTransport:
+ * - Heartbeat: a connection that stays silent longer than the heartbeat
+ *   timeout is considered dead and replaced
+ * - Reconnect: exponential backoff with jitter (same policy shape as API
+ *   retries)
+ * - Fallback: after `maxAttempts` failed connects in a row the status
+ *   becomes 'unavailable' so callers can poll; reconnecting continues in
+ *   the background and the status returns to 'open' when it succeeds
+ *
+ * Gap backfill is the caller's job: onOpen reports reconnects, and the
+ * caller fetches what it missed through getMessages({ after, since }).
+ *
+ */
+
+import { apiConfig, realtimeConfig } from '@config/env';
+import { getRetryDelay, type RetryPolicy } from '@api/retry-policy';
+import { getFakeEventServer } from '@mocks/fake-event-server';
+import { session } from '@session/session';
+import type { Message } from '@models/message';
+import type { RealtimeStatus } from '@models/realtime';
+import type {
+  RealtimeConnection,
+  RealtimeTransport,
+} from './realtime-transport';
+import { createSseTransport } from './sse-transport';
+import { createWebSocketTransport } from './websocket-transport';
+
+/**
+ * Default time without any frame (event or heartbeat) before the
+ * connection is considered dead. Servers send heartbeats every 10s.
+ */
+const DEFAULT_HEARTBEAT_TIMEOUT_MS = 30000;
+
+/**
+ * Default reconnect policy.
+ * - maxAttempts: Failed connects in a row before reporting 'unavailable'
+ */
+export const DEFAULT_RECONNECT_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: true,
+  retryableStatuses: [],
+};
+
+/**
+ * Options for creating a realtime client.
+ */
+export interface RealtimeClientOptions {
+  /** Silence (ms) after which the connection is replaced */
+  readonly heartbeatTimeoutMs?: number;
+
+  /** Reconnect policy overrides */
+  readonly reconnect?: Partial<RetryPolicy>;
+}
+
+/**
+ * Callbacks for the owner of the client.
+ *
+ * - onMessage: A message was created, edited or deleted (in any room);
+ *   the message replaces any stored copy with the same `_id`
+ * - onOpen: Connected; `isReconnect` is true for every connection after
+ *   the first one (time to backfill)
+ * - onStatusChange: The status changed
+ */
+export interface RealtimeClientHandlers {
+  readonly onMessage: (message: Message, conversationId: string) => void;
+  readonly onOpen: (isReconnect: boolean) => void;
+  readonly onStatusChange: (status: RealtimeStatus) => void;
+}
+
+/**
+ * RealtimeClient Class
+ *
+ * - start(): Connects and keeps reconnecting until stop()
+ * - stop(): Closes the connection and cancels pending reconnects
+ * - status: Current RealtimeStatus
+ */
+export class RealtimeClient {
+  private readonly transport: RealtimeTransport;
+  private readonly heartbeatTimeoutMs: number;
+  private readonly reconnectPolicy: RetryPolicy;
+
+  private handlers: RealtimeClientHandlers | null = null;
+  private connection: RealtimeConnection | null = null;
+  private currentStatus: RealtimeStatus = 'idle';
+  private failedAttempts = 0;
+  private hasOpened = false;
+  private heartbeatTimeoutId: ReturnType<typeof setTimeout> | undefined;
+  private reconnectTimeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * Creates a new realtime client.
+   *
+   * @param transport - Push transport (WebSocket, SSE, or a fake)
+   * @param options - Heartbeat and reconnect configuration
+   */
+  constructor(
+    transport: RealtimeTransport,
+    options: Readonly<RealtimeClientOptions> = {}
+  ) {
+    this.transport = transport;
+    this.heartbeatTimeoutMs =
+      options.heartbeatTimeoutMs ?? DEFAULT_HEARTBEAT_TIMEOUT_MS;
+    this.reconnectPolicy = {
+      ...DEFAULT_RECONNECT_POLICY,
+      ...options.reconnect,
+    };
+  }
+
+  get status(): RealtimeStatus {
+    return this.currentStatus;
+  }
+
+  /**
+   * Connects. Does nothing if already started.
+   */
+  start(handlers: RealtimeClientHandlers): void {
+    if (this.handlers) {
+      return;
+    }
+
+    this.handlers = handlers;
+    this.failedAttempts = 0;
+    this.hasOpened = false;
+    this.setStatus('connecting');
+    this.connect();
+  }
+
+  /**
+   * Disconnects and cancels pending reconnects.
+   */
+  stop(): void {
+    if (!this.handlers) {
+      return;
+    }
+
+    clearTimeout(this.reconnectTimeoutId);
+    clearTimeout(this.heartbeatTimeoutId);
+    this.connection?.close();
+    this.connection = null;
+    this.setStatus('idle');
+    this.handlers = null;
+  }
+
+  private connect(): void {
+    /**
+     * Callbacks of a replaced connection are ignored.
+     */
+    const connection = this.transport.connect({
+      onOpen: () => {
+        if (this.connection !== connection) {
+          return;
+        }
+
+        const isReconnect = this.hasOpened;
+        this.hasOpened = true;
+        this.failedAttempts = 0;
+        this.armHeartbeat();
+        this.setStatus('open');
+        this.handlers?.onOpen(isReconnect);
+      },
+      onEvent: event => {
+        if (this.connection !== connection) {
+          return;
+        }
+
+        this.armHeartbeat();
+
+        if (event.type !== 'heartbeat') {
+          this.handlers?.onMessage(event.message, event.conversationId);
+        }
+      },
+      onClose: () => {
+        if (this.connection === connection) {
+          this.handleConnectionLost();
+        }
+      },
+    });
+
+    this.connection = connection;
+  }
+
+  /**
+   * Restarts the silence timer; firing means the connection is dead.
+   */
+  private armHeartbeat(): void {
+    clearTimeout(this.heartbeatTimeoutId);
+    this.heartbeatTimeoutId = setTimeout(() => {
+      this.connection?.close();
+      this.handleConnectionLost();
+    }, this.heartbeatTimeoutMs);
+  }
+
+  private handleConnectionLost(): void {
+    clearTimeout(this.heartbeatTimeoutId);
+    this.connection = null;
+
+    if (!this.handlers) {
+      return;
+    }
+
+    this.failedAttempts += 1;
+    this.setStatus(
+      this.failedAttempts >= this.reconnectPolicy.maxAttempts
+        ? 'unavailable'
+        : 'reconnecting'
+    );
+
+    const delayMs =
+      getRetryDelay(this.failedAttempts, this.reconnectPolicy) ??
+      this.reconnectPolicy.maxDelayMs;
+
+    this.reconnectTimeoutId = setTimeout(() => this.connect(), delayMs);
+  }
+
+  private setStatus(status: RealtimeStatus): void {
+    if (status !== this.currentStatus) {
+      this.currentStatus = status;
+      this.handlers?.onStatusChange(status);
+    }
+  }
+}
+
+/**
+ * Creates the realtime client described by realtimeConfig.
+ *
+ * - 'polling': No client (returns null); live updates come from polling
+ * - With the fake API: Connects to the in-process fake event server
+ * - Otherwise: Connects to VITE_REALTIME_URL
+ *
+ * @returns Realtime client, or null when push is disabled
+ */
+export function createRealtimeClient(): RealtimeClient | null {
+  if (realtimeConfig.transport === 'polling') {
+    return null;
+  }
+
+  const fakeServer = apiConfig.useFakeApi ? getFakeEventServer() : null;
+  const url = realtimeConfig.url || fakeServer?.url || '';
+
+  const transport =
+    realtimeConfig.transport === 'sse'
+      ? createSseTransport({
+          url,
+          token: session.getToken,
+          createEventSource: fakeServer?.createEventSource,
+        })
+      : createWebSocketTransport({
+          url,
+          token: session.getToken,
+          createSocket: fakeServer?.createSocket,
+        });
+
+  return new RealtimeClient(transport);
+}
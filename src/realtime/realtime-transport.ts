@@ -0,0 +1,135 @@
+/**
+ * Realtime Transport Module
+ *
+ * Transport-agnostic contract for push connections, plus the shared frame
+ * parser. Transports only move frames; reconnecting, heartbeats and
+ * fallback live in RealtimeClient.
+ *
+ */
+
+import { DEFAULT_CONVERSATION_ID } from '@api/endpoints';
+import { messageSchema } from '@api/schemas';
+import type { RealtimeEvent } from '@models/realtime';
+
+/**
+ * Callbacks a transport invokes for one connection.
+ *
+ * - onOpen: The connection is established
+ * - onEvent: A valid event frame arrived
+ * - onClose: The connection closed or failed to open (called once)
+ */
+export interface RealtimeConnectionHandlers {
+  readonly onOpen: () => void;
+  readonly onEvent: (event: RealtimeEvent) => void;
+  readonly onClose: () => void;
+}
+
+/**
+ * An open (or opening) connection.
+ */
+export interface RealtimeConnection {
+  /**
+   * Closes the connection. No handler is called afterwards.
+   */
+  close(): void;
+}
+
+/**
+ * Opens push connections.
+ */
+export interface RealtimeTransport {
+  /** Transport name, for logs */
+  readonly name: string;
+
+  /** Opens a new connection */
+  connect(handlers: RealtimeConnectionHandlers): RealtimeConnection;
+}
+
+/**
+ * Subset of the WebSocket API used by the WebSocket transport.
+ * Browser WebSockets satisfy it; so does the fake event server's socket.
+ */
+export interface RealtimeSocket {
+  onopen: ((event: Event) => unknown) | null;
+  onmessage: ((event: MessageEvent) => unknown) | null;
+  onerror: ((event: Event) => unknown) | null;
+  onclose: ((event: CloseEvent) => unknown) | null;
+  close(): void;
+}
+
+/**
+ * Subset of the EventSource API used by the SSE transport.
+ * Browser EventSources satisfy it; so does the fake event server's source.
+ */
+export interface RealtimeEventSource {
+  onopen: ((event: Event) => unknown) | null;
+  onmessage: ((event: MessageEvent) => unknown) | null;
+  onerror: ((event: Event) => unknown) | null;
+  close(): void;
+}
+
+/**
+ * Adds the API token to a realtime URL.
+ *
+ * Neither WebSocket nor EventSource can send an Authorization header, so
+ * the token travels as the `access_token` query parameter.
+ *
+ * @param url - Realtime endpoint URL
+ * @param token - API token
+ * @returns URL with the access_token parameter
+ */
+export function withAccessToken(url: string, token: string): string {
+  const authorizedUrl = new URL(url);
+  authorizedUrl.searchParams.set('access_token', token);
+  return authorizedUrl.toString();
+}
+
+/**
+ * Parses one frame into a realtime event.
+ *
+ * Malformed frames and messages that fail schema validation are ignored
+ * (returns undefined): a bad event must not tear down the connection, and
+ * gap backfill after the next reconnect recovers anything missed.
+ *
+ * @param data - Raw frame payload
+ * @returns The event, or undefined if the frame isn't valid
+ */
+export function parseRealtimeFrame(data: unknown): RealtimeEvent | undefined {
+  if (typeof data !== 'string') {
+    return undefined;
+  }
+
+  let frame: unknown;
+
+  try {
+    frame = JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+
+  if (typeof frame !== 'object' || frame === null) {
+    return undefined;
+  }
+
+  const {
+    type,
+    conversationId = DEFAULT_CONVERSATION_ID,
+    data: payload,
+  } = frame as Record<string, unknown>;
+
+  if (type === 'heartbeat') {
+    return { type: 'heartbeat' };
+  }
+
+  if (
+    (type === 'message' || type === 'message-updated') &&
+    typeof conversationId === 'string'
+  ) {
+    const result = messageSchema(payload);
+    return result.ok
+      ? { type, conversationId, message: result.value }
+      : undefined;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,83 @@
+import { resolveToken } from '@session/session';
+import type { TokenSource } from '@models/session';
+import {
+  parseRealtimeFrame,
+  withAccessToken,
+  type RealtimeConnectionHandlers,
+  type RealtimeEventSource,
+  type RealtimeTransport,
+} from './realtime-transport';
+
+/**
+ * Options for the Server-Sent Events transport.
+ */
+export interface SseTransportOptions {
+  /** Endpoint URL (http:// or https://) */
+  readonly url: string;
+
+  /**
+   * API token, or a function returning the current one (read on every
+   * connect), sent as the access_token query parameter
+   */
+  readonly token: TokenSource;
+
+  /** Opens the event source (defaults to the browser EventSource) */
+  readonly createEventSource?: (url: string) => RealtimeEventSource;
+}
+
+/**
+ * Creates a transport that receives events over Server-Sent Events.
+ *
+ * EventSource reconnects on its own, but silently and without backfill,
+ * so any error closes the source and lets RealtimeClient reconnect.
+ *
+ * @param options - Endpoint, token and EventSource factory
+ * @returns Realtime transport
+ */
+export function createSseTransport({
+  url,
+  token,
+  createEventSource = sourceUrl => new EventSource(sourceUrl),
+}: SseTransportOptions): RealtimeTransport {
+  return {
+    name: 'sse',
+    connect(handlers: RealtimeConnectionHandlers) {
+      const source = createEventSource(
+        withAccessToken(url, resolveToken(token))
+      );
+      let isClosed = false;
+
+      const closeSource = () => {
+        isClosed = true;
+        source.onopen = null;
+        source.onmessage = null;
+        source.onerror = null;
+        source.close();
+      };
+
+      source.onopen = () => handlers.onOpen();
+
+      source.onmessage = event => {
+        const realtimeEvent = parseRealtimeFrame(event.data);
+        if (realtimeEvent) {
+          handlers.onEvent(realtimeEvent);
+        }
+      };
+
+      source.onerror = () => {
+        if (!isClosed) {
+          closeSource();
+          handlers.onClose();
+        }
+      };
+
+      return {
+        close() {
+          if (!isClosed) {
+            closeSource();
+          }
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import { resolveToken } from '@session/session';
+import type { TokenSource } from '@models/session';
+import {
+  parseRealtimeFrame,
+  withAccessToken,
+  type RealtimeConnectionHandlers,
+  type RealtimeSocket,
+  type RealtimeTransport,
+} from './realtime-transport';
+
+/**
+ * Options for the WebSocket transport.
+ */
+export interface WebSocketTransportOptions {
+  /** Endpoint URL (ws:// or wss://) */
+  readonly url: string;
+
+  /**
+   * API token, or a function returning the current one (read on every
+   * connect), sent as the access_token query parameter
+   */
+  readonly token: TokenSource;
+
+  /** Opens the socket (defaults to the browser WebSocket) */
+  readonly createSocket?: (url: string) => RealtimeSocket;
+}
+
+/**
+ * Creates a transport that receives events over a WebSocket.
+ *
+ * The connection is receive-only: the client never sends frames.
+ *
+ * @param options - Endpoint, token and socket factory
+ * @returns Realtime transport
+ *
+ * @example
+ * ```TypeScript
+ * const transport = createWebSocketTransport({
+ *   url: 'wss://chat.example.com/events',
+ *   token: session.getToken,
+ * });
+ * ```
+ */
+export function createWebSocketTransport({
+  url,
+  token,
+  createSocket = socketUrl => new WebSocket(socketUrl),
+}: WebSocketTransportOptions): RealtimeTransport {
+  return {
+    name: 'websocket',
+    connect(handlers: RealtimeConnectionHandlers) {
+      const socket = createSocket(withAccessToken(url, resolveToken(token)));
+      let isClosed = false;
+
+      const detach = () => {
+        isClosed = true;
+        socket.onopen = null;
+        socket.onmessage = null;
+        socket.onerror = null;
+        socket.onclose = null;
+      };
+
+      socket.onopen = () => handlers.onOpen();
+
+      socket.onmessage = event => {
+        const realtimeEvent = parseRealtimeFrame(event.data);
+        if (realtimeEvent) {
+          handlers.onEvent(realtimeEvent);
+        }
+      };
+
+      /**
+       * No onerror handler: an error is always followed by close, which
+       * reports it.
+       */
+      socket.onclose = () => {
+        if (!isClosed) {
+          detach();
+          handlers.onClose();
+        }
+      };
+
+      return {
+        close() {
+          if (!isClosed) {
+            detach();
+            socket.close();
+          }
+        },
+      };
+    },
+  };
+}
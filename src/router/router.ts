@@ -0,0 +1,93 @@
+/**
+ * Router Module
+ *
+ * Minimal History API router: the app has a single kind of route,
+ * `/c/:conversationId`, so a matcher and a navigate() function are all it
+ * needs. Framework-agnostic; React reads the location through
+ * @hooks/useRoute.
+ *
+ * The host must serve index.html for every path (Vite's dev server does).
+ */
+
+/**
+ * Event dispatched on window after navigate(), so subscribers learn about
+ * pushState/replaceState changes (the browser only reports back/forward).
+ */
+const NAVIGATE_EVENT = 'app:navigate';
+
+const CONVERSATION_PATH_PATTERN = /^\/c\/([^/]+)\/?$/;
+
+/**
+ * Path of a conversation.
+ *
+ * @param conversationId - Room id
+ * @returns `/c/:conversationId`
+ */
+export function getConversationPath(conversationId: string): string {
+  return `/c/${encodeURIComponent(conversationId)}`;
+}
+
+/**
+ * Reads the conversation id from a path.
+ *
+ * @param pathname - Location pathname
+ * @returns The conversation id, or null if the path isn't a conversation
+ */
+export function matchConversationPath(pathname: string): string | null {
+  const match = CONVERSATION_PATH_PATTERN.exec(pathname);
+
+  if (!match) {
+    return null;
+  }
+
+  try {
+    return decodeURIComponent(match[1]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Current pathname.
+ */
+export function getPathname(): string {
+  return window.location.pathname;
+}
+
+/**
+ * Navigates without reloading the page.
+ *
+ * @param path - Target path
+ * @param options - `replace` replaces the current history entry
+ */
+export function navigate(
+  path: string,
+  { replace = false }: { readonly replace?: boolean } = {}
+): void {
+  if (path === getPathname()) {
+    return;
+  }
+
+  if (replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+  }
+
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+/**
+ * Registers a listener for location changes (navigate() and back/forward).
+ *
+ * @returns Function that removes the listener
+ */
+export function subscribeToLocation(listener: () => void): () => void {
+  window.addEventListener('popstate', listener);
+  window.addEventListener(NAVIGATE_EVENT, listener);
+
+  return () => {
+    window.removeEventListener('popstate', listener);
+    window.removeEventListener(NAVIGATE_EVENT, listener);
+  };
+}
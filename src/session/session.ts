@@ -0,0 +1,277 @@
+/**
+ * Session Module
+ *
+ * Holds the API bearer token: in memory, and in localStorage when the user
+ * chose to be remembered. Framework-agnostic: the API client reads the
+ * token from here and reports rejected tokens through the session
+ * interceptor; React reads the state through @hooks/useSession.
+ *
+ * Lifecycle:
+ * - signed-out → active: signIn()
+ * - active → active: refresh() obtained a new token after a 401
+ * - active → expired: A 401 that refresh() couldn't recover
+ * - expired → active: signIn() again (nothing else is reset)
+ * - any → signed-out: signOut()
+ *
+ */
+
+import { apiConfig } from '@config/env';
+import type {
+  RefreshHandler,
+  SessionState,
+  SignInOptions,
+  TokenSource,
+} from '@models/session';
+import type { StoreListener } from '@store/message-store';
+
+/**
+ * Session statuses.
+ *
+ * - SIGNED_OUT: No token yet (first run, or after signing out)
+ * - ACTIVE: Requests are sent with the token
+ * - EXPIRED: The server rejected the token; waiting for a new sign-in
+ */
+export const SessionStatus = {
+  SIGNED_OUT: 'signed-out',
+  ACTIVE: 'active',
+  EXPIRED: 'expired',
+} as const;
+
+/**
+ * Type for session status values.
+ */
+export type SessionStatus = (typeof SessionStatus)[keyof typeof SessionStatus];
+
+/**
+ * localStorage key of a remembered token.
+ */
+export const SESSION_STORAGE_KEY = 'doodle-chat:session';
+
+/**
+ * Reads a token source.
+ */
+export function resolveToken(source: TokenSource): string {
+  return typeof source === 'function' ? source() : source;
+}
+
+/**
+ * Builds the initial state: a remembered token, then the build-time token
+ * (VITE_API_TOKEN, for development), otherwise signed out.
+ */
+function createInitialState(initialToken: string): SessionState {
+  const rememberedToken = readRememberedToken();
+
+  if (rememberedToken) {
+    return {
+      status: SessionStatus.ACTIVE,
+      token: rememberedToken,
+      remember: true,
+    };
+  }
+
+  return initialToken
+    ? { status: SessionStatus.ACTIVE, token: initialToken, remember: false }
+    : { status: SessionStatus.SIGNED_OUT, token: '', remember: false };
+}
+
+function readRememberedToken(): string {
+  try {
+    return localStorage.getItem(SESSION_STORAGE_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Persists (or, with an empty token, forgets) the remembered token.
+ * Best-effort: without storage the session only lasts for the page.
+ */
+function writeRememberedToken(token: string): void {
+  try {
+    if (token) {
+      localStorage.setItem(SESSION_STORAGE_KEY, token);
+    } else {
+      localStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+  } catch {
+    // Storage unavailable (private mode, quota): keep the token in memory.
+  }
+}
+
+/**
+ * SessionManager Class
+ *
+ * - getState()/subscribe(): The useSyncExternalStore contract
+ * - getToken(): Token for the next request
+ * - signIn()/signOut(): User-driven transitions
+ * - refresh(): Called on 401; renews the token through the refresh handler
+ *   or expires the session
+ * - setRefreshHandler(): Plugs in silent renewal (none by default: the
+ *   Doodle API issues static tokens)
+ */
+export class SessionManager {
+  private state: SessionState;
+  private readonly listeners = new Set<StoreListener>();
+  private refreshHandler: RefreshHandler | null = null;
+  private refreshPromise: Promise<string | null> | null = null;
+
+  /**
+   * Creates a session.
+   *
+   * @param initialToken - Token to start with when none is remembered
+   *   (defaults to apiConfig.token)
+   */
+  constructor(initialToken: string = apiConfig.token) {
+    this.state = createInitialState(initialToken);
+  }
+
+  /**
+   * Current snapshot. Bound so it can be passed to useSyncExternalStore.
+   */
+  readonly getState = (): SessionState => this.state;
+
+  /**
+   * Registers a change listener. Bound so it can be passed to
+   * useSyncExternalStore.
+   *
+   * @returns Function that removes the listener
+   */
+  readonly subscribe = (listener: StoreListener): (() => void) => {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Token for the next request (empty unless the session is active).
+   * Bound so it can be passed as a TokenSource.
+   */
+  readonly getToken = (): string => this.state.token;
+
+  /**
+   * Starts (or restarts an expired) session with a token.
+   */
+  signIn(token: string, options: Readonly<SignInOptions> = {}): void {
+    const remember = options.remember ?? false;
+    const trimmedToken = token.trim();
+
+    writeRememberedToken(remember ? trimmedToken : '');
+    this.update({
+      status: SessionStatus.ACTIVE,
+      token: trimmedToken,
+      remember,
+    });
+  }
+
+  /**
+   * Ends the session and forgets a remembered token.
+   */
+  signOut(): void {
+    writeRememberedToken('');
+    this.update({ status: SessionStatus.SIGNED_OUT, token: '' });
+  }
+
+  /**
+   * Marks the active session as expired and forgets its token.
+   */
+  expire(): void {
+    if (this.state.status !== SessionStatus.ACTIVE) {
+      return;
+    }
+
+    writeRememberedToken('');
+    this.update({ status: SessionStatus.EXPIRED, token: '' });
+  }
+
+  /**
+   * Sets the function that renews a rejected token (null removes it).
+   */
+  setRefreshHandler(handler: RefreshHandler | null): void {
+    this.refreshHandler = handler;
+  }
+
+  /**
+   * Recovers from a 401.
+   *
+   * - The token was already replaced (by a concurrent refresh or a new
+   *   sign-in): resolves to the current token
+   * - Otherwise: asks the refresh handler once for all concurrent callers;
+   *   without a handler, or if it fails, the session expires
+   *
+   * @param rejectedToken - Token the failed request was sent with
+   * @returns The token to retry with, or null if the session isn't active
+   */
+  refresh(rejectedToken: string): Promise<string | null> {
+    if (this.state.status !== SessionStatus.ACTIVE) {
+      return Promise.resolve(null);
+    }
+
+    if (this.state.token !== rejectedToken) {
+      return Promise.resolve(this.state.token);
+    }
+
+    this.refreshPromise ??= this.renew(rejectedToken).finally(() => {
+      this.refreshPromise = null;
+    });
+
+    return this.refreshPromise;
+  }
+
+  private async renew(rejectedToken: string): Promise<string | null> {
+    let renewedToken: string | null = null;
+
+    try {
+      renewedToken = (await this.refreshHandler?.(rejectedToken)) ?? null;
+    } catch {
+      renewedToken = null;
+    }
+
+    /**
+     * The user may have signed out or in while the handler ran.
+     */
+    if (
+      this.state.status !== SessionStatus.ACTIVE ||
+      this.state.token !== rejectedToken
+    ) {
+      return this.state.status === SessionStatus.ACTIVE
+        ? this.state.token
+        : null;
+    }
+
+    if (!renewedToken) {
+      this.expire();
+      return null;
+    }
+
+    if (this.state.remember) {
+      writeRememberedToken(renewedToken);
+    }
+
+    this.update({ token: renewedToken });
+    return renewedToken;
+  }
+
+  /**
+   * Applies a partial update and notifies listeners if anything changed.
+   */
+  private update(partial: Partial<SessionState>): void {
+    const keys = Object.keys(partial) as Array<keyof SessionState>;
+    const hasChanges = keys.some(key => partial[key] !== this.state[key]);
+
+    if (!hasChanges) {
+      return;
+    }
+
+    this.state = { ...this.state, ...partial };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Singleton session shared by the API client, the realtime client and the UI.
+ */
+export const session = new SessionManager();
+
+export default session;
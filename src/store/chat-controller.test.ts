@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ApiClient } from '@api/api-client';
+import type { CreateMessageRequest, Message } from '@models/message';
+import type { OutboxEntry } from '@models/outbox';
+import { Outbox } from '@outbox/outbox';
+import type { OutboxStorage } from '@outbox/outbox-storage';
+import { SessionManager } from '@session/session';
+import { ChatController } from './chat-controller';
+import { MessageStore } from './message-store';
+
+const CONVERSATION_ID = 'general';
+
+/**
+ * Outbox storage that keeps entries in memory.
+ */
+class MemoryOutboxStorage implements OutboxStorage {
+  private readonly entries = new Map<string, OutboxEntry>();
+
+  async getAll(): Promise<ReadonlyArray<OutboxEntry>> {
+    return [...this.entries.values()];
+  }
+
+  async put(entry: Readonly<OutboxEntry>): Promise<void> {
+    this.entries.set(entry.id, entry);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+}
+
+/**
+ * API client whose first read returns `initialMessages`, whose later reads
+ * return nothing, and whose sends echo the request back as the server
+ * message.
+ */
+function createClient(initialMessages: ReadonlyArray<Message> = []) {
+  const getMessages = vi
+    .fn(async (): Promise<ReadonlyArray<Message>> => [])
+    .mockResolvedValueOnce(initialMessages);
+  const createMessage = vi.fn(
+    async (
+      _conversationId: string,
+      request: Readonly<CreateMessageRequest>
+    ): Promise<Message> => ({
+      _id: 'm1',
+      ...request,
+      createdAt: new Date().toISOString(),
+    })
+  );
+
+  return {
+    client: { getMessages, createMessage } as unknown as ApiClient,
+    getMessages,
+    createMessage,
+  };
+}
+
+function createController(client: ApiClient, outbox?: Outbox) {
+  return new ChatController(
+    CONVERSATION_ID,
+    new MessageStore(),
+    client,
+    outbox ?? new Outbox(new MemoryOutboxStorage()),
+    null,
+    new SessionManager('token')
+  );
+}
+
+beforeEach(() => {
+  vi.stubGlobal('window', new EventTarget());
+  vi.stubGlobal(
+    'document',
+    Object.assign(new EventTarget(), { visibilityState: 'visible' })
+  );
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('ChatController', () => {
+  describe('polling', () => {
+    it('polls after the newest message and since the newest change', async () => {
+      const { client, getMessages } = createClient([
+        {
+          _id: 'm1',
+          message: 'Hello',
+          author: 'Alice',
+          createdAt: '2024-03-01T09:00:00.000Z',
+        },
+        {
+          _id: 'm2',
+          message: 'Hi (edited)',
+          author: 'Bob',
+          createdAt: '2024-03-01T08:00:00.000Z',
+          changedAt: '2024-03-01T09:30:00.000Z',
+        },
+      ]);
+      const release = createController(client).retain({ pollIntervalMs: 1 });
+
+      try {
+        await vi.waitFor(() => {
+          expect(getMessages.mock.calls.length).toBeGreaterThan(1);
+        });
+        expect(getMessages).toHaveBeenNthCalledWith(
+          2,
+          CONVERSATION_ID,
+          {
+            limit: expect.any(Number),
+            after: '2024-03-01T09:00:00.000Z',
+            since: '2024-03-01T09:30:00.000Z',
+          },
+          expect.anything()
+        );
+      } finally {
+        release();
+      }
+    });
+  });
+
+  describe('outbox', () => {
+    it('sends a queued reply with its replyTo', async () => {
+      const outbox = new Outbox(new MemoryOutboxStorage());
+      const request: CreateMessageRequest = {
+        message: 'Sounds good',
+        author: 'Alice',
+        replyTo: 'parent-1',
+      };
+      await outbox.enqueue('temp-1', CONVERSATION_ID, request);
+
+      const { client, createMessage } = createClient();
+      const release = createController(client, outbox).retain();
+
+      try {
+        await vi.waitFor(() => {
+          expect(createMessage).toHaveBeenCalledWith(CONVERSATION_ID, request, {
+            idempotencyKey: 'temp-1',
+          });
+        });
+        expect(outbox.size).toBe(0);
+      } finally {
+        release();
+      }
+    });
+  });
+});
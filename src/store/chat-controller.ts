@@ -0,0 +1,1183 @@
+/**
+ * Chat Controller Module
+ *
+ * Owns the asynchronous chat flows (initial load, history paging, live
+ * updates, optimistic sending, editing, deleting and reactions, outbox
+ * flushing) and writes their results to a MessageStore. Framework-agnostic.
+ *
+ * Live updates come from the realtime client when one is configured, with
+ * a backfill through the sync cursor on every reconnect, and from polling
+ * when it isn't (or while the realtime endpoint is unavailable). Polls and
+ * backfills ask for messages created `after` the newest one seen, and,
+ * from servers that support it, for messages changed `since` the newest
+ * change seen, so edits, deletions and reactions by others arrive too.
+ * The cursor only follows what the server returned to reads and pushes: a
+ * confirmed send is newer than messages others may have sent just before
+ * it, which the next poll still has to fetch.
+ *
+ * There is one controller (and store) per conversation, created on first
+ * use by getChatController() and kept afterwards, so returning to a room
+ * shows its messages right away while they refresh.
+ *
+ * While the session is expired, new and failed messages wait in the outbox
+ * and polling pauses; both resume once the user signs in again.
+ *
+ * Each controller is shared and reference-counted: every mounted consumer
+ * retains it, the first retain starts loading and polling, and the last
+ * release stops them. However many components read chat state, there is
+ * one initial fetch and one poll loop per room.
+ *
+ */
+
+import { apiClient, type ApiClient } from '@api/api-client';
+import { DEFAULT_CONVERSATION_ID } from '@api/endpoints';
+import { isApiError, toApiError, type ApiError } from '@api/api-error';
+import { outbox, type Outbox } from '@outbox/outbox';
+import { session, SessionStatus, type SessionManager } from '@session/session';
+import type {
+  ChatMessage,
+  CreateMessageRequest,
+  DeliveryState,
+  Message,
+  MessageReaction,
+} from '@models/message';
+import type { OutboxEntry, OutboxFlushResult } from '@models/outbox';
+import type { LiveStatus, UseChatMessagesOptions } from '@models/hooks';
+import type { MessageActionError } from '@models/store';
+import type { RealtimeStatus } from '@models/realtime';
+import {
+  createRealtimeClient,
+  type RealtimeClient,
+} from '@realtime/realtime-client';
+import { decodeHtmlEntities } from '@utils/html-entities';
+import {
+  hasReacted,
+  isEditable,
+  MessageStore,
+  normalizeMessage,
+  selectOldestServerMessage,
+} from './message-store';
+
+/**
+ * Default number of messages to fetch at a higher cap to ensure recent messages are
+ * included in the initial load. Older messages are paged in with HISTORY_PAGE_LIMIT.
+ */
+const DEFAULT_MESSAGES_LIMIT = 200;
+
+/**
+ * Number of messages requested per older-messages (history) page.
+ */
+const HISTORY_PAGE_LIMIT = 50;
+
+/**
+ * Default interval between live update polls.
+ */
+export const DEFAULT_POLL_INTERVAL_MS = 5000;
+
+/**
+ * Upper bound for the poll delay while backing off after failures.
+ */
+const MAX_POLL_BACKOFF_MS = 60000;
+
+/**
+ * Fallback error messages for failed message changes.
+ */
+const MUTATION_FAILURE_MESSAGES: Readonly<
+  Record<MessageActionError['operation'], string>
+> = {
+  edit: 'Failed to edit message',
+  delete: 'Failed to delete message',
+  react: 'Failed to update reaction',
+};
+
+/**
+ * Prefix of client-generated ids for messages not yet confirmed by the server.
+ */
+const TEMPORARY_ID_PREFIX = 'temp-';
+
+/**
+ * Generates a temporary id for an optimistic message.
+ * Falls back to a timestamp-based id where crypto.randomUUID is unavailable
+ * (insecure contexts).
+ */
+function createTemporaryId(): string {
+  const uniquePart =
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+      ? crypto.randomUUID()
+      : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+  return `${TEMPORARY_ID_PREFIX}${uniquePart}`;
+}
+
+/**
+ * Cursor of polls and backfills.
+ *
+ * - `after`: The newest `createdAt` seen (new messages)
+ * - `since`: The newest `changedAt` seen (edits, deletions and reactions;
+ *   ignored by servers that don't report changes)
+ */
+interface SyncCursor {
+  readonly after?: string;
+  readonly since?: string;
+}
+
+/**
+ * The later of a timestamp and the newest one a message reports.
+ */
+function getNewest(
+  cursor: string | undefined,
+  messages: ReadonlyArray<Message>,
+  getTimestamp: (message: Message) => string
+): string | undefined {
+  return messages.reduce<string | undefined>((newest, message) => {
+    const timestamp = getTimestamp(message);
+
+    return newest === undefined || Date.parse(timestamp) > Date.parse(newest)
+      ? timestamp
+      : newest;
+  }, cursor);
+}
+
+/**
+ * Moves a sync cursor past messages returned by the server (`changedAt`
+ * falls back to `createdAt` for servers that don't report changes).
+ */
+function advanceSyncCursor(
+  cursor: SyncCursor,
+  messages: ReadonlyArray<Message>
+): SyncCursor {
+  return {
+    after: getNewest(cursor.after, messages, message => message.createdAt),
+    since: getNewest(
+      cursor.since,
+      messages,
+      message => message.changedAt ?? message.createdAt
+    ),
+  };
+}
+
+/**
+ * Builds the optimistic representation of a message being sent.
+ */
+function createLocalMessage(
+  payload: Readonly<CreateMessageRequest>,
+  deliveryState: DeliveryState
+): ChatMessage {
+  const now = new Date();
+
+  return {
+    _id: createTemporaryId(),
+    message: payload.message,
+    author: payload.author,
+    replyTo: payload.replyTo,
+    createdAt: now.toISOString(),
+    createdAtMs: now.getTime(),
+    deliveryState,
+  };
+}
+
+/**
+ * Builds the list representation of a message waiting in the outbox.
+ */
+function createQueuedMessage(entry: Readonly<OutboxEntry>): ChatMessage {
+  return {
+    _id: entry.id,
+    message: entry.request.message,
+    author: entry.request.author,
+    replyTo: entry.request.replyTo,
+    createdAt: entry.queuedAt,
+    createdAtMs: new Date(entry.queuedAt).getTime(),
+    deliveryState: 'queued',
+  };
+}
+
+/**
+ * Whether the browser reports being offline.
+ * `navigator.onLine === true` doesn't guarantee connectivity, so it is only
+ * used to skip requests that would certainly fail.
+ */
+function isBrowserOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * Whether a failed message should wait in the outbox instead of failing:
+ * the request never reached the server, or the session expired (the
+ * message is sent after signing in again).
+ */
+function shouldQueue(error: ApiError): boolean {
+  return error.isConnectivityError() || error.isUnauthorized();
+}
+
+/**
+ * Whether a request was cancelled because it was superseded or the
+ * controller stopped. Such failures are expected and never surface in state.
+ */
+function isAbortError(error: unknown): boolean {
+  return isApiError(error) && error.isAborted();
+}
+
+/**
+ * Computes the delay before the next poll.
+ * Doubles the interval for every consecutive failure, capped at MAX_POLL_BACKOFF_MS.
+ *
+ * @param intervalMs - Regular polling interval
+ * @param consecutiveFailures - Number of polls that failed in a row
+ * @returns Delay in milliseconds
+ */
+function getPollDelay(intervalMs: number, consecutiveFailures: number): number {
+  if (consecutiveFailures === 0) {
+    return intervalMs;
+  }
+
+  return Math.min(intervalMs * 2 ** consecutiveFailures, MAX_POLL_BACKOFF_MS);
+}
+
+/**
+ * Reactions with `author` added to (or removed from) one emoji. Emojis
+ * nobody uses any more are dropped, like the server does.
+ */
+function toggleReactionAuthor(
+  reactions: ReadonlyArray<MessageReaction>,
+  emoji: string,
+  author: string,
+  isAdding: boolean
+): ReadonlyArray<MessageReaction> {
+  if (isAdding) {
+    return reactions.some(reaction => reaction.emoji === emoji)
+      ? reactions.map(reaction =>
+          reaction.emoji === emoji
+            ? { emoji, authors: [...reaction.authors, author] }
+            : reaction
+        )
+      : [...reactions, { emoji, authors: [author] }];
+  }
+
+  return reactions
+    .map(reaction =>
+      reaction.emoji === emoji
+        ? {
+            emoji,
+            authors: reaction.authors.filter(
+              name => decodeHtmlEntities(name) !== author
+            ),
+          }
+        : reaction
+    )
+    .filter(reaction => reaction.authors.length > 0);
+}
+
+/**
+ * Reads the page visibility, treating non-browser environments as visible.
+ */
+function isDocumentVisible(): boolean {
+  return (
+    typeof document === 'undefined' || document.visibilityState !== 'hidden'
+  );
+}
+
+/**
+ * ChatController Class
+ *
+ * - retain()/release: Reference-counted lifecycle (see module docs)
+ * - reload()/loadOlder(): Loading
+ * - sendMessage()/retryMessage()/discardMessage(): Optimistic sending
+ *   Messages sent without connectivity wait in the offline outbox.
+ * - editMessage()/deleteMessage()/toggleReaction(): Optimistic changes
+ *   with rollback
+ *
+ * Action methods are bound, so they can be passed around as callbacks.
+ */
+export class ChatController {
+  readonly conversationId: string;
+  readonly store: MessageStore;
+  private readonly client: ApiClient;
+  private readonly outbox: Outbox;
+  private readonly realtime: RealtimeClient | null;
+  private readonly session: SessionManager;
+
+  /**
+   * Options of every current retainer; polling honours the most demanding.
+   */
+  private readonly retainers = new Map<symbol, UseChatMessagesOptions>();
+
+  /**
+   * Controllers of the in-flight load and history requests.
+   * A new load aborts the previous one (and any history page, whose cursor
+   * belongs to the superseded list).
+   */
+  private loadController: AbortController | null = null;
+  private olderController: AbortController | null = null;
+
+  /**
+   * Running poll loop, if any.
+   */
+  private pollController: AbortController | null = null;
+  private pollTimeoutId: ReturnType<typeof setTimeout> | undefined;
+  private pollIntervalMs = DEFAULT_POLL_INTERVAL_MS;
+  private pollFailures = 0;
+
+  private isPageVisible = isDocumentVisible();
+
+  private realtimeStatus: RealtimeStatus = 'idle';
+
+  private sessionStatus: SessionStatus = SessionStatus.ACTIVE;
+  private unsubscribeSession: (() => void) | null = null;
+
+  /**
+   * Controller of the in-flight gap backfill.
+   */
+  private backfillController: AbortController | null = null;
+
+  /**
+   * Cursor of polls and backfills: the newest message and change returned
+   * by a load, poll or backfill, or pushed by the realtime endpoint.
+   * Confirmed sends don't move it (see module docs); polls fetch them again
+   * and the store merges them by id.
+   */
+  private syncCursor: SyncCursor = {};
+
+  /**
+   * Messages with an edit or delete in flight (one at a time per message).
+   */
+  private readonly mutatingIds = new Set<string>();
+
+  /**
+   * Set when the page gets hidden so polling resumes with an immediate poll.
+   */
+  private resumeImmediately = false;
+
+  /**
+   * Creates a new controller.
+   *
+   * @param conversationId - Room whose messages are loaded and sent
+   * @param store - Store the controller writes to
+   * @param client - API client (defaults to the shared apiClient)
+   * @param messageOutbox - Offline outbox (defaults to the shared outbox)
+   * @param realtime - Push client (null: live updates by polling only)
+   * @param authSession - API session (defaults to the shared session)
+   */
+  constructor(
+    conversationId: string,
+    store: MessageStore,
+    client: ApiClient = apiClient,
+    messageOutbox: Outbox = outbox,
+    realtime: RealtimeClient | null = null,
+    authSession: SessionManager = session
+  ) {
+    this.conversationId = conversationId;
+    this.store = store;
+    this.client = client;
+    this.outbox = messageOutbox;
+    this.realtime = realtime;
+    this.session = authSession;
+  }
+
+  /**
+   * Registers a consumer. The first retain starts loading and polling.
+   *
+   * @param options - Live update preferences of this consumer
+   * @returns Function that releases this consumer (stops everything when
+   * it was the last one)
+   */
+  retain(options: Readonly<UseChatMessagesOptions> = {}): () => void {
+    const key = Symbol('chat-retainer');
+    const isFirst = this.retainers.size === 0;
+    this.retainers.set(key, options);
+
+    if (isFirst) {
+      this.start();
+    } else {
+      this.updatePolling();
+    }
+
+    return () => {
+      if (!this.retainers.delete(key)) {
+        return;
+      }
+
+      if (this.retainers.size === 0) {
+        this.stop();
+      } else {
+        this.updatePolling();
+      }
+    };
+  }
+
+  /**
+   * Reload messages manually.
+   */
+  readonly reload = async (): Promise<void> => {
+    await this.loadMessages();
+  };
+
+  /**
+   * Load older messages (backward pagination).
+   *
+   * Fetches the page preceding the oldest loaded message using the `before`
+   * cursor and prepends it. A page shorter than HISTORY_PAGE_LIMIT means the
+   * beginning of the conversation has been reached.
+   *
+   * Errors are reported through olderStatus only; the loaded list stays usable.
+   */
+  readonly loadOlder = async (): Promise<void> => {
+    const oldestMessage = selectOldestServerMessage(this.store.getState());
+
+    if (!oldestMessage || this.olderController) {
+      return;
+    }
+
+    const controller = new AbortController();
+    this.olderController = controller;
+    this.store.setHistoryState({ olderStatus: 'loading' });
+
+    try {
+      const olderMessages = await this.client.getMessages(
+        this.conversationId,
+        { before: oldestMessage.createdAt, limit: HISTORY_PAGE_LIMIT },
+        { signal: controller.signal }
+      );
+
+      this.store.upsertMessages(olderMessages.map(normalizeMessage));
+      this.store.setHistoryState({
+        hasMoreHistory: olderMessages.length >= HISTORY_PAGE_LIMIT,
+        olderStatus: 'success',
+      });
+    } catch (error) {
+      this.store.setHistoryState({
+        olderStatus: isAbortError(error) ? 'idle' : 'error',
+      });
+    } finally {
+      if (this.olderController === controller) {
+        this.olderController = null;
+      }
+    }
+  };
+
+  /**
+   * Send a new message.
+   *
+   * The message appears immediately as 'pending' under a temporary id,
+   * then is swapped for the server message once the POST succeeds.
+   *
+   * While offline, while the session is expired, or while older messages
+   * of this room are still queued, the message goes straight to the outbox
+   * so messages are delivered in order.
+   */
+  readonly sendMessage = async (
+    payload: Readonly<CreateMessageRequest>
+  ): Promise<void> => {
+    if (
+      this.hasQueuedMessages() ||
+      isBrowserOffline() ||
+      !this.isSessionActive()
+    ) {
+      const queuedMessage = createLocalMessage(payload, 'queued');
+      this.store.upsertMessages([queuedMessage]);
+      await this.outbox.enqueue(
+        queuedMessage._id,
+        this.conversationId,
+        payload
+      );
+      await this.flushOutbox();
+      return;
+    }
+
+    const pendingMessage = createLocalMessage(payload, 'pending');
+    this.store.upsertMessages([pendingMessage]);
+
+    await this.deliverMessage(pendingMessage._id, payload);
+  };
+
+  /**
+   * Resend a failed message, keeping its position in the list.
+   */
+  readonly retryMessage = async (messageId: string): Promise<void> => {
+    const failedMessage = this.store.getState().messagesById[messageId];
+
+    if (failedMessage?.deliveryState !== 'failed') {
+      return;
+    }
+
+    this.store.setDeliveryState(messageId, 'pending');
+
+    await this.deliverMessage(messageId, {
+      message: failedMessage.message,
+      author: failedMessage.author,
+      replyTo: failedMessage.replyTo,
+    });
+  };
+
+  /**
+   * Remove a failed or queued message without sending it.
+   * Clears the send error once no failed messages remain.
+   */
+  readonly discardMessage = (messageId: string): void => {
+    const { messagesById } = this.store.getState();
+    const discardedMessage = messagesById[messageId];
+
+    if (
+      discardedMessage?.deliveryState !== 'failed' &&
+      discardedMessage?.deliveryState !== 'queued'
+    ) {
+      return;
+    }
+
+    const hasOtherFailedMessages = Object.values(messagesById).some(
+      message => message._id !== messageId && message.deliveryState === 'failed'
+    );
+
+    this.store.removeMessage(messageId);
+
+    if (discardedMessage.deliveryState === 'queued') {
+      void this.outbox.remove(messageId);
+    }
+
+    if (!hasOtherFailedMessages) {
+      this.store.setSendState({ sendStatus: 'idle', sendError: null });
+    }
+  };
+
+  /**
+   * Edit the text of a message.
+   *
+   * The new text is shown right away (with the edited marker). If the
+   * server refuses, the previous version comes back and the failure is
+   * reported through actionError.
+   *
+   * Only server-confirmed messages that aren't deleted can be edited;
+   * unsent ones are retried or discarded instead.
+   */
+  readonly editMessage = async (
+    messageId: string,
+    text: string
+  ): Promise<void> => {
+    const original = this.store.getState().messagesById[messageId];
+    const trimmedText = text.trim();
+
+    if (!original || !isEditable(original) || !trimmedText) {
+      return;
+    }
+
+    await this.mutateMessage(
+      'edit',
+      original,
+      {
+        ...original,
+        message: trimmedText,
+        updatedAt: new Date().toISOString(),
+      },
+      () =>
+        this.client.updateMessage(this.conversationId, messageId, {
+          message: trimmedText,
+        })
+    );
+  };
+
+  /**
+   * Delete a message.
+   *
+   * The message turns into a tombstone right away. If the server refuses,
+   * it comes back and the failure is reported through actionError.
+   */
+  readonly deleteMessage = async (messageId: string): Promise<void> => {
+    const original = this.store.getState().messagesById[messageId];
+
+    if (!original || !isEditable(original)) {
+      return;
+    }
+
+    await this.mutateMessage(
+      'delete',
+      original,
+      {
+        ...original,
+        message: '',
+        deletedAt: new Date().toISOString(),
+      },
+      () => this.client.deleteMessage(this.conversationId, messageId)
+    );
+  };
+
+  /**
+   * Add the author's reaction to a message, or remove it if it is there.
+   *
+   * The new count shows right away. If the server refuses, the previous
+   * reactions come back and the failure is reported through actionError.
+   *
+   * @param messageId - Server id of the message
+   * @param emoji - The reaction
+   * @param author - The user's display name (decoded)
+   */
+  readonly toggleReaction = async (
+    messageId: string,
+    emoji: string,
+    author: string
+  ): Promise<void> => {
+    const original = this.store.getState().messagesById[messageId];
+
+    if (!original || !isEditable(original) || !author) {
+      return;
+    }
+
+    const request = { emoji, author };
+    const isAdding = !hasReacted(original, emoji, author);
+
+    await this.mutateMessage(
+      'react',
+      original,
+      {
+        ...original,
+        reactions: toggleReactionAuthor(
+          original.reactions ?? [],
+          emoji,
+          author,
+          isAdding
+        ),
+      },
+      () =>
+        isAdding
+          ? this.client.addReaction(this.conversationId, messageId, request)
+          : this.client.removeReaction(this.conversationId, messageId, request)
+    );
+  };
+
+  /**
+   * Applies an optimistic version of a message, then the server's reply.
+   *
+   * - Success: The server version replaces the optimistic one
+   * - Failure: The original is restored, unless a newer version arrived in
+   *   the meantime (e.g. pushed by the realtime endpoint)
+   *
+   * One change per message at a time: others are ignored until it settles,
+   * so a rollback never undoes a later change.
+   */
+  private async mutateMessage(
+    operation: MessageActionError['operation'],
+    original: ChatMessage,
+    optimistic: ChatMessage,
+    send: () => Promise<Message>
+  ): Promise<void> {
+    if (this.mutatingIds.has(original._id)) {
+      return;
+    }
+
+    this.mutatingIds.add(original._id);
+    this.store.setActionError(null);
+    this.store.upsertMessages([optimistic]);
+
+    try {
+      const serverMessage = await send();
+
+      if (original._id in this.store.getState().messagesById) {
+        this.store.upsertMessages([normalizeMessage(serverMessage)]);
+      }
+    } catch (error) {
+      if (this.store.getState().messagesById[original._id] === optimistic) {
+        this.store.upsertMessages([original]);
+      }
+
+      this.store.setActionError({
+        operation,
+        messageId: original._id,
+        error: toApiError(error, MUTATION_FAILURE_MESSAGES[operation]),
+      });
+    } finally {
+      this.mutatingIds.delete(original._id);
+    }
+  }
+
+  private start(): void {
+    window.addEventListener('online', this.handleOnline);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    this.isPageVisible = isDocumentVisible();
+    this.sessionStatus = this.session.getState().status;
+    this.unsubscribeSession = this.session.subscribe(this.handleSessionChange);
+
+    /**
+     * Restores messages queued in a previous session.
+     * They are flushed after the initial load succeeds.
+     */
+    void this.outbox.load().then(() => {
+      this.store.upsertMessages(
+        this.outbox.list(this.conversationId).map(createQueuedMessage)
+      );
+    });
+
+    this.realtime?.start({
+      onMessage: (message, conversationId) => {
+        if (conversationId === this.conversationId) {
+          this.syncCursor = advanceSyncCursor(this.syncCursor, [message]);
+          this.mergeChanges([message]);
+        }
+      },
+      onOpen: () => {
+        void this.backfill();
+      },
+      onStatusChange: status => {
+        this.realtimeStatus = status;
+        this.updatePolling();
+      },
+    });
+
+    if (this.store.getState().loadStatus === 'success') {
+      this.resumeImmediately = true;
+      this.updatePolling();
+    } else {
+      void this.loadMessages();
+    }
+  }
+
+  /**
+   * Stops everything when the last consumer releases. Aborts requests
+   * instead of just ignoring their results.
+   */
+  private stop(): void {
+    window.removeEventListener('online', this.handleOnline);
+    document.removeEventListener(
+      'visibilitychange',
+      this.handleVisibilityChange
+    );
+
+    this.loadController?.abort();
+    this.olderController?.abort();
+    this.backfillController?.abort();
+    this.realtime?.stop();
+    this.realtimeStatus = 'idle';
+    this.unsubscribeSession?.();
+    this.unsubscribeSession = null;
+    this.stopPolling();
+  }
+
+  /**
+   * Flushes the outbox as soon as the browser is back online.
+   */
+  private readonly handleOnline = () => {
+    void this.flushOutbox();
+  };
+
+  /**
+   * Follows the session: polling pauses while it is expired, and signing in
+   * again sends the queued messages and retries a load that failed.
+   */
+  private readonly handleSessionChange = () => {
+    const { status } = this.session.getState();
+
+    if (status === this.sessionStatus) {
+      return;
+    }
+
+    this.sessionStatus = status;
+    this.updatePolling();
+
+    if (status !== SessionStatus.ACTIVE) {
+      return;
+    }
+
+    if (this.store.getState().loadStatus === 'error') {
+      void this.loadMessages();
+    } else {
+      void this.flushOutbox();
+    }
+  };
+
+  /**
+   * Tracks page visibility so polling pauses while the tab is hidden.
+   */
+  private readonly handleVisibilityChange = () => {
+    this.isPageVisible = isDocumentVisible();
+
+    if (this.isPageVisible) {
+      this.pollFailures = 0;
+    } else {
+      this.resumeImmediately = true;
+    }
+
+    this.updatePolling();
+  };
+
+  /**
+   * Load messages from the API and update state.
+   *
+   * Aborts the previous load and history request: their results would be
+   * stale once this load settles.
+   */
+  private async loadMessages(): Promise<void> {
+    this.loadController?.abort();
+    this.olderController?.abort();
+
+    const controller = new AbortController();
+    this.loadController = controller;
+
+    this.store.setLoadState({
+      loadStatus: 'loading',
+      loadError: null,
+      loadAttempt: 1,
+    });
+    this.updatePolling();
+
+    try {
+      const fetchedMessages = await this.client.getMessages(
+        this.conversationId,
+        { limit: DEFAULT_MESSAGES_LIMIT },
+        {
+          signal: controller.signal,
+          onRetry: ({ attempt }) =>
+            this.store.setLoadState({ loadAttempt: attempt }),
+        }
+      );
+
+      this.syncCursor = advanceSyncCursor({}, fetchedMessages);
+      this.store.replaceServerMessages(fetchedMessages.map(normalizeMessage));
+      this.store.setHistoryState({
+        hasMoreHistory: fetchedMessages.length >= DEFAULT_MESSAGES_LIMIT,
+        olderStatus: 'idle',
+      });
+      this.store.setLoadState({ loadStatus: 'success' });
+      this.updatePolling();
+      void this.flushOutbox();
+    } catch (error) {
+      if (isAbortError(error)) {
+        return;
+      }
+
+      this.store.setLoadState({
+        loadStatus: 'error',
+        loadError: toApiError(error, 'Failed to load messages'),
+      });
+    } finally {
+      if (this.loadController === controller) {
+        this.loadController = null;
+      }
+    }
+  }
+
+  /**
+   * Delivers a message that is already shown in the list.
+   *
+   * On success:
+   * - Replaces the temporary entry with the server message (real `_id`)
+   *
+   * On connectivity error or an expired session:
+   * - Moves the message to the offline outbox ('queued')
+   *
+   * On other errors:
+   * - Marks the entry as failed so it can be retried or discarded
+   * - Sets sendError and sendStatus='error'
+   *
+   * @param temporaryId - Id of the optimistic entry
+   * @param payload - Message data to send
+   */
+  private async deliverMessage(
+    temporaryId: string,
+    payload: Readonly<CreateMessageRequest>
+  ): Promise<void> {
+    this.store.setSendState({ sendStatus: 'loading', sendError: null });
+
+    try {
+      /**
+       * The temporary id doubles as idempotency key: it makes the POST safe
+       * to retry, and stays the same across manual retries and the outbox.
+       */
+      const newMessage = await this.client.createMessage(
+        this.conversationId,
+        payload,
+        { idempotencyKey: temporaryId }
+      );
+
+      this.store.confirmMessage(temporaryId, newMessage);
+      this.store.setSendState({ sendStatus: 'success' });
+      void this.flushOutbox();
+    } catch (error) {
+      const apiError = toApiError(error, 'Failed to send message');
+
+      if (shouldQueue(apiError)) {
+        this.store.setDeliveryState(temporaryId, 'queued');
+        await this.outbox.enqueue(temporaryId, this.conversationId, payload);
+        this.store.setSendState({ sendStatus: 'idle' });
+        return;
+      }
+
+      this.store.setDeliveryState(temporaryId, 'failed');
+      this.store.setSendState({ sendStatus: 'error', sendError: apiError });
+    }
+  }
+
+  /**
+   * Gap backfill: fetches every message created or changed after the sync
+   * cursor, page by page. Runs whenever the realtime connection opens,
+   * since events sent while it was down are not replayed.
+   *
+   * Skipped until the initial load succeeds (the load covers the gap).
+   * Failures are ignored: polling or the next reconnect catches up.
+   */
+  private async backfill(): Promise<void> {
+    if (this.store.getState().loadStatus !== 'success') {
+      return;
+    }
+
+    this.backfillController?.abort();
+    const controller = new AbortController();
+    this.backfillController = controller;
+
+    /**
+     * Pages follow their own cursor: pushes arriving meanwhile may be newer
+     * than messages the next page still holds.
+     */
+    let cursor = this.syncCursor;
+
+    try {
+      for (;;) {
+        const page = await this.client.getMessages(
+          this.conversationId,
+          { limit: DEFAULT_MESSAGES_LIMIT, ...cursor },
+          { signal: controller.signal }
+        );
+
+        cursor = advanceSyncCursor(cursor, page);
+        this.syncCursor = advanceSyncCursor(this.syncCursor, page);
+        this.mergeChanges(page);
+
+        if (page.length < DEFAULT_MESSAGES_LIMIT) {
+          break;
+        }
+      }
+
+      void this.flushOutbox();
+    } catch {
+      // Polling or the next reconnect catches up.
+    } finally {
+      if (this.backfillController === controller) {
+        this.backfillController = null;
+      }
+    }
+  }
+
+  /**
+   * Merges messages from a poll, backfill or push into the store.
+   *
+   * Changes to messages older than the loaded history are skipped: adding
+   * them would leave a gap that history paging (`before` the oldest loaded
+   * message) never fills. They arrive with their page instead.
+   */
+  private mergeChanges(messages: ReadonlyArray<Message>): void {
+    const state = this.store.getState();
+    const oldestMessage = selectOldestServerMessage(state);
+
+    this.store.upsertMessages(
+      messages
+        .map(normalizeMessage)
+        .filter(
+          message =>
+            !state.hasMoreHistory ||
+            !oldestMessage ||
+            message._id in state.messagesById ||
+            message.createdAtMs >= oldestMessage.createdAtMs
+        )
+    );
+  }
+
+  private isSessionActive(): boolean {
+    return this.session.getState().status === SessionStatus.ACTIVE;
+  }
+
+  /**
+   * Whether the outbox holds messages for this room.
+   */
+  private hasQueuedMessages(): boolean {
+    return this.outbox.list(this.conversationId).length > 0;
+  }
+
+  /**
+   * Sends this room's queued outbox entries in order.
+   *
+   * - Delivered entries are swapped for the server message
+   * - Entries the server rejects become 'failed' (Retry/Discard in the list)
+   * - A connectivity error or an expired session stops the flush;
+   *   remaining entries stay queued
+   */
+  private async flushOutbox(): Promise<void> {
+    if (
+      !this.hasQueuedMessages() ||
+      isBrowserOffline() ||
+      !this.isSessionActive()
+    ) {
+      return;
+    }
+
+    await this.outbox.flush(
+      this.conversationId,
+      async (entry): Promise<OutboxFlushResult> => {
+        this.store.setDeliveryState(entry.id, 'pending');
+
+        try {
+          const newMessage = await this.client.createMessage(
+            this.conversationId,
+            entry.request,
+            { idempotencyKey: entry.id }
+          );
+          this.store.confirmMessage(entry.id, newMessage);
+          this.store.setSendState({ sendStatus: 'success' });
+
+          return 'delivered';
+        } catch (error) {
+          const apiError = toApiError(error, 'Failed to send message');
+
+          if (shouldQueue(apiError)) {
+            this.store.setDeliveryState(entry.id, 'queued');
+            return 'retry-later';
+          }
+
+          this.store.setDeliveryState(entry.id, 'failed');
+          this.store.setSendState({
+            sendStatus: 'error',
+            sendError: apiError,
+          });
+
+          return 'rejected';
+        }
+      }
+    );
+  }
+
+  /**
+   * Starts, restarts or stops the poll loop to match the current conditions:
+   * a retainer wants live updates, the page is visible, messages are
+   * loaded, the session is active and there is no realtime connection to
+   * rely on (none configured, or reported unavailable). Uses the shortest interval any retainer
+   * asked for.
+   */
+  private updatePolling(): void {
+    const liveRetainers = [...this.retainers.values()].filter(
+      options => options.liveUpdates ?? true
+    );
+    const isRealtimeUsable =
+      this.realtime !== null && this.realtimeStatus !== 'unavailable';
+    const shouldPoll =
+      liveRetainers.length > 0 &&
+      this.isPageVisible &&
+      this.sessionStatus === SessionStatus.ACTIVE &&
+      !isRealtimeUsable &&
+      this.store.getState().loadStatus === 'success';
+    const intervalMs = Math.min(
+      ...liveRetainers.map(
+        options => options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS
+      )
+    );
+
+    if (!shouldPoll) {
+      this.stopPolling();
+    } else if (!this.pollController || intervalMs !== this.pollIntervalMs) {
+      this.stopPolling();
+      this.startPolling(intervalMs);
+    }
+
+    this.store.setLiveStatus(this.getLiveStatus());
+  }
+
+  /**
+   * Live status from whichever source is active: the poll loop, or the
+   * realtime connection.
+   */
+  private getLiveStatus(): LiveStatus {
+    if (this.pollController) {
+      return this.pollFailures > 0 ? 'backoff' : 'live';
+    }
+
+    if (this.realtimeStatus === 'open') {
+      return 'live';
+    }
+
+    return this.realtimeStatus === 'reconnecting' ? 'backoff' : 'paused';
+  }
+
+  /**
+   * Live updates: polls for messages created or changed after the sync
+   * cursor and merges them into the store. A server that doesn't support
+   * `since` still answers `after` with the new messages.
+   *
+   * Each poll schedules the next one, so polls never overlap. Failures are
+   * not surfaced as load errors (the list is still usable); they only delay
+   * the next poll.
+   */
+  private startPolling(intervalMs: number): void {
+    const controller = new AbortController();
+    this.pollController = controller;
+    this.pollIntervalMs = intervalMs;
+
+    const poll = async () => {
+      try {
+        const fetchedMessages = await this.client.getMessages(
+          this.conversationId,
+          { limit: DEFAULT_MESSAGES_LIMIT, ...this.syncCursor },
+          /**
+           * The poll loop has its own backoff; client retries would stack on it.
+           */
+          { signal: controller.signal, retry: false }
+        );
+
+        if (controller.signal.aborted) {
+          return;
+        }
+
+        this.pollFailures = 0;
+        void this.flushOutbox();
+        this.syncCursor = advanceSyncCursor(this.syncCursor, fetchedMessages);
+        this.mergeChanges(fetchedMessages);
+      } catch (error) {
+        if (isAbortError(error) || controller.signal.aborted) {
+          return;
+        }
+
+        this.pollFailures += 1;
+      }
+
+      this.store.setLiveStatus(this.getLiveStatus());
+      this.pollTimeoutId = setTimeout(
+        () => void poll(),
+        getPollDelay(intervalMs, this.pollFailures)
+      );
+    };
+
+    const initialDelay = this.resumeImmediately ? 0 : intervalMs;
+    this.resumeImmediately = false;
+    this.pollTimeoutId = setTimeout(() => void poll(), initialDelay);
+  }
+
+  private stopPolling(): void {
+    this.pollController?.abort();
+    this.pollController = null;
+    clearTimeout(this.pollTimeoutId);
+    this.store.setLiveStatus(this.getLiveStatus());
+  }
+}
+
+const chatControllers = new Map<string, ChatController>();
+
+/**
+ * Returns the shared controller of a conversation, used by the app's chat
+ * hooks. Created on first use with its own store and realtime client.
+ *
+ * @param conversationId - Room id (defaults to the default room)
+ * @returns The room's controller
+ */
+export function getChatController(
+  conversationId: string = DEFAULT_CONVERSATION_ID
+): ChatController {
+  let controller = chatControllers.get(conversationId);
+
+  if (!controller) {
+    controller = new ChatController(
+      conversationId,
+      new MessageStore(),
+      apiClient,
+      outbox,
+      createRealtimeClient()
+    );
+    chatControllers.set(conversationId, controller);
+  }
+
+  return controller;
+}
+
+export default getChatController;
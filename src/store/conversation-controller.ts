@@ -0,0 +1,259 @@
+/**
+ * Conversation Controller Module
+ *
+ * Loads the conversation list into a ConversationStore and keeps it fresh
+ * (previews and unread counts) while anything displays it. Tracks which
+ * room is open so its messages count as read, and persists read counts in
+ * localStorage so unread badges survive reloads.
+ *
+ * Servers without conversation support answer 404 for the list; the app
+ * then runs as a single-room chat on the default room.
+ *
+ */
+
+import { apiClient, type ApiClient } from '@api/api-client';
+import {
+  DEFAULT_CONVERSATION_ID,
+  DEFAULT_CONVERSATION_NAME,
+} from '@api/endpoints';
+import { isApiError, toApiError } from '@api/api-error';
+import type { Conversation } from '@models/conversation';
+import { ConversationStore } from './conversation-store';
+
+/**
+ * Interval between conversation list refreshes.
+ */
+export const CONVERSATION_REFRESH_INTERVAL_MS = 15000;
+
+const READ_COUNTS_STORAGE_KEY = 'doodle-chat:read-counts';
+
+/**
+ * The only room of a server without conversation support.
+ */
+const SINGLE_ROOM_CONVERSATIONS: ReadonlyArray<Conversation> = [
+  {
+    _id: DEFAULT_CONVERSATION_ID,
+    name: DEFAULT_CONVERSATION_NAME,
+    messageCount: 0,
+  },
+];
+
+/**
+ * Reads persisted read counts (empty when unavailable or corrupt).
+ */
+function loadReadCounts(): Record<string, number> {
+  try {
+    const raw = localStorage.getItem(READ_COUNTS_STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : {};
+
+    return typeof parsed === 'object' && parsed !== null
+      ? (parsed as Record<string, number>)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Persists read counts. Best-effort: unread badges are a convenience.
+ */
+function saveReadCounts(readCounts: Readonly<Record<string, number>>): void {
+  try {
+    localStorage.setItem(READ_COUNTS_STORAGE_KEY, JSON.stringify(readCounts));
+  } catch {
+    // Storage unavailable (private mode, quota): keep counts in memory only.
+  }
+}
+
+/**
+ * ConversationController Class
+ *
+ * - retain()/release: Reference-counted lifecycle; loads and refreshes the
+ *   list while retained
+ * - reload(): Reloads the list
+ * - setActiveConversation(): The open room, kept marked as read
+ *
+ * Action methods are bound, so they can be passed around as callbacks.
+ */
+export class ConversationController {
+  readonly store: ConversationStore;
+  private readonly client: ApiClient;
+
+  private retainCount = 0;
+  private activeConversationId: string | null = null;
+  private loadController: AbortController | null = null;
+  private refreshIntervalId: ReturnType<typeof setInterval> | undefined;
+
+  /**
+   * Set once the server answered 404 for the list: there is nothing to
+   * refresh.
+   */
+  private isSingleRoomServer = false;
+
+  /**
+   * Creates a new controller.
+   *
+   * @param store - Store the controller writes to
+   * @param client - API client (defaults to the shared apiClient)
+   */
+  constructor(store: ConversationStore, client: ApiClient = apiClient) {
+    this.store = store;
+    this.client = client;
+    this.store.setReadCounts(loadReadCounts());
+    this.store.subscribe(() =>
+      saveReadCounts(this.store.getState().readCounts)
+    );
+  }
+
+  /**
+   * Registers a consumer. The first retain loads the list and starts the
+   * periodic refresh.
+   *
+   * @returns Function that releases this consumer
+   */
+  retain(): () => void {
+    this.retainCount += 1;
+
+    if (this.retainCount === 1) {
+      void this.load();
+      this.refreshIntervalId = setInterval(
+        this.handleRefreshTick,
+        CONVERSATION_REFRESH_INTERVAL_MS
+      );
+    }
+
+    let isReleased = false;
+
+    return () => {
+      if (isReleased) {
+        return;
+      }
+
+      isReleased = true;
+      this.retainCount -= 1;
+
+      if (this.retainCount === 0) {
+        clearInterval(this.refreshIntervalId);
+        this.loadController?.abort();
+      }
+    };
+  }
+
+  /**
+   * Reload the conversation list manually.
+   */
+  readonly reload = async (): Promise<void> => {
+    await this.load();
+  };
+
+  /**
+   * Sets the open room (null when none). Its messages count as read, now
+   * and after every refresh.
+   */
+  readonly setActiveConversation = (conversationId: string | null): void => {
+    this.activeConversationId = conversationId;
+
+    if (conversationId !== null) {
+      this.store.markRead(conversationId);
+    }
+  };
+
+  /**
+   * Refreshes while the page is visible.
+   */
+  private readonly handleRefreshTick = () => {
+    if (
+      !this.isSingleRoomServer &&
+      (typeof document === 'undefined' || document.visibilityState !== 'hidden')
+    ) {
+      void this.load({ isRefresh: true });
+    }
+  };
+
+  /**
+   * Loads the list.
+   *
+   * A failed refresh keeps the current list: only the first load reports
+   * errors.
+   */
+  private async load({ isRefresh = false } = {}): Promise<void> {
+    this.loadController?.abort();
+
+    const controller = new AbortController();
+    this.loadController = controller;
+
+    if (!isRefresh) {
+      this.store.setLoadState({ loadStatus: 'loading', loadError: null });
+    }
+
+    try {
+      const conversations = await this.client.getConversations({
+        signal: controller.signal,
+        retry: isRefresh ? false : undefined,
+      });
+
+      this.applyConversations(conversations);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return;
+      }
+
+      if (isApiError(error) && error.isNotFound()) {
+        this.isSingleRoomServer = true;
+        this.applyConversations(SINGLE_ROOM_CONVERSATIONS);
+        return;
+      }
+
+      if (!isRefresh) {
+        this.store.setLoadState({
+          loadStatus: 'error',
+          loadError: toApiError(error, 'Failed to load conversations'),
+        });
+      }
+    } finally {
+      if (this.loadController === controller) {
+        this.loadController = null;
+      }
+    }
+  }
+
+  /**
+   * Stores a loaded list. Rooms seen for the first time start without
+   * unread messages; the open room stays read.
+   */
+  private applyConversations(conversations: ReadonlyArray<Conversation>): void {
+    const { readCounts } = this.store.getState();
+    const unseenConversations = conversations.filter(
+      conversation => readCounts[conversation._id] === undefined
+    );
+
+    this.store.setConversations(conversations);
+    this.store.setLoadState({ loadStatus: 'success', loadError: null });
+
+    if (unseenConversations.length > 0) {
+      this.store.setReadCounts({
+        ...readCounts,
+        ...Object.fromEntries(
+          unseenConversations.map(conversation => [
+            conversation._id,
+            conversation.messageCount,
+          ])
+        ),
+      });
+    }
+
+    if (this.activeConversationId !== null) {
+      this.store.markRead(this.activeConversationId);
+    }
+  }
+}
+
+/**
+ * Shared store and controller used by the conversation hooks.
+ */
+export const conversationStore = new ConversationStore();
+export const conversationController = new ConversationController(
+  conversationStore
+);
+
+export default conversationController;
@@ -0,0 +1,158 @@
+/**
+ * Conversation Store Module
+ *
+ * Framework-agnostic store for the conversation list: the rooms returned by
+ * the API, their load status, and how many messages of each room the user
+ * has seen (for unread counts). The ConversationController writes to it;
+ * React reads it through @hooks/useConversations.
+ *
+ */
+
+import type { Conversation, ConversationSummary } from '@models/conversation';
+import type {
+  ConversationLoadState,
+  ConversationStoreState,
+} from '@models/store';
+import type { StoreListener } from './message-store';
+
+/**
+ * State of a store that hasn't loaded anything yet.
+ */
+export const INITIAL_CONVERSATION_STORE_STATE: ConversationStoreState = {
+  conversations: [],
+  loadStatus: 'loading',
+  loadError: null,
+  readCounts: {},
+};
+
+/**
+ * ConversationStore Class
+ *
+ * - getState()/subscribe(): The useSyncExternalStore contract
+ * - setConversations(): Replaces the list
+ * - markRead(): Records every current message of a room as seen
+ * - setReadCounts()/setLoadState(): Raw state writes
+ *
+ * Writes that don't change anything keep the current snapshot and don't
+ * notify.
+ */
+export class ConversationStore {
+  private state: ConversationStoreState;
+  private readonly listeners = new Set<StoreListener>();
+
+  /**
+   * Creates a new store.
+   *
+   * @param initialState - Starting snapshot (defaults to INITIAL_CONVERSATION_STORE_STATE)
+   */
+  constructor(
+    initialState: ConversationStoreState = INITIAL_CONVERSATION_STORE_STATE
+  ) {
+    this.state = initialState;
+  }
+
+  /**
+   * Current snapshot. Bound so it can be passed to useSyncExternalStore.
+   */
+  readonly getState = (): ConversationStoreState => this.state;
+
+  /**
+   * Registers a change listener. Bound so it can be passed to
+   * useSyncExternalStore.
+   *
+   * @returns Function that removes the listener
+   */
+  readonly subscribe = (listener: StoreListener): (() => void) => {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  setConversations(conversations: ReadonlyArray<Conversation>): void {
+    this.update({ conversations });
+  }
+
+  setReadCounts(readCounts: Readonly<Record<string, number>>): void {
+    this.update({ readCounts });
+  }
+
+  setLoadState(loadState: Partial<ConversationLoadState>): void {
+    this.update(loadState);
+  }
+
+  /**
+   * Marks every message currently counted for a room as seen.
+   * Does nothing for rooms that aren't in the list.
+   */
+  markRead(conversationId: string): void {
+    const conversation = this.state.conversations.find(
+      candidate => candidate._id === conversationId
+    );
+
+    if (
+      !conversation ||
+      this.state.readCounts[conversationId] === conversation.messageCount
+    ) {
+      return;
+    }
+
+    this.update({
+      readCounts: {
+        ...this.state.readCounts,
+        [conversationId]: conversation.messageCount,
+      },
+    });
+  }
+
+  /**
+   * Applies a partial update and notifies listeners if anything changed.
+   */
+  private update(partial: Partial<ConversationStoreState>): void {
+    const keys = Object.keys(partial) as Array<keyof ConversationStoreState>;
+    const hasChanges = keys.some(key => partial[key] !== this.state[key]);
+
+    if (!hasChanges) {
+      return;
+    }
+
+    this.state = { ...this.state, ...partial };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Conversations with their unread counts, in list order.
+ * Memoized: stable while neither the list nor the read counts changed.
+ *
+ * Rooms without a read count (never seen) count as read: only messages
+ * arriving after the user first saw the list are unread.
+ */
+export const selectConversationSummaries = (() => {
+  let lastConversations: ConversationStoreState['conversations'] | undefined;
+  let lastReadCounts: ConversationStoreState['readCounts'] | undefined;
+  let lastSummaries: ReadonlyArray<ConversationSummary> = [];
+
+  return (
+    state: ConversationStoreState
+  ): ReadonlyArray<ConversationSummary> => {
+    if (
+      state.conversations !== lastConversations ||
+      state.readCounts !== lastReadCounts
+    ) {
+      lastConversations = state.conversations;
+      lastReadCounts = state.readCounts;
+      lastSummaries = state.conversations.map(conversation => ({
+        ...conversation,
+        unreadCount: Math.max(
+          0,
+          conversation.messageCount -
+            (state.readCounts[conversation._id] ?? conversation.messageCount)
+        ),
+      }));
+    }
+
+    return lastSummaries;
+  };
+})();
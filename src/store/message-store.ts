@@ -0,0 +1,366 @@
+/**
+ * Message Store Module
+ *
+ * Framework-agnostic, normalized store for chat state: messages keyed by
+ * `_id` with a chronological index, plus load/send/history/live status.
+ * React reads it through useSyncExternalStore (see @hooks/useChatStore);
+ * the ChatController writes to it.
+ *
+ */
+
+import type { ChatMessage, DeliveryState, Message } from '@models/message';
+import type {
+  HistoryState,
+  LoadState,
+  MessageActionError,
+  MessageStoreState,
+  SendState,
+} from '@models/store';
+import type { LiveStatus } from '@models/hooks';
+import { decodeHtmlEntities } from '@utils/html-entities';
+
+/**
+ * Listener notified after every state change.
+ */
+export type StoreListener = () => void;
+
+/**
+ * State of a store that hasn't loaded anything yet.
+ */
+export const INITIAL_MESSAGE_STORE_STATE: MessageStoreState = {
+  messagesById: {},
+  messageIds: [],
+  loadStatus: 'loading',
+  loadError: null,
+  loadAttempt: 1,
+  sendStatus: 'idle',
+  sendError: null,
+  hasMoreHistory: false,
+  olderStatus: 'idle',
+  liveStatus: 'paused',
+  actionError: null,
+};
+
+/**
+ * Normalizes an API message by parsing createdAt once into createdAtMs.
+ * This avoids repeated Date parsing during sorting and comparisons.
+ */
+export function normalizeMessage(message: Message): ChatMessage {
+  return {
+    ...message,
+    createdAtMs: new Date(message.createdAt).getTime(),
+    deliveryState: 'sent',
+  };
+}
+
+/**
+ * Messages that only exist on this client (pending, failed or queued).
+ * They must survive reloads and must never be used as pagination cursors,
+ * because their timestamps come from the client clock.
+ */
+export function isLocalMessage(message: ChatMessage): boolean {
+  return message.deliveryState !== 'sent';
+}
+
+/**
+ * Whether a message can be edited or deleted: confirmed by the server and
+ * not already deleted.
+ */
+export function isEditable(message: ChatMessage): boolean {
+  return !isLocalMessage(message) && !message.deletedAt;
+}
+
+/**
+ * Whether `author` (a decoded display name) has reacted to a message with
+ * `emoji`. Reaction authors come HTML-escaped from the API.
+ */
+export function hasReacted(
+  message: ChatMessage,
+  emoji: string,
+  author: string
+): boolean {
+  return (
+    message.reactions?.some(
+      reaction =>
+        reaction.emoji === emoji &&
+        reaction.authors.some(name => decodeHtmlEntities(name) === author)
+    ) ?? false
+  );
+}
+
+/**
+ * Rebuilds the chronological index from the messages map.
+ */
+function sortMessageIds(
+  messagesById: Readonly<Record<string, ChatMessage>>
+): ReadonlyArray<string> {
+  return Object.values(messagesById)
+    .sort(
+      (firstMessage, secondMessage) =>
+        firstMessage.createdAtMs - secondMessage.createdAtMs
+    )
+    .map(message => message._id);
+}
+
+/**
+ * Copy of the messages map without one message.
+ */
+function omitMessage(
+  messagesById: Readonly<Record<string, ChatMessage>>,
+  messageId: string
+): Record<string, ChatMessage> {
+  const rest = { ...messagesById };
+  delete rest[messageId];
+  return rest;
+}
+
+/**
+ * MessageStore Class
+ *
+ * - getState()/subscribe(): The useSyncExternalStore contract
+ * - Message writes: upsertMessages, replaceServerMessages, confirmMessage,
+ *   setDeliveryState, removeMessage
+ * - Status writes: setLoadState, setSendState, setHistoryState, setLiveStatus,
+ *   setActionError
+ *
+ * Writes that don't change anything keep the current snapshot and don't
+ * notify, so subscribers never re-render for no-ops.
+ */
+export class MessageStore {
+  private state: MessageStoreState;
+  private readonly listeners = new Set<StoreListener>();
+
+  /**
+   * Creates a new store.
+   *
+   * @param initialState - Starting snapshot (defaults to INITIAL_MESSAGE_STORE_STATE)
+   */
+  constructor(initialState: MessageStoreState = INITIAL_MESSAGE_STORE_STATE) {
+    this.state = initialState;
+  }
+
+  /**
+   * Current snapshot. Bound so it can be passed to useSyncExternalStore.
+   */
+  readonly getState = (): MessageStoreState => this.state;
+
+  /**
+   * Registers a change listener. Bound so it can be passed to
+   * useSyncExternalStore.
+   *
+   * @returns Function that removes the listener
+   */
+  readonly subscribe = (listener: StoreListener): (() => void) => {
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Adds or overwrites messages by id and re-sorts the index.
+   */
+  upsertMessages(messages: ReadonlyArray<ChatMessage>): void {
+    if (messages.length === 0) {
+      return;
+    }
+
+    const messagesById = { ...this.state.messagesById };
+
+    for (const message of messages) {
+      messagesById[message._id] = message;
+    }
+
+    this.setMessages(messagesById);
+  }
+
+  /**
+   * Replaces all server messages with a freshly loaded page, keeping local
+   * (pending, failed, queued) messages.
+   */
+  replaceServerMessages(messages: ReadonlyArray<ChatMessage>): void {
+    const messagesById: Record<string, ChatMessage> = {};
+
+    for (const message of Object.values(this.state.messagesById)) {
+      if (isLocalMessage(message)) {
+        messagesById[message._id] = message;
+      }
+    }
+
+    for (const message of messages) {
+      messagesById[message._id] = message;
+    }
+
+    this.setMessages(messagesById);
+  }
+
+  /**
+   * Swaps a temporary entry for the message confirmed by the server.
+   */
+  confirmMessage(temporaryId: string, serverMessage: Message): void {
+    const confirmed = normalizeMessage(serverMessage);
+
+    this.setMessages({
+      ...omitMessage(this.state.messagesById, temporaryId),
+      [confirmed._id]: confirmed,
+    });
+  }
+
+  /**
+   * Updates the delivery state of a message.
+   */
+  setDeliveryState(messageId: string, deliveryState: DeliveryState): void {
+    const message = this.state.messagesById[messageId];
+
+    if (!message || message.deliveryState === deliveryState) {
+      return;
+    }
+
+    this.update({
+      messagesById: {
+        ...this.state.messagesById,
+        [messageId]: { ...message, deliveryState },
+      },
+    });
+  }
+
+  /**
+   * Removes a message from the store.
+   */
+  removeMessage(messageId: string): void {
+    if (!(messageId in this.state.messagesById)) {
+      return;
+    }
+
+    this.update({
+      messagesById: omitMessage(this.state.messagesById, messageId),
+      messageIds: this.state.messageIds.filter(id => id !== messageId),
+    });
+  }
+
+  setLoadState(loadState: Partial<LoadState>): void {
+    this.update(loadState);
+  }
+
+  setSendState(sendState: Partial<SendState>): void {
+    this.update(sendState);
+  }
+
+  setHistoryState(historyState: Partial<HistoryState>): void {
+    this.update(historyState);
+  }
+
+  setLiveStatus(liveStatus: LiveStatus): void {
+    this.update({ liveStatus });
+  }
+
+  setActionError(actionError: MessageActionError | null): void {
+    this.update({ actionError });
+  }
+
+  private setMessages(messagesById: Record<string, ChatMessage>): void {
+    this.update({ messagesById, messageIds: sortMessageIds(messagesById) });
+  }
+
+  /**
+   * Applies a partial update and notifies listeners if anything changed.
+   */
+  private update(partial: Partial<MessageStoreState>): void {
+    const keys = Object.keys(partial) as Array<keyof MessageStoreState>;
+    const hasChanges = keys.some(key => partial[key] !== this.state[key]);
+
+    if (!hasChanges) {
+      return;
+    }
+
+    this.state = { ...this.state, ...partial };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+/**
+ * Messages in chronological order (oldest first).
+ * Memoized: stable while no message changed.
+ */
+export const selectMessages = (() => {
+  let lastMessagesById: MessageStoreState['messagesById'] | undefined;
+  let lastMessageIds: MessageStoreState['messageIds'] | undefined;
+  let lastMessages: ReadonlyArray<ChatMessage> = [];
+
+  return (state: MessageStoreState): ReadonlyArray<ChatMessage> => {
+    if (
+      state.messagesById !== lastMessagesById ||
+      state.messageIds !== lastMessageIds
+    ) {
+      lastMessagesById = state.messagesById;
+      lastMessageIds = state.messageIds;
+      lastMessages = state.messageIds.map(id => state.messagesById[id]);
+    }
+
+    return lastMessages;
+  };
+})();
+
+/**
+ * Unique, trimmed author names, sorted alphabetically.
+ * Memoized: stable while no message changed.
+ */
+export const selectParticipants = (() => {
+  let lastMessagesById: MessageStoreState['messagesById'] | undefined;
+  let lastParticipants: ReadonlyArray<string> = [];
+
+  return (state: MessageStoreState): ReadonlyArray<string> => {
+    if (state.messagesById === lastMessagesById) {
+      return lastParticipants;
+    }
+
+    const uniqueAuthors = new Set<string>();
+
+    for (const message of Object.values(state.messagesById)) {
+      const author = message.author.trim();
+      if (author) {
+        uniqueAuthors.add(author);
+      }
+    }
+
+    lastMessagesById = state.messagesById;
+    lastParticipants = Array.from(uniqueAuthors).sort((a, b) =>
+      a.localeCompare(b, undefined, { sensitivity: 'base' })
+    );
+
+    return lastParticipants;
+  };
+})();
+
+/**
+ * Oldest server-confirmed message (the `before` cursor for history).
+ */
+export function selectOldestServerMessage(
+  state: MessageStoreState
+): ChatMessage | undefined {
+  for (const id of state.messageIds) {
+    const message = state.messagesById[id];
+    if (!isLocalMessage(message)) {
+      return message;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Newest server-confirmed message.
+ */
+export function selectNewestServerMessage(
+  state: MessageStoreState
+): ChatMessage | undefined {
+  for (let index = state.messageIds.length - 1; index >= 0; index--) {
+    const message = state.messagesById[state.messageIds[index]];
+    if (!isLocalMessage(message)) {
+      return message;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import themesCss from './themes.css?raw';
+import tokensCss from './tokens.css?raw';
+import { TOKEN_NAMES } from './tokens';
+
+/**
+ * Custom properties a stylesheet declares (`--name:`), in source order
+ * and without duplicates.
+ */
+function getDeclaredNames(css: string): string[] {
+  return [
+    ...new Set(Array.from(css.matchAll(/(--[\w-]+)\s*:/g), match => match[1])),
+  ];
+}
+
+describe('TOKEN_NAMES', () => {
+  const declared = getDeclaredNames(tokensCss);
+
+  it('mirrors every token declared in tokens.css', () => {
+    expect(
+      declared.filter(name => !TOKEN_NAMES.includes(name as never))
+    ).toEqual([]);
+  });
+
+  it('only lists tokens declared in tokens.css', () => {
+    expect(TOKEN_NAMES.filter(name => !declared.includes(name))).toEqual([]);
+  });
+
+  it('has no duplicates', () => {
+    expect(new Set(TOKEN_NAMES).size).toBe(TOKEN_NAMES.length);
+  });
+});
+
+describe('themes.css', () => {
+  it('only overrides tokens declared in tokens.css', () => {
+    const declared = new Set(getDeclaredNames(tokensCss));
+
+    expect(
+      getDeclaredNames(themesCss).filter(name => !declared.has(name))
+    ).toEqual([]);
+  });
+});
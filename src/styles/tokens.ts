@@ -0,0 +1,105 @@
+/**
+ * Design Token Names
+ *
+ * TypeScript mirror of the custom properties declared in tokens.css, so
+ * code that reads a token's computed value can only name one that exists.
+ * The list must match tokens.css, and themes.css may only override these
+ * (checked by tokens.test.ts).
+ *
+ */
+
+export const TOKEN_NAMES = [
+  '--space',
+  '--space-0_5x',
+  '--space-1x',
+  '--space-2x',
+  '--space-3x',
+  '--space-4x',
+  '--space-5x',
+  '--space-6x',
+  '--font-family-primary',
+  '--font-family-mono',
+  '--font-size-xs',
+  '--font-size-sm',
+  '--font-size-base',
+  '--font-size-lg',
+  '--font-size-xl',
+  '--line-height-tight',
+  '--line-height-normal',
+  '--line-height-relaxed',
+  '--font-weight-normal',
+  '--font-weight-medium',
+  '--font-weight-semibold',
+  '--font-weight-bold',
+  '--color-white',
+  '--color-monochrome-50',
+  '--color-monochrome-100',
+  '--color-monochrome-200',
+  '--color-monochrome-300',
+  '--color-monochrome-400',
+  '--color-monochrome-500',
+  '--color-monochrome-600',
+  '--color-monochrome-700',
+  '--color-monochrome-800',
+  '--color-monochrome-900',
+  '--color-primary-50',
+  '--color-primary-400',
+  '--color-primary-500',
+  '--color-primary-600',
+  '--color-primary-700',
+  '--color-accent-400',
+  '--color-accent-500',
+  '--color-accent-600',
+  '--color-background',
+  '--color-surface',
+  '--color-bubble-incoming',
+  '--color-bubble-outgoing',
+  '--color-text-primary',
+  '--color-text-secondary',
+  '--color-text-placeholder',
+  '--color-text-danger',
+  '--color-tooltip-bg',
+  '--color-tint-subtle',
+  '--color-tint-strong',
+  '--color-composer-bg',
+  '--color-header-avatar-bg',
+  '--radius-sm',
+  '--radius-md',
+  '--radius-lg',
+  '--radius-xl',
+  '--radius-full',
+  '--regular-button-height',
+  '--button-padding-x',
+  '--button-padding-y',
+  '--button-velocity',
+  '--button-transition',
+  '--focus-ring-width',
+  '--focus-ring-offset',
+  '--focus-ring-color',
+  '--focus-ring',
+  '--focus-ring-shadow',
+  '--shadow-sm',
+  '--shadow-md',
+  '--shadow-message',
+  '--container-max-width-mobile',
+  '--container-max-width-tablet',
+  '--container-max-width-desktop',
+  '--breakpoint-sm',
+  '--breakpoint-md',
+  '--breakpoint-lg',
+] as const;
+
+/**
+ * Type for design token names (`--color-surface`, `--space-2x`, …).
+ */
+export type TokenName = (typeof TOKEN_NAMES)[number];
+
+/**
+ * Current value of a token on the root element, as the active theme
+ * resolves it (e.g. `#1e1e1e` for `--color-surface` in the dark theme).
+ */
+export function readToken(name: TokenName): string {
+  return getComputedStyle(document.documentElement)
+    .getPropertyValue(name)
+    .trim();
+}
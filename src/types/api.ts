@@ -1,3 +1,6 @@
+import type { RetryAttempt, RetryPolicy } from '@api/retry-policy';
+import type { ValidationMode } from '@api/validation';
+
 /**
  * API error response envelop shape returned by the backend.
  *
@@ -11,3 +14,30 @@ export interface ApiErrorResponse {
   readonly statusCode: number;
   readonly error?: string;
 }
+
+/**
+ * Per-call options accepted by the API client's public methods.
+ *
+ * - `signal`: Cancels the request when aborted (rejects with an 'aborted' ApiError)
+ * - `timeoutMs`: Overrides the client's default timeout per attempt (0 disables it)
+ * - `retry`: Overrides the client's retry policy (false disables retries)
+ * - `onRetry`: Called before waiting for each retry (e.g. to show the attempt)
+ * - `validation`: Overrides the endpoint's validation mode
+ */
+export interface ApiRequestOptions {
+  readonly signal?: AbortSignal;
+  readonly timeoutMs?: number;
+  readonly retry?: Partial<RetryPolicy> | false;
+  readonly onRetry?: (retryAttempt: RetryAttempt) => void;
+  readonly validation?: ValidationMode;
+}
+
+/**
+ * Options for creating a message.
+ *
+ * - `idempotencyKey`: Sent as the Idempotency-Key header. POST requests are
+ *   only retried when a key is present, so the server can drop duplicates.
+ */
+export interface CreateMessageOptions extends ApiRequestOptions {
+  readonly idempotencyKey?: string;
+}
@@ -0,0 +1,30 @@
+import type { Message } from '@models/message';
+
+/**
+ * A chat room as returned by GET /conversations.
+ */
+export interface Conversation {
+  readonly _id: string;
+  readonly name: string;
+
+  /**
+   * Newest message, used as the preview (absent while the room is empty)
+   */
+  readonly lastMessage?: Message;
+
+  /**
+   * Total number of messages in the room. Unread counts are derived from
+   * it and the count the user has already seen.
+   */
+  readonly messageCount: number;
+}
+
+/**
+ * A conversation as shown in the conversation list.
+ */
+export interface ConversationSummary extends Conversation {
+  /**
+   * Messages added since the user last had the room open
+   */
+  readonly unreadCount: number;
+}
@@ -1,4 +1,5 @@
 import type { ApiError } from '@api/api-error.ts';
+import type { MessageActionError } from '@models/store';
 import type { ChatMessage, CreateMessageRequest } from '@models/message';
 
 /**
@@ -13,6 +14,28 @@ import type { ChatMessage, CreateMessageRequest } from '@models/message';
  */
 export type AsyncStatus = 'idle' | 'loading' | 'success' | 'error';
 
+/**
+ * Live update status.
+ * Represents the state of the background polling for new messages.
+ *
+ * States:
+ * - 'live': Polling for new messages at the regular interval
+ * - 'paused': Polling suspended (disabled, tab hidden, or messages not loaded yet)
+ * - 'backoff': The last poll failed; the next poll is delayed
+ */
+export type LiveStatus = 'live' | 'paused' | 'backoff';
+
+/**
+ * Options accepted by the hook.
+ */
+export interface UseChatMessagesOptions {
+  /** Poll for new messages after the initial load (default: true) */
+  readonly liveUpdates?: boolean;
+
+  /** Interval between polls in milliseconds (default: 5000) */
+  readonly pollIntervalMs?: number;
+}
+
 /**
  * Public contract of the hook.
  *
@@ -37,17 +60,57 @@ export interface UseChatMessagesReturn {
   /** Error from load operation, or null if no error */
   readonly loadError: ApiError | null;
 
+  /** Current attempt of the load operation (greater than 1 while retrying) */
+  readonly loadAttempt: number;
+
   /** Status of the send operation */
   readonly sendStatus: AsyncStatus;
 
   /** Error from send operation, or null if no error */
   readonly sendError: ApiError | null;
 
+  /** Status of the live updates (polling) */
+  readonly liveStatus: LiveStatus;
+
+  /** Whether older messages may exist before the oldest loaded one */
+  readonly hasMoreHistory: boolean;
+
+  /** Status of the most recent older-messages (history) load */
+  readonly olderStatus: AsyncStatus;
+
+  /** Last failed edit, delete or reaction change (rolled back), or null */
+  readonly actionError: MessageActionError | null;
+
   /** Manually reload messages */
   readonly reload: () => Promise<void>;
 
-  /** Send a new message */
+  /** Load the page of messages preceding the oldest loaded message */
+  readonly loadOlder: () => Promise<void>;
+
+  /** Send a new message (shown immediately as pending) */
   readonly sendMessage: (
     payload: Readonly<CreateMessageRequest>
   ) => Promise<void>;
+
+  /** Resend a failed message */
+  readonly retryMessage: (messageId: string) => Promise<void>;
+
+  /** Remove a failed message from the list without sending it */
+  readonly discardMessage: (messageId: string) => void;
+
+  /** Change the text of a sent message (applied optimistically) */
+  readonly editMessage: (messageId: string, text: string) => Promise<void>;
+
+  /** Replace a sent message with a tombstone (applied optimistically) */
+  readonly deleteMessage: (messageId: string) => Promise<void>;
+
+  /**
+   * Add the author's reaction with an emoji, or remove it if present
+   * (applied optimistically)
+   */
+  readonly toggleReaction: (
+    messageId: string,
+    emoji: string,
+    author: string
+  ) => Promise<void>;
 }
@@ -0,0 +1,43 @@
+import type en from '@i18n/catalogs/en';
+import type { Locale } from '@i18n/locales';
+
+/**
+ * Writing direction of a language, as used by the `dir` attribute.
+ */
+export type TextDirection = 'ltr' | 'rtl';
+
+/**
+ * Key of a UI string. The English catalog is the source of truth: a key
+ * exists if and only if it is defined there.
+ */
+export type MessageKey = keyof typeof en;
+
+/**
+ * Translations of every UI string into one language, as ICU-style message
+ * patterns (see @i18n/format-message).
+ */
+export type Catalog = Readonly<Record<MessageKey, string>>;
+
+/**
+ * Values interpolated into a message. `T` allows rich values (e.g. React
+ * elements) when formatting to parts.
+ */
+export type MessageParams<T = never> = Readonly<
+  Record<string, string | number | T>
+>;
+
+/**
+ * Current language of the UI.
+ *
+ * - `locale`: Language whose catalog is loaded
+ * - `formatLocale`: BCP 47 tag for dates and numbers (the browser's, e.g.
+ *   "en-GB", when it is in that language)
+ * - `direction`: Its writing direction
+ * - `catalog`: Its strings
+ */
+export interface I18nState {
+  readonly locale: Locale;
+  readonly formatLocale: string;
+  readonly direction: TextDirection;
+  readonly catalog: Catalog;
+}
@@ -0,0 +1,9 @@
+/**
+ * The local user.
+ *
+ * The API has no accounts: messages carry a free-text `author`, so the
+ * identity is the display name this browser posts under.
+ */
+export interface Identity {
+  readonly displayName: string;
+}
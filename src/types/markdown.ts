@@ -0,0 +1,53 @@
+/**
+ * Syntax tree of the markdown subset supported in message bodies
+ * (see @utils/markdown). Text is kept as plain strings: the renderer turns
+ * every node into React elements, never into HTML.
+ */
+
+/**
+ * Inline content of a paragraph or list item.
+ *
+ * - 'text': Literal text
+ * - 'strong': `**bold**` or `__bold__`
+ * - 'emphasis': `*italic*` or `_italic_`
+ * - 'code': `` `inline code` `` (content is literal)
+ * - 'link': An http(s) URL found in the text
+ * - 'break': A line break inside a paragraph
+ */
+export type InlineNode =
+  | { readonly type: 'text'; readonly text: string }
+  | { readonly type: 'strong'; readonly children: ReadonlyArray<InlineNode> }
+  | {
+      readonly type: 'emphasis';
+      readonly children: ReadonlyArray<InlineNode>;
+    }
+  | { readonly type: 'code'; readonly text: string }
+  | { readonly type: 'link'; readonly href: string }
+  | { readonly type: 'break' };
+
+/**
+ * Block-level content of a message.
+ *
+ * - 'paragraph': Consecutive non-blank lines
+ * - 'code-block': A ``` fenced block (content is literal)
+ * - 'blockquote': Lines starting with `>`, parsed again as blocks
+ * - 'list': `-`, `*` or `+` items (unordered) or `1.` / `1)` items
+ *   (ordered, starting at the first item's number)
+ */
+export type BlockNode =
+  | {
+      readonly type: 'paragraph';
+      readonly children: ReadonlyArray<InlineNode>;
+    }
+  | {
+      readonly type: 'code-block';
+      readonly language?: string;
+      readonly text: string;
+    }
+  | { readonly type: 'blockquote'; readonly children: ReadonlyArray<BlockNode> }
+  | {
+      readonly type: 'list';
+      readonly ordered: boolean;
+      readonly start: number;
+      readonly items: ReadonlyArray<ReadonlyArray<InlineNode>>;
+    };
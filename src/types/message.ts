@@ -6,8 +6,57 @@ export interface Message {
    * ISO 8601 timestamp
    */
   readonly createdAt: string;
+  /**
+   * ISO 8601 timestamp of the last edit (absent if never edited)
+   */
+  readonly updatedAt?: string;
+  /**
+   * ISO 8601 timestamp of the deletion. Deleted messages stay in the list
+   * as tombstones: `message` is empty, `author`, `createdAt` and `replyTo`
+   * are kept.
+   */
+  readonly deletedAt?: string;
+  /**
+   * ISO 8601 timestamp of the last change: creation, edit, deletion or a
+   * reaction added or removed (the `since` cursor of GET /messages;
+   * `createdAt` when absent)
+   */
+  readonly changedAt?: string;
+  /**
+   * `_id` of the message this one replies to (absent for plain messages).
+   * The parent may not be loaded, or may have been deleted since.
+   */
+  readonly replyTo?: string;
+  /**
+   * Reactions, in the order each emoji was first used (absent or empty
+   * without reactions)
+   */
+  readonly reactions?: ReadonlyArray<MessageReaction>;
 }
 
+/**
+ * One emoji on a message and who reacted with it.
+ */
+export interface MessageReaction {
+  readonly emoji: string;
+  /**
+   * Display names of the users who reacted, HTML-escaped like `author`
+   * (never empty: an emoji nobody uses is dropped)
+   */
+  readonly authors: ReadonlyArray<string>;
+}
+
+/**
+ * Delivery state of a message from the client's point of view.
+ *
+ * States:
+ * - 'pending': Shown optimistically, waiting for the server to confirm
+ * - 'sent': Confirmed by the server (all messages loaded from the API)
+ * - 'failed': Not delivered; can be retried or discarded
+ * - 'queued': Composed while offline; waiting in the outbox
+ */
+export type DeliveryState = 'pending' | 'sent' | 'failed' | 'queued';
+
 /**
  * Extended Base Message type with metadata.
  */
@@ -17,8 +66,37 @@ export interface ChatMessage extends Message {
    * for efficient sorting without repeated Date parsing.
    */
   readonly createdAtMs: number;
+
+  /**
+   * Pending, failed and queued messages carry a client-generated temporary
+   * `_id` until the server assigns the real one.
+   */
+  readonly deliveryState: DeliveryState;
 }
 
+/**
+ * A row of the message list (see @utils/message-groups).
+ *
+ * - 'day': Separator before the first message of a calendar day (in the
+ *   user's time zone); `date` is `YYYY-MM-DD`
+ * - 'message': A message and its place in a group of consecutive messages
+ *   from the same author: the author shows on the group's first message and
+ *   the time on its last
+ */
+export type MessageListRow =
+  | {
+      readonly type: 'day';
+      readonly key: string;
+      readonly date: string;
+    }
+  | {
+      readonly type: 'message';
+      readonly key: string;
+      readonly message: ChatMessage;
+      readonly isGroupStart: boolean;
+      readonly isGroupEnd: boolean;
+    };
+
 export interface GetMessagesParams {
   readonly limit?: number;
   /**
@@ -29,9 +107,33 @@ export interface GetMessagesParams {
    * ISO timestamp
    */
   readonly before?: string;
+  /**
+   * ISO timestamp: only messages created or changed after it (see
+   * `changedAt`), in the order of their last change. Combined with
+   * `after`, messages matching either cursor
+   */
+  readonly since?: string;
 }
 
 export interface CreateMessageRequest {
   readonly message: string;
   readonly author: string;
+  /** `_id` of the message being replied to */
+  readonly replyTo?: string;
+}
+
+/**
+ * A reaction to add (PUT) or remove (DELETE) at
+ * /messages/:id/reactions/:emoji.
+ */
+export interface ReactionRequest {
+  readonly emoji: string;
+  readonly author: string;
+}
+
+/**
+ * Body of PATCH /messages/:id. Only the text can change.
+ */
+export interface UpdateMessageRequest {
+  readonly message: string;
 }
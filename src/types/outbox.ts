@@ -0,0 +1,29 @@
+import type { CreateMessageRequest } from '@models/message';
+
+/**
+ * A message waiting in the offline outbox.
+ *
+ * - `id` is the temporary id of the optimistic message shown in the list,
+ *   so a queued entry keeps its identity across page reloads.
+ * - `sequence` preserves the order in which messages were composed.
+ * - `conversationId` is the room the message is posted to.
+ */
+export interface OutboxEntry {
+  readonly id: string;
+  readonly sequence: number;
+  readonly conversationId: string;
+  readonly request: CreateMessageRequest;
+  /**
+   * ISO 8601 timestamp
+   */
+  readonly queuedAt: string;
+}
+
+/**
+ * Result of handing a single entry to the flush handler.
+ *
+ * - 'delivered': Sent successfully; removed from the outbox
+ * - 'rejected': The server refused it (e.g. validation); removed from the outbox
+ * - 'retry-later': Still offline; the entry is kept and flushing stops
+ */
+export type OutboxFlushResult = 'delivered' | 'rejected' | 'retry-later';
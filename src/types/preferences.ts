@@ -0,0 +1,24 @@
+import type { Locale } from '@i18n/locales';
+import type {
+  HourCycle,
+  ThemeMode,
+  TimeDisplay,
+} from '@preferences/preferences';
+
+/**
+ * Display preferences of the local user, persisted in this browser.
+ *
+ * - `timeDisplay`: Message times as a clock time or relative ("2m ago")
+ * - `hourCycle`: 12- or 24-hour clock, or the locale's convention
+ * - `timeZone`: IANA time zone for times and day separators; empty for the
+ *   device's zone
+ * - `locale`: Language of the UI; empty to follow the browser's
+ * - `theme`: Color theme, or the device's
+ */
+export interface Preferences {
+  readonly timeDisplay: TimeDisplay;
+  readonly hourCycle: HourCycle;
+  readonly timeZone: string;
+  readonly locale: Locale | '';
+  readonly theme: ThemeMode;
+}
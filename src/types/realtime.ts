@@ -0,0 +1,45 @@
+import type { Message } from '@models/message';
+
+/**
+ * Event pushed by the realtime endpoint.
+ *
+ * Wire format (one JSON frame per WebSocket message / SSE `data:` line):
+ * - `{ "type": "message", "conversationId": string, "data": Message }`:
+ *   A message was created in that room (`conversationId` may be omitted
+ *   for the default room)
+ * - `{ "type": "message-updated", "conversationId": string, "data": Message }`:
+ *   A message was edited or deleted (a tombstone); same shape
+ * - `{ "type": "heartbeat" }`: Keep-alive, sent periodically by the server
+ */
+export type RealtimeEvent =
+  | {
+      readonly type: 'message' | 'message-updated';
+      readonly conversationId: string;
+      readonly message: Message;
+    }
+  | { readonly type: 'heartbeat' };
+
+/**
+ * Connection status of the realtime client.
+ *
+ * States:
+ * - 'idle': Not started (or stopped)
+ * - 'connecting': First connection attempt in progress
+ * - 'open': Connected; events are flowing
+ * - 'reconnecting': Connection lost; retrying with backoff
+ * - 'unavailable': Too many failed attempts; callers should fall back to
+ *   polling. Reconnect attempts continue at the maximum backoff delay.
+ */
+export type RealtimeStatus =
+  | 'idle'
+  | 'connecting'
+  | 'open'
+  | 'reconnecting'
+  | 'unavailable';
+
+/**
+ * Realtime transport selection.
+ * - 'websocket' / 'sse': Push transports
+ * - 'polling': No push transport; live updates come from polling only
+ */
+export type RealtimeTransportKind = 'websocket' | 'sse' | 'polling';
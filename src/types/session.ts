@@ -0,0 +1,33 @@
+import type { SessionStatus } from '@session/session';
+
+/**
+ * Snapshot of the API session.
+ *
+ * - `token`: Bearer token sent with every request (empty unless active)
+ * - `remember`: Whether the token is persisted across page reloads
+ */
+export interface SessionState {
+  readonly status: SessionStatus;
+  readonly token: string;
+  readonly remember: boolean;
+}
+
+/**
+ * Options for signing in.
+ *
+ * - `remember`: Persist the token in localStorage (default false: memory only)
+ */
+export interface SignInOptions {
+  readonly remember?: boolean;
+}
+
+/**
+ * Obtains a new token after the current one was rejected (401).
+ * Resolves to null when the session can't be renewed silently.
+ */
+export type RefreshHandler = (expiredToken: string) => Promise<string | null>;
+
+/**
+ * A token, or a function returning the current one (read on every use).
+ */
+export type TokenSource = string | (() => string);
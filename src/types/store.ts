@@ -0,0 +1,108 @@
+import type { ApiError } from '@api/api-error';
+import type { Conversation } from '@models/conversation';
+import type { ChatMessage } from '@models/message';
+import type { AsyncStatus, LiveStatus } from '@models/hooks';
+
+/**
+ * Snapshot of the shared message store.
+ *
+ * Messages are normalized: `messagesById` holds each message once and
+ * `messageIds` is the chronological index (oldest first). Snapshots are
+ * immutable; every change produces a new one, so selectors can compare by
+ * reference.
+ */
+export interface MessageStoreState {
+  /** Messages keyed by `_id` (temporary ids for local messages) */
+  readonly messagesById: Readonly<Record<string, ChatMessage>>;
+
+  /** Message ids in chronological order (oldest first) */
+  readonly messageIds: ReadonlyArray<string>;
+
+  /** Status of the initial load / reload */
+  readonly loadStatus: AsyncStatus;
+
+  /** Error from the last load, or null */
+  readonly loadError: ApiError | null;
+
+  /** Current attempt of the load (greater than 1 while retrying) */
+  readonly loadAttempt: number;
+
+  /** Status of the last send */
+  readonly sendStatus: AsyncStatus;
+
+  /** Error from the last send, or null */
+  readonly sendError: ApiError | null;
+
+  /** Whether older messages may exist before the oldest loaded one */
+  readonly hasMoreHistory: boolean;
+
+  /** Status of the most recent older-messages (history) load */
+  readonly olderStatus: AsyncStatus;
+
+  /** Status of the live updates (polling) */
+  readonly liveStatus: LiveStatus;
+
+  /**
+   * Last edit, delete or reaction change that failed (and was rolled
+   * back), or null
+   */
+  readonly actionError: MessageActionError | null;
+}
+
+/**
+ * A failed edit, delete or reaction change on a message.
+ */
+export interface MessageActionError {
+  readonly operation: 'edit' | 'delete' | 'react';
+  readonly messageId: string;
+  readonly error: ApiError;
+}
+
+/**
+ * Load slice of the store state.
+ */
+export type LoadState = Pick<
+  MessageStoreState,
+  'loadStatus' | 'loadError' | 'loadAttempt'
+>;
+
+/**
+ * Send slice of the store state.
+ */
+export type SendState = Pick<MessageStoreState, 'sendStatus' | 'sendError'>;
+
+/**
+ * History (backward pagination) slice of the store state.
+ */
+export type HistoryState = Pick<
+  MessageStoreState,
+  'hasMoreHistory' | 'olderStatus'
+>;
+
+/**
+ * Snapshot of the conversation list store.
+ */
+export interface ConversationStoreState {
+  /** Conversations in the order the server lists them */
+  readonly conversations: ReadonlyArray<Conversation>;
+
+  /** Status of the initial load / reload of the list */
+  readonly loadStatus: AsyncStatus;
+
+  /** Error from the last load, or null */
+  readonly loadError: ApiError | null;
+
+  /**
+   * Message count the user has seen per conversation id
+   * (unread = messageCount − read count)
+   */
+  readonly readCounts: Readonly<Record<string, number>>;
+}
+
+/**
+ * Load slice of the conversation store state.
+ */
+export type ConversationLoadState = Pick<
+  ConversationStoreState,
+  'loadStatus' | 'loadError'
+>;
@@ -0,0 +1,197 @@
+import { ApiErrorKind, type ApiError } from '@api/api-error';
+import { i18n } from '@i18n/i18n';
+import type { MessageKey } from '@models/i18n';
+
+/**
+ * Recovery the UI should offer for an error.
+ *
+ * - RETRY: Try the same operation again
+ * - WAIT: Try again after `retryAfterMs` (rate limited)
+ * - EDIT: Change the input (the server rejected it)
+ * - SIGN_IN: Credentials are missing or expired
+ * - RELOAD: The app and server disagree; reloading the page may help
+ * - NONE: Nothing to do (e.g. the user cancelled)
+ */
+export const ErrorAction = {
+  RETRY: 'retry',
+  WAIT: 'wait',
+  EDIT: 'edit',
+  SIGN_IN: 'sign-in',
+  RELOAD: 'reload',
+  NONE: 'none',
+} as const;
+
+export type ErrorAction = (typeof ErrorAction)[keyof typeof ErrorAction];
+
+/**
+ * What the user was doing when the error happened (selects the title).
+ */
+export type ErrorOperation =
+  | 'load'
+  | 'send'
+  | 'edit'
+  | 'delete'
+  | 'react'
+  | 'sign-in';
+
+/**
+ * User-facing description of an error, in the UI language at the time it
+ * was described.
+ */
+export interface ErrorDescription {
+  readonly kind: ApiErrorKind;
+  readonly title: string;
+  readonly message: string;
+  readonly action: ErrorAction;
+  /**
+   * Delay before retrying makes sense (only for WAIT)
+   */
+  readonly retryAfterMs?: number;
+}
+
+const OPERATION_TITLES: Readonly<Record<ErrorOperation, MessageKey>> = {
+  load: 'error.title.load',
+  send: 'error.title.send',
+  edit: 'error.title.edit',
+  delete: 'error.title.delete',
+  react: 'error.title.react',
+  'sign-in': 'error.title.signIn',
+};
+
+/**
+ * Picks the validation message to show, preferring the `message` field
+ * (the only field the user can edit).
+ */
+function getValidationMessage(error: ApiError): string {
+  const validationErrors = error.getValidationErrors();
+
+  if (!validationErrors || validationErrors.length === 0) {
+    return error.message;
+  }
+
+  const messageError = validationErrors.find(
+    validationError => validationError.field === 'message'
+  );
+
+  return (messageError ?? validationErrors[0]).message;
+}
+
+/**
+ * Rate limit message, with the Retry-After delay in whole seconds when the
+ * server sent one ("… try again in 5 seconds.").
+ */
+function getRateLimitMessage(retryAfterMs: number | undefined): string {
+  if (retryAfterMs === undefined) {
+    return i18n.t('error.rateLimitedUnknown');
+  }
+
+  return i18n.t('error.rateLimited', {
+    seconds: Math.max(1, Math.ceil(retryAfterMs / 1000)),
+  });
+}
+
+/**
+ * Maps an API error to user-facing copy and a suggested recovery action.
+ *
+ * The single place that turns error kinds into words: components branch on
+ * `action`, never on status codes.
+ *
+ * @param error - Error to describe
+ * @param operation - What failed (e.g. 'load', 'send', 'edit')
+ * @returns Title, message and recovery action
+ *
+ * @example
+ * ```TypeScript
+ * const { title, message, action } = describeError(sendError, 'send');
+ * ```
+ */
+export function describeError(
+  error: ApiError,
+  operation: ErrorOperation
+): ErrorDescription {
+  const title = i18n.t(OPERATION_TITLES[operation]);
+
+  switch (error.kind) {
+    case ApiErrorKind.NETWORK:
+      return {
+        kind: error.kind,
+        title,
+        message: i18n.t('error.network'),
+        action: ErrorAction.RETRY,
+      };
+    case ApiErrorKind.TIMEOUT:
+      return {
+        kind: error.kind,
+        title,
+        message: i18n.t('error.timeout'),
+        action: ErrorAction.RETRY,
+      };
+    case ApiErrorKind.ABORTED:
+      return {
+        kind: error.kind,
+        title,
+        message: i18n.t('error.aborted'),
+        action: ErrorAction.NONE,
+      };
+    case ApiErrorKind.PARSE:
+      return {
+        kind: error.kind,
+        title,
+        message: i18n.t('error.parse'),
+        action: ErrorAction.RELOAD,
+      };
+    case ApiErrorKind.VALIDATION:
+      return {
+        kind: error.kind,
+        title,
+        message: getValidationMessage(error),
+        action: ErrorAction.EDIT,
+      };
+    case ApiErrorKind.AUTH:
+      /**
+       * While signing in, the rejected credential is the one just entered.
+       */
+      return operation === 'sign-in'
+        ? {
+            kind: error.kind,
+            title,
+            message: i18n.t('error.authToken'),
+            action: ErrorAction.EDIT,
+          }
+        : {
+            kind: error.kind,
+            title,
+            message: i18n.t('error.authSession'),
+            action: ErrorAction.SIGN_IN,
+          };
+    case ApiErrorKind.RATE_LIMITED:
+      return {
+        kind: error.kind,
+        title,
+        message: getRateLimitMessage(error.retryAfterMs),
+        action: ErrorAction.WAIT,
+        retryAfterMs: error.retryAfterMs,
+      };
+    case ApiErrorKind.SERVER:
+      return {
+        kind: error.kind,
+        title,
+        message: i18n.t('error.server'),
+        action: ErrorAction.RETRY,
+      };
+    case ApiErrorKind.HTTP:
+      return {
+        kind: error.kind,
+        title,
+        message: error.message,
+        action: ErrorAction.RETRY,
+      };
+    case ApiErrorKind.UNKNOWN:
+      return {
+        kind: error.kind,
+        title,
+        message: i18n.t('error.unknown'),
+        action: ErrorAction.RETRY,
+      };
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { decodeHtmlEntities } from './html-entities';
+
+/**
+ * Expected values follow the HTML standard's character reference rules,
+ * i.e. what a browser gives for `element.innerHTML = text;
+ * element.textContent`.
+ */
+describe('decodeHtmlEntities', () => {
+  it('returns text without references unchanged', () => {
+    expect(decodeHtmlEntities('Hello, world')).toBe('Hello, world');
+    expect(decodeHtmlEntities('')).toBe('');
+  });
+
+  describe('named references', () => {
+    it('decodes the characters the API escapes', () => {
+      expect(decodeHtmlEntities('&lt;b&gt; &amp; &quot;hi&quot;')).toBe(
+        '<b> & "hi"'
+      );
+    });
+
+    it('decodes names from the full table', () => {
+      expect(decodeHtmlEntities('&hearts; &nbsp; &Afr; &eacute;')).toBe(
+        '♥ \u00a0 \u{1d504} é'
+      );
+    });
+
+    it('is case-sensitive', () => {
+      expect(decodeHtmlEntities('&AMP; &Amp;')).toBe('& &Amp;');
+    });
+
+    it('keeps unknown names', () => {
+      expect(decodeHtmlEntities('&unknown; &hearts')).toBe('&unknown; &hearts');
+    });
+
+    it('decodes the results of one pass only', () => {
+      expect(decodeHtmlEntities('&amp;lt;')).toBe('&lt;');
+    });
+  });
+
+  describe('legacy references without a semicolon', () => {
+    it('decodes legacy names followed by other text', () => {
+      expect(decodeHtmlEntities('&copy 2024 &amp &lt3')).toBe('© 2024 & <3');
+    });
+
+    it('decodes the longest legacy prefix of a longer name', () => {
+      expect(decodeHtmlEntities('&notit; &copyright')).toBe('¬it; ©right');
+    });
+
+    it('prefers the full name with a semicolon', () => {
+      expect(decodeHtmlEntities('&notin;')).toBe('∉');
+    });
+  });
+
+  describe('numeric references', () => {
+    it('decodes decimal references', () => {
+      expect(decodeHtmlEntities('It&#39;s &#65;&#0066;')).toBe("It's AB");
+    });
+
+    it('decodes hex references in either case', () => {
+      expect(decodeHtmlEntities('&#x41;&#X42;&#x1F44D;&#x1f44d;')).toBe(
+        'AB👍👍'
+      );
+    });
+
+    it('decodes references without a semicolon', () => {
+      expect(decodeHtmlEntities('&#65 &#x42')).toBe('A B');
+    });
+
+    it('maps C1 controls to their Windows-1252 characters', () => {
+      expect(decodeHtmlEntities('&#x80; &#150; &#x9F;')).toBe('€ – Ÿ');
+    });
+
+    it('keeps C1 controls without a Windows-1252 character', () => {
+      expect(decodeHtmlEntities('&#x81;')).toBe('\u0081');
+    });
+  });
+
+  describe('out-of-range code points', () => {
+    it.each([
+      ['NUL', '&#0;'],
+      ['past U+10FFFF', '&#x110000;'],
+      ['a huge number', '&#99999999999999999999;'],
+      ['a lone high surrogate', '&#xD800;'],
+      ['a lone low surrogate', '&#57343;'],
+    ])('replaces %s with U+FFFD', (_, reference) => {
+      expect(decodeHtmlEntities(reference)).toBe('\uFFFD');
+    });
+
+    it('decodes the highest code point', () => {
+      expect(decodeHtmlEntities('&#x10FFFF;')).toBe('\u{10ffff}');
+    });
+  });
+
+  describe('prototype names', () => {
+    it.each([
+      '&constructor;',
+      '&__proto__;',
+      '&toString;',
+      '&hasOwnProperty;',
+      '&valueOf;',
+      '&isPrototypeOf;',
+    ])('keeps %s as is', reference => {
+      expect(decodeHtmlEntities(reference)).toBe(reference);
+    });
+  });
+
+  it('keeps a lone ampersand', () => {
+    expect(decodeHtmlEntities('Tom & Jerry &; &#; &#x;')).toBe(
+      'Tom & Jerry &; &#; &#x;'
+    );
+  });
+
+  it('gives the same result when decoding again from the cache', () => {
+    const text = 'Caf&eacute; &amp; more';
+
+    expect(decodeHtmlEntities(text)).toBe('Café & more');
+    expect(decodeHtmlEntities(text)).toBe('Café & more');
+  });
+});
@@ -1,3 +1,135 @@
+/**
+ * HTML Entity Decoding
+ *
+ * The API returns messages and authors HTML-escaped. This decoder follows
+ * the HTML standard's character reference rules without touching the DOM,
+ * so it gives the same output in the browser, in Node and in workers:
+ * - Named references from the full table (`&hearts;`), including legacy
+ *   names without `;` (`&copy 2024`)
+ * - Decimal (`&#39;`) and hex (`&#x1F44D;`) references; invalid code points
+ *   become U+FFFD and C1 controls map to their Windows-1252 characters
+ * - Anything else (`&unknown;`, a lone `&`) is kept as is
+ *
+ * Results are cached: the same authors and messages are decoded on every
+ * render of the message list.
+ *
+ */
+
+import { LEGACY_ENTITY_NAMES, NAMED_ENTITIES } from './html-entity-table';
+
+const CHARACTER_REFERENCE_PATTERN =
+  /&(?:#(\d+)|#[xX]([0-9a-fA-F]+)|([A-Za-z][A-Za-z0-9]*))(;?)/g;
+
+/**
+ * Longest legacy name (no `;` required).
+ */
+const MAX_LEGACY_NAME_LENGTH = 6;
+
+/**
+ * Decoded strings kept in the cache; the oldest entry is dropped beyond it.
+ */
+const MAX_CACHE_SIZE = 2000;
+
+const REPLACEMENT_CHARACTER = '\uFFFD';
+
+/**
+ * Numeric references to C1 controls (0x80–0x9F) mean the Windows-1252
+ * character with that byte, as browsers decode them.
+ */
+const WINDOWS_1252_REPLACEMENTS: Readonly<Record<number, number>> = {
+  0x80: 0x20ac,
+  0x82: 0x201a,
+  0x83: 0x0192,
+  0x84: 0x201e,
+  0x85: 0x2026,
+  0x86: 0x2020,
+  0x87: 0x2021,
+  0x88: 0x02c6,
+  0x89: 0x2030,
+  0x8a: 0x0160,
+  0x8b: 0x2039,
+  0x8c: 0x0152,
+  0x8e: 0x017d,
+  0x91: 0x2018,
+  0x92: 0x2019,
+  0x93: 0x201c,
+  0x94: 0x201d,
+  0x95: 0x2022,
+  0x96: 0x2013,
+  0x97: 0x2014,
+  0x98: 0x02dc,
+  0x99: 0x2122,
+  0x9a: 0x0161,
+  0x9b: 0x203a,
+  0x9c: 0x0153,
+  0x9e: 0x017e,
+  0x9f: 0x0178,
+};
+
+const cache = new Map<string, string>();
+
+/**
+ * Text of a numeric character reference.
+ */
+function decodeCodePoint(codePoint: number): string {
+  if (
+    codePoint === 0 ||
+    codePoint > 0x10ffff ||
+    (codePoint >= 0xd800 && codePoint <= 0xdfff)
+  ) {
+    return REPLACEMENT_CHARACTER;
+  }
+
+  return String.fromCodePoint(
+    WINDOWS_1252_REPLACEMENTS[codePoint] ?? codePoint
+  );
+}
+
+/**
+ * Text of a named reference, or undefined if the name isn't one.
+ * Without an exact `name;` match, the longest legacy name at the start of
+ * `name` is decoded and the rest kept (`&notit;` → `¬it;`).
+ */
+function decodeNamedReference(
+  name: string,
+  semicolon: string
+): string | undefined {
+  if (semicolon && Object.hasOwn(NAMED_ENTITIES, name)) {
+    return NAMED_ENTITIES[name];
+  }
+
+  for (
+    let length = Math.min(name.length, MAX_LEGACY_NAME_LENGTH);
+    length > 0;
+    length--
+  ) {
+    const prefix = name.slice(0, length);
+
+    if (LEGACY_ENTITY_NAMES.has(prefix)) {
+      return NAMED_ENTITIES[prefix] + name.slice(length) + semicolon;
+    }
+  }
+
+  return undefined;
+}
+
+function decode(text: string): string {
+  return text.replace(
+    CHARACTER_REFERENCE_PATTERN,
+    (reference, decimal, hex, name, semicolon) => {
+      if (decimal !== undefined) {
+        return decodeCodePoint(Number.parseInt(decimal, 10));
+      }
+
+      if (hex !== undefined) {
+        return decodeCodePoint(Number.parseInt(hex, 16));
+      }
+
+      return decodeNamedReference(name, semicolon) ?? reference;
+    }
+  );
+}
+
 /**
  * Decodes HTML entities in a string.
  *
@@ -7,6 +139,8 @@
  * - `&amp;` → `&`
  * - `&lt;` → `<`
  * - `&gt;` → `>`
+ * - `&hearts;` → `♥`
+ * - `&#x1F44D;` → `👍`
  *
  * @param text - Text containing HTML entities
  * @returns Decoded text with HTML entities converted to their characters
@@ -18,12 +152,22 @@
  * ```
  */
 export function decodeHtmlEntities(text: string): string {
-  if (typeof document === 'undefined') {
+  if (!text.includes('&')) {
     return text;
   }
 
-  const textarea = document.createElement('textarea');
+  const cached = cache.get(text);
+
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const decoded = decode(text);
+
+  if (cache.size >= MAX_CACHE_SIZE) {
+    cache.delete(cache.keys().next().value as string);
+  }
 
-  textarea.innerHTML = text;
-  return textarea.textContent || textarea.innerText || text;
+  cache.set(text, decoded);
+  return decoded;
 }
@@ -0,0 +1,225 @@
+import { describe, expect, it } from 'vitest';
+import type { BlockNode, InlineNode } from '@models/markdown';
+import { parseInline, parseMarkdown } from './markdown';
+
+/**
+ * All links of a tree, in document order.
+ */
+function collectLinks(nodes: ReadonlyArray<BlockNode | InlineNode>): string[] {
+  return nodes.flatMap(node => {
+    switch (node.type) {
+      case 'link':
+        return [node.href];
+      case 'paragraph':
+      case 'blockquote':
+      case 'strong':
+      case 'emphasis':
+        return collectLinks(node.children);
+      case 'list':
+        return node.items.flatMap(collectLinks);
+      default:
+        return [];
+    }
+  });
+}
+
+/**
+ * Depth of the deepest blockquote.
+ */
+function getQuoteDepth(blocks: ReadonlyArray<BlockNode>): number {
+  return Math.max(
+    0,
+    ...blocks.map(block =>
+      block.type === 'blockquote' ? 1 + getQuoteDepth(block.children) : 0
+    )
+  );
+}
+
+/**
+ * Depth of the deepest strong or emphasis node.
+ */
+function getEmphasisDepth(nodes: ReadonlyArray<InlineNode>): number {
+  return Math.max(
+    0,
+    ...nodes.map(node =>
+      node.type === 'strong' || node.type === 'emphasis'
+        ? 1 + getEmphasisDepth(node.children)
+        : 0
+    )
+  );
+}
+
+describe('parseMarkdown', () => {
+  it('returns no blocks for blank text', () => {
+    expect(parseMarkdown('')).toEqual([]);
+    expect(parseMarkdown('  \n\n ')).toEqual([]);
+  });
+
+  describe('links', () => {
+    it('links http and https URLs', () => {
+      expect(
+        parseInline('see http://example.com and https://example.org/a?b=c')
+      ).toEqual([
+        { type: 'text', text: 'see ' },
+        { type: 'link', href: 'http://example.com' },
+        { type: 'text', text: ' and ' },
+        { type: 'link', href: 'https://example.org/a?b=c' },
+      ]);
+    });
+
+    it.each([
+      'javascript:alert(1)',
+      'JavaScript:alert(document.cookie)',
+      'data:text/html,<script>alert(1)</script>',
+      'vbscript:msgbox(1)',
+      'file:///etc/passwd',
+    ])('keeps %s as text', url => {
+      expect(parseInline(url)).toEqual([{ type: 'text', text: url }]);
+    });
+
+    it('has no [text](url) syntax to disguise a link', () => {
+      const blocks = parseMarkdown('[click me](javascript:alert(1))');
+
+      expect(collectLinks(blocks)).toEqual([]);
+      expect(blocks).toEqual([
+        {
+          type: 'paragraph',
+          children: [{ type: 'text', text: '[click me](javascript:alert(1))' }],
+        },
+      ]);
+    });
+
+    it('only links the http URL inside a javascript: one', () => {
+      expect(
+        collectLinks(parseMarkdown('javascript://http://example.com'))
+      ).toEqual(['http://example.com']);
+    });
+
+    it('keeps URLs without a host as text', () => {
+      expect(parseInline('http:// and https://')).toEqual([
+        { type: 'text', text: 'http:// and https://' },
+      ]);
+    });
+
+    it('drops trailing punctuation and unbalanced parentheses', () => {
+      expect(
+        collectLinks(
+          parseMarkdown(
+            'Done (see https://example.com/a). Also https://en.wikipedia.org/wiki/C_(language)!'
+          )
+        )
+      ).toEqual([
+        'https://example.com/a',
+        'https://en.wikipedia.org/wiki/C_(language)',
+      ]);
+    });
+  });
+
+  describe('raw HTML', () => {
+    it('keeps tags as text', () => {
+      expect(parseMarkdown('<img src=x onerror=alert(1)> <b>hi</b>')).toEqual([
+        {
+          type: 'paragraph',
+          children: [
+            { type: 'text', text: '<img src=x onerror=alert(1)> <b>hi</b>' },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe('unclosed markers', () => {
+    it.each(['**bold', '*italic', '***both', '`code', '__bold', '_italic'])(
+      'keeps %s as text',
+      text => {
+        expect(parseInline(text)).toEqual([{ type: 'text', text }]);
+      }
+    );
+
+    it('still parses closed runs of markers', () => {
+      expect(parseInline('***both***')).toEqual([
+        {
+          type: 'strong',
+          children: [
+            { type: 'emphasis', children: [{ type: 'text', text: 'both' }] },
+          ],
+        },
+      ]);
+    });
+
+    it('runs an unclosed fence to the end of the message', () => {
+      expect(parseMarkdown('Before\n```ts\nconst a = 1;\n\n**b**')).toEqual([
+        { type: 'paragraph', children: [{ type: 'text', text: 'Before' }] },
+        {
+          type: 'code-block',
+          language: 'ts',
+          text: 'const a = 1;\n\n**b**',
+        },
+      ]);
+    });
+  });
+
+  describe('nesting limits', () => {
+    it('stops nesting blockquotes after four levels', () => {
+      const blocks = parseMarkdown('>>>>>>>> deep');
+
+      expect(getQuoteDepth(blocks)).toBe(4);
+    });
+
+    it('nests emphasis up to four levels', () => {
+      const nodes = parseInline('**a *b __c _d_ c__ b* a**');
+
+      expect(getEmphasisDepth(nodes)).toBe(4);
+    });
+
+    it('keeps emphasis past the nesting limit as text', () => {
+      expect(parseInline('**deep** *deeper*', 4)).toEqual([
+        { type: 'text', text: '**deep** *deeper*' },
+      ]);
+    });
+
+    it('parses a long run of markers without deep recursion', () => {
+      const text = `${'>'.repeat(10_000)} ${'*'.repeat(10_000)}x`;
+
+      expect(() => parseMarkdown(text)).not.toThrow();
+      expect(getQuoteDepth(parseMarkdown(text))).toBe(4);
+    });
+  });
+
+  describe('fenced code', () => {
+    it('keeps markup inside the fence literal', () => {
+      const code = [
+        '**not bold** *not italic* `not code`',
+        '> not a quote',
+        '- not a list',
+        'https://example.com',
+        '<script>alert(1)</script>',
+      ].join('\n');
+
+      expect(parseMarkdown(`\`\`\`\n${code}\n\`\`\``)).toEqual([
+        { type: 'code-block', text: code },
+      ]);
+    });
+
+    it('keeps the language and the text around the fence', () => {
+      expect(
+        parseMarkdown('Try:\n```js\nconsole.log("*hi*")\n```\n**Thanks**')
+      ).toEqual([
+        { type: 'paragraph', children: [{ type: 'text', text: 'Try:' }] },
+        { type: 'code-block', language: 'js', text: 'console.log("*hi*")' },
+        {
+          type: 'paragraph',
+          children: [
+            { type: 'strong', children: [{ type: 'text', text: 'Thanks' }] },
+          ],
+        },
+      ]);
+    });
+
+    it('keeps markup inside code spans literal', () => {
+      expect(parseInline('`**x** https://example.com`')).toEqual([
+        { type: 'code', text: '**x** https://example.com' },
+      ]);
+    });
+  });
+});
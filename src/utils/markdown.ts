@@ -0,0 +1,304 @@
+/**
+ * Markdown Subset Parser
+ *
+ * Turns message text into the syntax tree of @models/markdown:
+ * - Blocks: paragraphs, ``` fenced code blocks, `>` blockquotes, and
+ *   unordered (`-`, `*`, `+`) or ordered (`1.`, `1)`) lists
+ * - Inline: `**bold**`, `*italic*`, `***both***`, `` `code` `` and http(s)
+ *   URLs, which become links
+ *
+ * Everything else stays literal text. There is no raw HTML, no images and
+ * no `[text](url)` syntax, so a message can only link to the URL it shows.
+ * The parser is pure (no DOM); RichText renders the tree as React elements.
+ *
+ */
+
+import type { BlockNode, InlineNode } from '@models/markdown';
+
+/**
+ * Deepest nesting of blockquotes, and of emphasis inside emphasis.
+ * Deeper markers are left as text.
+ */
+const MAX_NESTING_DEPTH = 4;
+
+const FENCE_OPEN_PATTERN = /^ {0,3}```\s*([\w#+.-]*)\s*$/;
+const FENCE_CLOSE_PATTERN = /^ {0,3}```\s*$/;
+const BLOCKQUOTE_PATTERN = /^ {0,3}> ?(.*)$/;
+const UNORDERED_ITEM_PATTERN = /^ {0,3}[-*+][ \t]+(.*)$/;
+const ORDERED_ITEM_PATTERN = /^ {0,3}(\d{1,9})[.)][ \t]+(.*)$/;
+
+/**
+ * Inline syntax, in order of precedence at the same position: code spans
+ * (literal content), URLs, strong emphasis, strong, then emphasis.
+ * Underscore markers only count at word boundaries, so snake_case names
+ * stay intact, and emphasis can't start with its own marker, so a run of
+ * unclosed markers (`***`) stays text.
+ */
+const INLINE_PATTERN = new RegExp(
+  [
+    /(?<fence>`+)(?<code>[\s\S]*?[^`])\k<fence>(?!`)/.source,
+    /(?<url>https?:\/\/[^\s<>]+)/.source,
+    /\*\*\*(?=\S)(?<strongEmphasis>[\s\S]*?\S)\*\*\*/.source,
+    /\*\*(?=[^\s*])(?<strong>[\s\S]*?\S)\*\*/.source,
+    /(?<!\w)__(?=[^\s_])(?<strongAlt>[\s\S]*?\S)__(?!\w)/.source,
+    /\*(?=[^\s*])(?<emphasis>[\s\S]*?\S)\*/.source,
+    /(?<!\w)_(?=[^\s_])(?<emphasisAlt>[\s\S]*?\S)_(?!\w)/.source,
+  ].join('|'),
+  'g'
+);
+
+/**
+ * Characters that end a sentence rather than a URL.
+ */
+const URL_TRAILING_PUNCTUATION = '.,;:!?\'"*_';
+
+/**
+ * Drops trailing punctuation from a URL found in text, and closing
+ * parentheses that have no opening one in the URL ("(see https://x.y)").
+ */
+function trimUrl(url: string): string {
+  let end = url.length;
+
+  while (end > 0) {
+    const character = url[end - 1];
+    const candidate = url.slice(0, end);
+
+    if (URL_TRAILING_PUNCTUATION.includes(character)) {
+      end--;
+    } else if (
+      character === ')' &&
+      candidate.split(')').length > candidate.split('(').length
+    ) {
+      end--;
+    } else {
+      break;
+    }
+  }
+
+  return url.slice(0, end);
+}
+
+/**
+ * Whether a URL is a complete http(s) address, safe to use as a link.
+ */
+function isSafeUrl(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return (protocol === 'http:' || protocol === 'https:') && hostname !== '';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * A code span's content without the single space that may pad both ends
+ * (so `` ` `code` ` `` can show backticks).
+ */
+function stripCodePadding(code: string): string {
+  return code.length > 2 && code.startsWith(' ') && code.endsWith(' ')
+    ? code.slice(1, -1)
+    : code;
+}
+
+/**
+ * Appends text, turning newlines into break nodes.
+ */
+function pushText(nodes: InlineNode[], text: string): void {
+  text.split('\n').forEach((line, index) => {
+    if (index > 0) {
+      nodes.push({ type: 'break' });
+    }
+
+    if (line) {
+      nodes.push({ type: 'text', text: line });
+    }
+  });
+}
+
+/**
+ * Parses inline syntax.
+ *
+ * @param text - Text of a paragraph or list item
+ * @param depth - Emphasis nesting so far
+ * @returns Inline nodes
+ */
+export function parseInline(text: string, depth = 0): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  const pattern = new RegExp(INLINE_PATTERN);
+  let textStart = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text))) {
+    const groups = match.groups ?? {};
+    let node: InlineNode | undefined;
+    let end = pattern.lastIndex;
+
+    if (groups.code !== undefined) {
+      node = { type: 'code', text: stripCodePadding(groups.code) };
+    } else if (groups.url !== undefined) {
+      const href = trimUrl(groups.url);
+      end = match.index + href.length;
+      pattern.lastIndex = end;
+
+      if (isSafeUrl(href)) {
+        node = { type: 'link', href };
+      }
+    } else if (depth < MAX_NESTING_DEPTH && groups.strongEmphasis) {
+      node = {
+        type: 'strong',
+        children: [
+          {
+            type: 'emphasis',
+            children: parseInline(groups.strongEmphasis, depth + 1),
+          },
+        ],
+      };
+    } else if (depth < MAX_NESTING_DEPTH) {
+      const strong = groups.strong ?? groups.strongAlt;
+      const emphasis = groups.emphasis ?? groups.emphasisAlt;
+
+      node =
+        strong !== undefined
+          ? { type: 'strong', children: parseInline(strong, depth + 1) }
+          : {
+              type: 'emphasis',
+              children: parseInline(emphasis ?? '', depth + 1),
+            };
+    }
+
+    if (!node) {
+      continue;
+    }
+
+    pushText(nodes, text.slice(textStart, match.index));
+    nodes.push(node);
+    textStart = end;
+  }
+
+  pushText(nodes, text.slice(textStart));
+  return nodes;
+}
+
+/**
+ * Parses lines into blocks.
+ *
+ * @param lines - Lines of the text (or of a blockquote's content)
+ * @param depth - Blockquote nesting so far
+ * @returns Block nodes
+ */
+function parseBlocks(lines: ReadonlyArray<string>, depth: number): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  let paragraph: string[] = [];
+  let index = 0;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({
+        type: 'paragraph',
+        children: parseInline(paragraph.join('\n')),
+      });
+      paragraph = [];
+    }
+  };
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const fence = FENCE_OPEN_PATTERN.exec(line);
+
+    if (fence) {
+      flushParagraph();
+      const codeLines: string[] = [];
+      index++;
+
+      // An unclosed fence runs to the end of the message
+      while (index < lines.length && !FENCE_CLOSE_PATTERN.test(lines[index])) {
+        codeLines.push(lines[index]);
+        index++;
+      }
+
+      blocks.push({
+        type: 'code-block',
+        text: codeLines.join('\n'),
+        ...(fence[1] && { language: fence[1] }),
+      });
+      index++;
+      continue;
+    }
+
+    if (depth < MAX_NESTING_DEPTH && BLOCKQUOTE_PATTERN.test(line)) {
+      flushParagraph();
+      const quotedLines: string[] = [];
+
+      let quoted: RegExpExecArray | null;
+      while (
+        index < lines.length &&
+        (quoted = BLOCKQUOTE_PATTERN.exec(lines[index]))
+      ) {
+        quotedLines.push(quoted[1]);
+        index++;
+      }
+
+      blocks.push({
+        type: 'blockquote',
+        children: parseBlocks(quotedLines, depth + 1),
+      });
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM_PATTERN.exec(line);
+    const unordered = ordered ? null : UNORDERED_ITEM_PATTERN.exec(line);
+
+    if (ordered || unordered) {
+      flushParagraph();
+      const itemPattern = ordered
+        ? ORDERED_ITEM_PATTERN
+        : UNORDERED_ITEM_PATTERN;
+      const items: InlineNode[][] = [];
+
+      let item: RegExpExecArray | null;
+      while (index < lines.length && (item = itemPattern.exec(lines[index]))) {
+        items.push(parseInline(item[item.length - 1]));
+        index++;
+      }
+
+      blocks.push({
+        type: 'list',
+        ordered: ordered !== null,
+        start: ordered ? Number(ordered[1]) : 1,
+        items,
+      });
+      continue;
+    }
+
+    if (line.trim()) {
+      paragraph.push(line);
+    } else {
+      flushParagraph();
+    }
+
+    index++;
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+/**
+ * Parses a message body.
+ *
+ * @param text - Decoded message text
+ * @returns Block nodes (empty for blank text)
+ *
+ * @example
+ * ```TypeScript
+ * parseMarkdown('**Deploy** done, see https://ci.example.com');
+ * // [{ type: 'paragraph', children: [
+ * //   { type: 'strong', children: [{ type: 'text', text: 'Deploy' }] },
+ * //   { type: 'text', text: ' done, see ' },
+ * //   { type: 'link', href: 'https://ci.example.com' },
+ * // ] }]
+ * ```
+ */
+export function parseMarkdown(text: string): BlockNode[] {
+  return parseBlocks(text.replace(/\r\n?/g, '\n').split('\n'), 0);
+}
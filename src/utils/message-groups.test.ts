@@ -0,0 +1,204 @@
+import { describe, expect, it } from 'vitest';
+import type {
+  ChatMessage,
+  DeliveryState,
+  MessageListRow,
+} from '@models/message';
+import { groupMessages } from './message-groups';
+
+const WINDOW_MS = 5 * 60_000;
+
+function createMessage(
+  _id: string,
+  author: string,
+  createdAt: string,
+  deliveryState: DeliveryState = 'sent'
+): ChatMessage {
+  return {
+    _id,
+    message: `Message ${_id}`,
+    author,
+    createdAt,
+    createdAtMs: Date.parse(createdAt),
+    deliveryState,
+  };
+}
+
+/**
+ * Rows as short strings: `day:YYYY-MM-DD`, or the message id followed by
+ * `[` when it starts a group and `]` when it ends one.
+ */
+function describeRows(rows: ReadonlyArray<MessageListRow>): string[] {
+  return rows.map(row =>
+    row.type === 'day'
+      ? `day:${row.date}`
+      : `${row.isGroupStart ? '[' : ''}${row.key}${row.isGroupEnd ? ']' : ''}`
+  );
+}
+
+describe('groupMessages', () => {
+  it('returns no rows without messages', () => {
+    expect(groupMessages([], WINDOW_MS, 'UTC')).toEqual([]);
+  });
+
+  it('groups consecutive messages from the same author', () => {
+    const messages = [
+      createMessage('a1', 'Alice', '2024-03-01T09:00:00Z'),
+      createMessage('a2', 'Alice', '2024-03-01T09:02:00Z'),
+      createMessage('a3', 'Alice', '2024-03-01T09:04:00Z'),
+    ];
+
+    expect(describeRows(groupMessages(messages, WINDOW_MS, 'UTC'))).toEqual([
+      'day:2024-03-01',
+      '[a1',
+      'a2',
+      'a3]',
+    ]);
+  });
+
+  it('starts a new group when the author changes', () => {
+    const messages = [
+      createMessage('a1', 'Alice', '2024-03-01T09:00:00Z'),
+      createMessage('b1', 'Bob', '2024-03-01T09:01:00Z'),
+      createMessage('a2', 'Alice', '2024-03-01T09:02:00Z'),
+    ];
+
+    expect(describeRows(groupMessages(messages, WINDOW_MS, 'UTC'))).toEqual([
+      'day:2024-03-01',
+      '[a1]',
+      '[b1]',
+      '[a2]',
+    ]);
+  });
+
+  describe('grouping window', () => {
+    it('groups a message sent exactly one window after the previous one', () => {
+      const messages = [
+        createMessage('a1', 'Alice', '2024-03-01T09:00:00.000Z'),
+        createMessage('a2', 'Alice', '2024-03-01T09:05:00.000Z'),
+      ];
+
+      expect(describeRows(groupMessages(messages, WINDOW_MS, 'UTC'))).toEqual([
+        'day:2024-03-01',
+        '[a1',
+        'a2]',
+      ]);
+    });
+
+    it('starts a new group one millisecond past the window', () => {
+      const messages = [
+        createMessage('a1', 'Alice', '2024-03-01T09:00:00.000Z'),
+        createMessage('a2', 'Alice', '2024-03-01T09:05:00.001Z'),
+      ];
+
+      expect(describeRows(groupMessages(messages, WINDOW_MS, 'UTC'))).toEqual([
+        'day:2024-03-01',
+        '[a1]',
+        '[a2]',
+      ]);
+    });
+
+    it('measures the window from the previous message, not the first', () => {
+      const messages = [
+        createMessage('a1', 'Alice', '2024-03-01T09:00:00Z'),
+        createMessage('a2', 'Alice', '2024-03-01T09:04:00Z'),
+        createMessage('a3', 'Alice', '2024-03-01T09:08:00Z'),
+      ];
+
+      expect(describeRows(groupMessages(messages, WINDOW_MS, 'UTC'))).toEqual([
+        'day:2024-03-01',
+        '[a1',
+        'a2',
+        'a3]',
+      ]);
+    });
+
+    it('disables grouping with a window of 0', () => {
+      const messages = [
+        createMessage('a1', 'Alice', '2024-03-01T09:00:00Z'),
+        createMessage('a2', 'Alice', '2024-03-01T09:00:00Z'),
+      ];
+
+      expect(describeRows(groupMessages(messages, 0, 'UTC'))).toEqual([
+        'day:2024-03-01',
+        '[a1]',
+        '[a2]',
+      ]);
+    });
+  });
+
+  describe('days', () => {
+    /**
+     * 22:30 and 23:30 UTC on March 1st: the same day in UTC and New York,
+     * but the second one is already March 2nd in Berlin (UTC+1).
+     */
+    const messages = [
+      createMessage('a1', 'Alice', '2024-03-01T22:30:00Z'),
+      createMessage('a2', 'Alice', '2024-03-01T23:30:00Z'),
+    ];
+    const windowMs = 2 * 60 * 60_000;
+
+    it('adds a separator before the first message of each day', () => {
+      expect(
+        describeRows(groupMessages(messages, windowMs, 'Europe/Berlin'))
+      ).toEqual(['day:2024-03-01', '[a1]', 'day:2024-03-02', '[a2]']);
+    });
+
+    it('uses calendar days of the given time zone', () => {
+      expect(describeRows(groupMessages(messages, windowMs, 'UTC'))).toEqual([
+        'day:2024-03-01',
+        '[a1',
+        'a2]',
+      ]);
+      expect(
+        describeRows(groupMessages(messages, windowMs, 'America/New_York'))
+      ).toEqual(['day:2024-03-01', '[a1', 'a2]']);
+    });
+
+    it('keys separators by date', () => {
+      const rows = groupMessages(messages, windowMs, 'Europe/Berlin');
+
+      expect(rows.filter(row => row.type === 'day')).toEqual([
+        { type: 'day', key: 'day-2024-03-01', date: '2024-03-01' },
+        { type: 'day', key: 'day-2024-03-02', date: '2024-03-02' },
+      ]);
+    });
+  });
+
+  describe('local messages', () => {
+    it('groups pending and queued messages like sent ones', () => {
+      const messages = [
+        createMessage('a1', 'Alice', '2024-03-01T09:00:00Z'),
+        createMessage('temp-1', 'Alice', '2024-03-01T09:01:00Z', 'pending'),
+        createMessage('temp-2', 'Alice', '2024-03-01T09:02:00Z', 'queued'),
+      ];
+
+      expect(describeRows(groupMessages(messages, WINDOW_MS, 'UTC'))).toEqual([
+        'day:2024-03-01',
+        '[a1',
+        'temp-1',
+        'temp-2]',
+      ]);
+    });
+
+    it('keys message rows by id, so a confirmed message gets a new row', () => {
+      const pending = createMessage(
+        'temp-1',
+        'Alice',
+        '2024-03-01T09:01:00Z',
+        'pending'
+      );
+      const confirmed: ChatMessage = {
+        ...pending,
+        _id: 'm1',
+        deliveryState: 'sent',
+      };
+
+      const [, pendingRow] = groupMessages([pending], WINDOW_MS, 'UTC');
+      const [, confirmedRow] = groupMessages([confirmed], WINDOW_MS, 'UTC');
+
+      expect(pendingRow).toMatchObject({ key: 'temp-1', message: pending });
+      expect(confirmedRow).toMatchObject({ key: 'm1', message: confirmed });
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Message Grouping
+ *
+ * Turns a conversation's messages (oldest first) into the rows of the
+ * message list (see @models/message `MessageListRow`):
+ * - A day separator before the first message of each calendar day
+ * - Consecutive messages from the same author, each sent within the
+ *   grouping window of the previous one (and on the same day), form a
+ *   group: the author is shown on its first message, the time on its last
+ *
+ * Days are calendar days in the user's time zone (see
+ * @preferences/preferences). Pure: no DOM, no clock.
+ *
+ */
+
+import type { ChatMessage, MessageListRow } from '@models/message';
+import { getCalendarDate } from '@utils/time-format';
+
+/**
+ * Whether `message` continues the group of `previous` (both on the same
+ * day). A window of 0 or less disables grouping.
+ */
+function continuesGroup(
+  previous: ChatMessage,
+  message: ChatMessage,
+  groupWindowMs: number
+): boolean {
+  return (
+    groupWindowMs > 0 &&
+    previous.author === message.author &&
+    Math.abs(message.createdAtMs - previous.createdAtMs) <= groupWindowMs
+  );
+}
+
+/**
+ * Builds the rows of a message list.
+ *
+ * @param messages - Messages in chronological order (oldest first)
+ * @param groupWindowMs - Longest gap between two messages of a group
+ * @param timeZone - Time zone of the days (the device's when empty)
+ * @returns Day separators and messages, in display order
+ *
+ * @example
+ * ```TypeScript
+ * groupMessages([alice9h00, alice9h02, bob9h03], 5 * 60_000);
+ * // [
+ * //   { type: 'day', key: 'day-2024-03-01', date: '2024-03-01', … },
+ * //   { type: 'message', message: alice9h00, isGroupStart: true, isGroupEnd: false, … },
+ * //   { type: 'message', message: alice9h02, isGroupStart: false, isGroupEnd: true, … },
+ * //   { type: 'message', message: bob9h03, isGroupStart: true, isGroupEnd: true, … },
+ * // ]
+ * ```
+ */
+export function groupMessages(
+  messages: ReadonlyArray<ChatMessage>,
+  groupWindowMs: number,
+  timeZone = ''
+): MessageListRow[] {
+  const dates = messages.map(message =>
+    getCalendarDate(message.createdAtMs, timeZone)
+  );
+  const rows: MessageListRow[] = [];
+
+  messages.forEach((message, index) => {
+    const date = dates[index];
+    const previous = messages[index - 1];
+    const next = messages[index + 1];
+    const startsDay = index === 0 || dates[index - 1] !== date;
+
+    if (startsDay) {
+      rows.push({
+        type: 'day',
+        key: `day-${date}`,
+        date,
+      });
+    }
+
+    rows.push({
+      type: 'message',
+      key: message._id,
+      message,
+      isGroupStart:
+        startsDay || !continuesGroup(previous, message, groupWindowMs),
+      isGroupEnd:
+        next === undefined ||
+        dates[index + 1] !== date ||
+        !continuesGroup(message, next, groupWindowMs),
+    });
+  });
+
+  return rows;
+}
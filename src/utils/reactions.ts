@@ -0,0 +1,77 @@
+/**
+ * Reaction options and the wording used to announce reactions, in the UI
+ * language (@i18n/i18n).
+ */
+
+import type { MessageKey } from '@models/i18n';
+import { i18n } from '@i18n/i18n';
+import { decodeHtmlEntities } from '@utils/html-entities';
+
+/**
+ * An emoji offered by the reaction picker.
+ */
+export interface ReactionOption {
+  readonly emoji: string;
+  /** Catalog key of the name announced by screen readers */
+  readonly labelKey: MessageKey;
+}
+
+/**
+ * Reactions offered by the picker, in display order.
+ */
+export const REACTION_OPTIONS: ReadonlyArray<ReactionOption> = [
+  { emoji: '👍', labelKey: 'reactions.thumbsUp' },
+  { emoji: '❤️', labelKey: 'reactions.heart' },
+  { emoji: '😂', labelKey: 'reactions.laughing' },
+  { emoji: '😮', labelKey: 'reactions.surprised' },
+  { emoji: '😢', labelKey: 'reactions.sad' },
+  { emoji: '🎉', labelKey: 'reactions.party' },
+];
+
+const listFormats = new Map<string, Intl.ListFormat>();
+
+/**
+ * Cached Intl.ListFormat joining names with "and" in the UI language.
+ */
+function getListFormat(): Intl.ListFormat {
+  const locale = i18n.getState().formatLocale;
+  let format = listFormats.get(locale);
+
+  if (!format) {
+    format = new Intl.ListFormat(locale, { type: 'conjunction' });
+    listFormats.set(locale, format);
+  }
+
+  return format;
+}
+
+/**
+ * Name of a reaction for screen readers. Emojis the picker doesn't offer
+ * (added by other clients) are announced as themselves.
+ */
+export function getReactionLabel(emoji: string): string {
+  const option = REACTION_OPTIONS.find(option => option.emoji === emoji);
+
+  return option ? i18n.t(option.labelKey) : emoji;
+}
+
+/**
+ * Who reacted, as a sentence: "You, Alice and Bob".
+ *
+ * @param authors - Reaction authors as returned by the API (HTML-escaped)
+ * @param currentAuthor - The user's display name, listed first as "You"
+ * @returns The names joined for display
+ */
+export function describeReactionAuthors(
+  authors: ReadonlyArray<string>,
+  currentAuthor: string
+): string {
+  const names = authors.map(author => decodeHtmlEntities(author));
+  const others = names.filter(name => name !== currentAuthor);
+  const ordered =
+    others.length < names.length
+      ? [i18n.t('reactions.you'), ...others]
+      : others;
+
+  return getListFormat().format(ordered);
+}
@@ -0,0 +1,206 @@
+/**
+ * Time Formatting
+ *
+ * Message times, their tooltips and day labels in the UI language
+ * (@i18n/i18n), following the display preferences
+ * (@preferences/preferences): 12- or 24-hour clock, time zone, clock or
+ * relative times.
+ *
+ * Intl formatters are costly to create and these run for every message on
+ * every render, so they are cached per locale and set of options.
+ *
+ */
+
+import type { Preferences } from '@models/preferences';
+import { i18n } from '@i18n/i18n';
+import { HourCycle, TimeDisplay } from '@preferences/preferences';
+
+/**
+ * The preferences that affect clock times.
+ */
+export type ClockPreferences = Pick<Preferences, 'hourCycle' | 'timeZone'>;
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const dateTimeFormats = new Map<string, Intl.DateTimeFormat>();
+const relativeTimeFormats = new Map<string, Intl.RelativeTimeFormat>();
+
+/**
+ * Cached Intl.DateTimeFormat.
+ *
+ * @param options - Format options
+ * @param locale - Locale (default: the UI language's)
+ */
+function getDateTimeFormat(
+  options: Intl.DateTimeFormatOptions,
+  locale = i18n.getState().formatLocale
+): Intl.DateTimeFormat {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  let format = dateTimeFormats.get(key);
+
+  if (!format) {
+    format = new Intl.DateTimeFormat(locale, options);
+    dateTimeFormats.set(key, format);
+  }
+
+  return format;
+}
+
+/**
+ * Intl options for a clock preference (locale default for AUTO) and a time
+ * zone (the device's when empty).
+ */
+function getClockOptions({
+  hourCycle,
+  timeZone,
+}: ClockPreferences): Intl.DateTimeFormatOptions {
+  return {
+    ...(hourCycle !== HourCycle.AUTO && {
+      hourCycle: hourCycle === HourCycle.H12 ? 'h12' : 'h23',
+    }),
+    ...(timeZone && { timeZone }),
+  };
+}
+
+/**
+ * Clock time of a timestamp ("2:30 PM", "14:30").
+ */
+export function formatTime(
+  timestampMs: number,
+  preferences: ClockPreferences
+): string {
+  return getDateTimeFormat({
+    hour: 'numeric',
+    minute: '2-digit',
+    ...getClockOptions(preferences),
+  }).format(timestampMs);
+}
+
+/**
+ * Full date and time with the time zone, for tooltips
+ * ("Monday, October 19, 2026 at 13:05:27 EDT").
+ */
+export function formatFullDateTime(
+  timestampMs: number,
+  preferences: ClockPreferences
+): string {
+  return getDateTimeFormat({
+    dateStyle: 'full',
+    timeStyle: 'long',
+    ...getClockOptions(preferences),
+  }).format(timestampMs);
+}
+
+/**
+ * Time elapsed since a timestamp ("just now", "2m ago", "3h ago").
+ *
+ * @param timestampMs - Past time (a slightly future one, from clock skew,
+ *   counts as now)
+ * @param nowMs - Current time
+ */
+export function formatRelativeTime(timestampMs: number, nowMs: number): string {
+  const elapsedMs = nowMs - timestampMs;
+
+  if (elapsedMs < MINUTE_MS) {
+    return i18n.t('time.justNow');
+  }
+
+  const { formatLocale } = i18n.getState();
+  let relativeTimeFormat = relativeTimeFormats.get(formatLocale);
+
+  if (!relativeTimeFormat) {
+    relativeTimeFormat = new Intl.RelativeTimeFormat(formatLocale, {
+      style: 'narrow',
+    });
+    relativeTimeFormats.set(formatLocale, relativeTimeFormat);
+  }
+
+  return elapsedMs < HOUR_MS
+    ? relativeTimeFormat.format(-Math.floor(elapsedMs / MINUTE_MS), 'minute')
+    : relativeTimeFormat.format(-Math.floor(elapsedMs / HOUR_MS), 'hour');
+}
+
+/**
+ * Time shown on a message: relative while under a day old if the user
+ * prefers it, otherwise the clock time.
+ *
+ * @param timestampMs - When the message was sent
+ * @param nowMs - Current time (only read for relative times)
+ * @param preferences - Display preferences
+ */
+export function formatMessageTime(
+  timestampMs: number,
+  nowMs: number,
+  preferences: Preferences
+): string {
+  return preferences.timeDisplay === TimeDisplay.RELATIVE &&
+    nowMs - timestampMs < DAY_MS
+    ? formatRelativeTime(timestampMs, nowMs)
+    : formatTime(timestampMs, preferences);
+}
+
+/**
+ * Calendar date of a timestamp in a time zone, as `YYYY-MM-DD`.
+ *
+ * @param timestampMs - Timestamp
+ * @param timeZone - IANA time zone (the device's when empty)
+ */
+export function getCalendarDate(timestampMs: number, timeZone: string): string {
+  const parts = getDateTimeFormat(
+    {
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      ...(timeZone && { timeZone }),
+    },
+    'en-US'
+  ).formatToParts(timestampMs);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find(candidate => candidate.type === type)?.value ?? '';
+
+  return `${part('year')}-${part('month')}-${part('day')}`;
+}
+
+/**
+ * Noon (UTC) of a `YYYY-MM-DD` date plus some days, for date arithmetic
+ * and formatting that no time zone can move to another day.
+ */
+function getDateNoonUtc(date: string, dayOffset = 0): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day + dayOffset, 12);
+}
+
+/**
+ * Label of a day separator: "Today", "Yesterday", or the date (with the
+ * year only when it isn't the current one).
+ *
+ * @param date - Day as `YYYY-MM-DD` (see getCalendarDate)
+ * @param nowMs - Current time
+ * @param timeZone - Time zone the dates are in (the device's when empty)
+ */
+export function formatDayLabel(
+  date: string,
+  nowMs: number,
+  timeZone: string
+): string {
+  const today = getCalendarDate(nowMs, timeZone);
+  const dateMs = getDateNoonUtc(date);
+
+  if (date === today) {
+    return i18n.t('time.today');
+  }
+
+  if (dateMs === getDateNoonUtc(today, -1)) {
+    return i18n.t('time.yesterday');
+  }
+
+  return getDateTimeFormat({
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    ...(date.slice(0, 4) !== today.slice(0, 4) && { year: 'numeric' }),
+    timeZone: 'UTC',
+  }).format(dateMs);
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
@@ -16,6 +17,22 @@ export default defineConfig({
       '@models': path.resolve(__dirname, './src/types'),
       '@config': path.resolve(__dirname, './src/config'),
       '@utils': path.resolve(__dirname, './src/utils'),
+      '@outbox': path.resolve(__dirname, './src/outbox'),
+      '@mocks': path.resolve(__dirname, './src/mocks'),
+      '@store': path.resolve(__dirname, './src/store'),
+      '@realtime': path.resolve(__dirname, './src/realtime'),
+      '@router': path.resolve(__dirname, './src/router'),
+      '@identity': path.resolve(__dirname, './src/identity'),
+      '@preferences': path.resolve(__dirname, './src/preferences'),
+      '@i18n': path.resolve(__dirname, './src/i18n'),
+      '@session': path.resolve(__dirname, './src/session'),
     },
   },
+  test: {
+    /**
+     * Vitest empties stylesheets by default; tokens.test.ts reads their
+     * source through `?raw`.
+     */
+    css: { include: /\.css\?raw$/ },
+  },
 });